@@ -0,0 +1,295 @@
+import type { CDPSession } from "playwright";
+import { getPseudoOrigin } from "./dom.js";
+import type {
+  CDPAtRule,
+  CDPRule,
+  CDPRuleType,
+  CssAtRule,
+  CssDeclarationSource,
+} from "../types.js";
+
+/**
+ * At-rule type for each CDP rule type that encloses style rules
+ */
+const AT_RULE_TYPES: Partial<Record<CDPRuleType, CssAtRule["type"]>> = {
+  MediaRule: "media",
+  SupportsRule: "supports",
+  ContainerRule: "container",
+  LayerRule: "layer",
+  ScopeRule: "scope",
+  StartingStyleRule: "starting-style",
+};
+
+/**
+ * List the at-rules enclosing a matched rule, outermost first.
+ *
+ * CDP reports each kind in its own list (innermost first) and the nesting
+ * order across kinds in `ruleTypes`. Without `ruleTypes` (older Chromium),
+ * kinds are listed in a fixed order.
+ */
+export function atRuleChain(rule: CDPRule): CssAtRule[] {
+  const lists: Record<CssAtRule["type"], CssAtRule[]> = {
+    media: (rule.media ?? []).map((media) => ({
+      ...toAtRule("media", media),
+      ...(media.mediaList && {
+        active: media.mediaList.some((query) => query.active),
+      }),
+    })),
+    supports: (rule.supports ?? []).map((supports) => ({
+      ...toAtRule("supports", supports),
+      active: supports.active,
+    })),
+    container: (rule.containerQueries ?? []).map((query) => ({
+      ...toAtRule("container", query),
+      ...(query.name && { name: query.name }),
+      active: true, // Matched rules only come from containers that match
+    })),
+    layer: (rule.layers ?? []).map((layer) => toAtRule("layer", layer)),
+    scope: (rule.scopes ?? []).map((scope) => toAtRule("scope", scope)),
+    "starting-style": (rule.startingStyles ?? []).map((startingStyle) =>
+      toAtRule("starting-style", startingStyle),
+    ),
+  };
+
+  if (!rule.ruleTypes) {
+    return Object.values(lists).flatMap((list) => [...list].reverse());
+  }
+
+  const chain: CssAtRule[] = [];
+  for (const ruleType of rule.ruleTypes) {
+    const type = AT_RULE_TYPES[ruleType];
+    const atRule = type && lists[type].shift();
+    if (atRule) {
+      chain.push(atRule);
+    }
+  }
+
+  return chain.reverse();
+}
+
+function toAtRule(type: CssAtRule["type"], atRule: CDPAtRule): CssAtRule {
+  const result: CssAtRule = { type, text: atRule.text };
+  if (atRule.range) {
+    result.line = atRule.range.startLine;
+    result.column = atRule.range.startColumn;
+  }
+  return result;
+}
+
+/**
+ * Declaration of a style rule inside conditional at-rules, as found by
+ * walking the CSSOM in the page
+ */
+interface ConditionalDeclaration {
+  selector: string;
+  value: string;
+  important: boolean;
+  href: string | null;
+  atRules: CssAtRule[];
+}
+
+/**
+ * Find declarations of a property in conditional rules (`@media`,
+ * `@supports`, `@container`) whose selector matches the element but whose
+ * conditions do not currently hold, such as rules for other breakpoints.
+ *
+ * CDP only reports rules that currently apply, so the element's style
+ * sheets are walked through the CSSOM instead. Media and supports
+ * conditions are evaluated in the page; container queries cannot be, so a
+ * declaration under `@container` counts as inactive when it is not among
+ * the `active` declarations CDP reported. Source locations are not known
+ * for these declarations.
+ *
+ * For a pseudo-element, rules whose selectors end in that pseudo-element
+ * are matched against its originating element.
+ *
+ * Style rules nested inside other style rules and `@scope` blocks are not
+ * searched.
+ */
+export async function findInactiveDeclarations(
+  cdpSession: CDPSession,
+  nodeId: number,
+  property: string,
+  active: CssDeclarationSource[],
+): Promise<CssDeclarationSource[]> {
+  const objectGroup = "mcp-devtools-at-rules";
+  const origin = getPseudoOrigin(cdpSession, nodeId);
+
+  try {
+    const { object } = await cdpSession.send("DOM.resolveNode", {
+      nodeId: origin?.nodeId ?? nodeId,
+      objectGroup,
+    });
+
+    const { result } = await cdpSession.send("Runtime.callFunctionOn", {
+      objectId: object.objectId,
+      functionDeclaration: COLLECT_CONDITIONAL_DECLARATIONS,
+      arguments: [{ value: property }, { value: origin?.pseudo ?? null }],
+      returnByValue: true,
+      objectGroup,
+    });
+
+    const declarations = (result.value ?? []) as ConditionalDeclaration[];
+
+    return declarations
+      .filter((declaration) => {
+        if (declaration.atRules.some((atRule) => atRule.active === false)) {
+          return true;
+        }
+        // Only container queries are left undecided
+        const inContainer = declaration.atRules.some(
+          (atRule) => atRule.type === "container",
+        );
+        return (
+          inContainer &&
+          !active.some(
+            (source) =>
+              source.selector === declaration.selector &&
+              source.value === declaration.value,
+          )
+        );
+      })
+      .map((declaration) => toInactiveSource(declaration));
+  } catch {
+    // Inactive rules are best-effort
+    return [];
+  } finally {
+    try {
+      await cdpSession.send("Runtime.releaseObjectGroup", { objectGroup });
+    } catch {
+      // Node may already be gone
+    }
+  }
+}
+
+function toInactiveSource(
+  declaration: ConditionalDeclaration,
+): CssDeclarationSource {
+  const atRules = declaration.atRules.map((atRule) =>
+    atRule.type === "container" && atRule.active === undefined
+      ? { ...atRule, active: false }
+      : atRule,
+  );
+
+  const source: CssDeclarationSource = {
+    source: "stylesheet",
+    selector: declaration.selector,
+    value: declaration.value,
+    important: declaration.important,
+    origin: "author",
+    atRules,
+    active: false,
+  };
+
+  if (declaration.href) {
+    source.stylesheetUrl = declaration.href;
+  }
+
+  const layers = atRules.filter((atRule) => atRule.type === "layer");
+  if (layers.length > 0) {
+    source.layer = layers.map((layer) => layer.text).join(".");
+  }
+
+  return source;
+}
+
+/**
+ * Page function (called on the element) that walks the style sheets of
+ * the element's document or shadow root and returns declarations of a
+ * property in matching style rules under `@media`, `@supports` or
+ * `@container`. With a pseudo-element name, only selectors ending in that
+ * pseudo-element are matched.
+ */
+const COLLECT_CONDITIONAL_DECLARATIONS = `function (property, pseudo) {
+  const element = this;
+  const root = element.getRootNode();
+  const results = [];
+
+  const pseudoSuffix = pseudo && new RegExp("::?" + pseudo + "$", "i");
+  const selectorMatches = (selectorText) => {
+    if (!pseudoSuffix) {
+      return element.matches(selectorText);
+    }
+    // Match the originating element of selectors such as "a.icon::before"
+    return selectorText.split(",").some((part) => {
+      const selector = part.trim();
+      try {
+        return pseudoSuffix.test(selector) &&
+          element.matches(selector.replace(pseudoSuffix, "") || "*");
+      } catch {
+        return false;
+      }
+    });
+  };
+
+  const media = (text) => ({
+    type: "media",
+    text,
+    active: matchMedia(text).matches,
+  });
+
+  const walk = (rules, atRules, href) => {
+    for (const rule of rules) {
+      if (rule instanceof CSSStyleRule) {
+        const conditional = atRules.some((atRule) => atRule.type !== "layer");
+        const value = rule.style.getPropertyValue(property).trim();
+        let matches = false;
+        try {
+          matches = conditional && value !== "" && selectorMatches(rule.selectorText);
+        } catch {
+          // Selector not supported by matches()
+        }
+        if (matches) {
+          results.push({
+            selector: rule.selectorText,
+            value,
+            important: rule.style.getPropertyPriority(property) === "important",
+            href,
+            atRules,
+          });
+        }
+      } else if (rule instanceof CSSImportRule) {
+        let imported;
+        try {
+          imported = rule.styleSheet && rule.styleSheet.cssRules;
+        } catch {
+          // Cross-origin style sheet
+        }
+        if (imported) {
+          const text = rule.media.mediaText;
+          walk(imported, text ? [...atRules, media(text)] : atRules, rule.styleSheet.href);
+        }
+      } else if (rule instanceof CSSMediaRule) {
+        walk(rule.cssRules, [...atRules, media(rule.media.mediaText)], href);
+      } else if (rule instanceof CSSSupportsRule) {
+        walk(rule.cssRules, [
+          ...atRules,
+          { type: "supports", text: rule.conditionText, active: CSS.supports(rule.conditionText) },
+        ], href);
+      } else if (typeof CSSContainerRule !== "undefined" && rule instanceof CSSContainerRule) {
+        const atRule = { type: "container", text: rule.containerQuery || rule.conditionText };
+        if (rule.containerName) {
+          atRule.name = rule.containerName;
+        }
+        walk(rule.cssRules, [...atRules, atRule], href);
+      } else if (typeof CSSLayerBlockRule !== "undefined" && rule instanceof CSSLayerBlockRule) {
+        walk(rule.cssRules, [...atRules, { type: "layer", text: rule.name }], href);
+      }
+    }
+  };
+
+  const sheets = [...(root.styleSheets || []), ...(root.adoptedStyleSheets || [])];
+  for (const sheet of sheets) {
+    let rules;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Cross-origin style sheet
+      continue;
+    }
+    const text = sheet.media && sheet.media.mediaText;
+    walk(rules, text ? [media(text)] : [], sheet.href);
+  }
+
+  return results;
+}`;
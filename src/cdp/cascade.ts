@@ -1,225 +1,554 @@
 import type { CDPSession } from "playwright";
 import type {
+  CascadeReason,
   CssDeclarationSource,
+  CDPLayerData,
   CDPProperty,
   CDPMatchedRule,
   CDPRule,
+  CDPStyle,
+  CDPInheritedStyleEntry,
+  CDPMatchedStyles,
+  CssInheritance,
+  InheritanceStep,
+  Specificity,
 } from "../types.js";
-import { getMatchedStyles, getStyleSheetText, extractSnippet } from "./css.js";
+import {
+  getMatchedStyles,
+  getStyleSheetHeader,
+  getStyleSheetText,
+  extractSnippet,
+} from "./css.js";
+import { compareSpecificity, selectorSpecificity } from "./specificity.js";
+import { describeElement, getFlatTreeAncestors } from "./dom.js";
+import { atRuleChain } from "./at-rules.js";
+import type { SourceMapResolver } from "./source-maps.js";
 
 /**
- * CSS shorthand to longhand mappings
+ * Get the longhand properties a shorthand expands to, as the browser
+ * parses it (e.g. `inset`, `gap`, `grid-area`, `transition`). Returns an
+ * empty array for longhands, custom properties and unknown names.
  */
-const SHORTHAND_TO_LONGHAND: Record<string, string[]> = {
-  margin: ["margin-top", "margin-right", "margin-bottom", "margin-left"],
-  padding: ["padding-top", "padding-right", "padding-bottom", "padding-left"],
-  border: [
-    "border-top-width",
-    "border-right-width",
-    "border-bottom-width",
-    "border-left-width",
-    "border-top-style",
-    "border-right-style",
-    "border-bottom-style",
-    "border-left-style",
-    "border-top-color",
-    "border-right-color",
-    "border-bottom-color",
-    "border-left-color",
-  ],
-  "border-top": ["border-top-width", "border-top-style", "border-top-color"],
-  "border-right": [
-    "border-right-width",
-    "border-right-style",
-    "border-right-color",
-  ],
-  "border-bottom": [
-    "border-bottom-width",
-    "border-bottom-style",
-    "border-bottom-color",
-  ],
-  "border-left": [
-    "border-left-width",
-    "border-left-style",
-    "border-left-color",
-  ],
-  "border-width": [
-    "border-top-width",
-    "border-right-width",
-    "border-bottom-width",
-    "border-left-width",
-  ],
-  "border-style": [
-    "border-top-style",
-    "border-right-style",
-    "border-bottom-style",
-    "border-left-style",
-  ],
-  "border-color": [
-    "border-top-color",
-    "border-right-color",
-    "border-bottom-color",
-    "border-left-color",
-  ],
-  background: [
-    "background-color",
-    "background-image",
-    "background-repeat",
-    "background-position",
-    "background-size",
-  ],
-  font: [
-    "font-style",
-    "font-variant",
-    "font-weight",
-    "font-size",
-    "line-height",
-    "font-family",
-  ],
-  flex: ["flex-grow", "flex-shrink", "flex-basis"],
+export async function getLonghands(
+  cdpSession: CDPSession,
+  property: string,
+): Promise<string[]> {
+  if (property.startsWith("--")) {
+    return [];
+  }
+
+  try {
+    // Every shorthand accepts `initial`, which expands to all its longhands
+    const { longhandProperties } = await cdpSession.send(
+      "CSS.getLonghandProperties",
+      { shorthandName: property, value: "initial" },
+    );
+    return longhandProperties.map((longhand) => longhand.name);
+  } catch {
+    // Not a shorthand
+    return [];
+  }
+}
+
+/**
+ * Find the shorthand declaration a longhand was expanded from. CDP lists
+ * the longhands of a shorthand (`margin: 0 auto`) as separate properties
+ * without a source range; only the shorthand carries the range and text.
+ */
+function originatingShorthand(
+  style: CDPStyle,
+  longhand: CDPProperty,
+): CDPProperty | undefined {
+  if (longhand.range) {
+    return undefined;
+  }
+
+  return style.cssProperties.find(
+    (prop) =>
+      prop.range &&
+      !prop.disabled &&
+      prop.longhandProperties?.some((l) => l.name === longhand.name),
+  );
+}
+
+/**
+ * Selector that matches the shadow host itself (not `:host .descendant`)
+ */
+const HOST_SELECTOR = /^:host(-context)?(\(.*\))?$/;
+
+/**
+ * Shadow DOM context of a matched rule, from the selector that matched:
+ * `:host` and `::slotted()` rules come from a shadow tree styling its host
+ * or slotted light DOM (the inner context), `::part()` rules style a
+ * shadow tree from outside it.
+ */
+function shadowContextOf(
+  matchedRule: CDPMatchedRule,
+): CssDeclarationSource["shadowContext"] {
+  const selectors = matchedRule.matchingSelectors.map(
+    (index) => matchedRule.rule.selectorList.selectors[index]?.text ?? "",
+  );
+
+  if (selectors.some((text) => text.includes("::part("))) {
+    return "part";
+  }
+  if (selectors.some((text) => text.includes("::slotted("))) {
+    return "slotted";
+  }
+  if (selectors.some((text) => HOST_SELECTOR.test(text.trim()))) {
+    return "host";
+  }
+  return undefined;
+}
+
+/**
+ * Check if a declaration comes from an inner (shadow tree) context
+ */
+function isInnerContext(entry: CascadeEntry): boolean {
+  return entry.shadowContext === "host" || entry.shadowContext === "slotted";
+}
+
+/**
+ * A declaration of the property with everything the cascade sorts by
+ */
+interface CascadeEntry {
+  property: CDPProperty;
+  shorthand?: CDPProperty; // Shorthand declaration the property was expanded from
+  source: CssDeclarationSource["source"];
+  rule?: CDPRule;
+  origin: NonNullable<CssDeclarationSource["origin"]>;
+  shadowContext?: CssDeclarationSource["shadowContext"];
+  layer?: string;
+  layerOrder: number; // Infinity when unlayered
+  specificity: Specificity;
+  order: number; // Position in cascade input (source order)
+}
+
+/**
+ * Rank of origin and importance, lowest first
+ * (https://drafts.csswg.org/css-cascade-5/#cascade-origin)
+ */
+const ORIGIN_RANK: Record<CascadeEntry["origin"], [number, number]> = {
+  // [normal, important]
+  "user-agent": [1, 6],
+  user: [2, 5],
+  author: [3, 4],
 };
 
 /**
- * Check if a property is a shorthand
+ * Compare two declarations in cascade order. `diff` is positive when `a`
+ * wins; `reason` is the step that decided.
  */
-export function isShorthand(property: string): boolean {
-  return property in SHORTHAND_TO_LONGHAND;
+function compareCascade(
+  a: CascadeEntry,
+  b: CascadeEntry,
+): { diff: number; reason: CascadeReason } {
+  const important = a.property.important === true;
+  const rank = (e: CascadeEntry) =>
+    ORIGIN_RANK[e.origin][e.property.important ? 1 : 0];
+
+  const steps: Array<[CascadeReason, number, number]> = [
+    [
+      a.property.important === b.property.important ? "origin" : "importance",
+      rank(a),
+      rank(b),
+    ],
+    // Normal: outer context wins. Important: inner context wins.
+    [
+      "shadow-context",
+      isInnerContext(a) === important ? 1 : 0,
+      isInnerContext(b) === important ? 1 : 0,
+    ],
+    ["inline", a.source === "inline" ? 1 : 0, b.source === "inline" ? 1 : 0],
+    // Normal: later layers (and unlayered) win. Important: reversed.
+    [
+      "layer",
+      important ? -a.layerOrder : a.layerOrder,
+      important ? -b.layerOrder : b.layerOrder,
+    ],
+    ["specificity", a.specificity.a, b.specificity.a],
+    ["specificity", a.specificity.b, b.specificity.b],
+    ["specificity", a.specificity.c, b.specificity.c],
+    ["order", a.order, b.order],
+  ];
+
+  for (const [reason, x, y] of steps) {
+    if (x !== y) {
+      return { diff: x > y ? 1 : -1, reason };
+    }
+  }
+  return { diff: 0, reason: "order" };
 }
 
 /**
- * Get longhand properties for a shorthand
+ * Map CDP stylesheet origins to cascade origins
  */
-export function getLonghands(shorthand: string): string[] | undefined {
-  return SHORTHAND_TO_LONGHAND[shorthand];
+function cascadeOrigin(rule: CDPRule): CascadeEntry["origin"] {
+  if (rule.origin === "user-agent" || rule.origin === "user") {
+    return rule.origin;
+  }
+  // Regular, injected and inspector stylesheets are all author styles
+  return "author";
 }
 
 /**
- * Find the winning declaration for a CSS property
+ * Highest specificity among the rule's selectors that matched the element
  */
-export async function findWinningDeclaration(
+function matchedSpecificity(matchedRule: CDPMatchedRule): Specificity {
+  const selectors = matchedRule.rule.selectorList.selectors;
+  return matchedRule.matchingSelectors
+    .map((index) => selectors[index])
+    .filter((selector) => selector !== undefined)
+    .map(
+      (selector) => selector.specificity ?? selectorSpecificity(selector.text),
+    )
+    .reduce(
+      (max, current) => (compareSpecificity(current, max) > 0 ? current : max),
+      { a: 0, b: 0, c: 0 },
+    );
+}
+
+/**
+ * Full name of a rule's cascade layer (`outer.inner`), if any
+ */
+function layerName(rule: CDPRule): string | undefined {
+  if (!rule.layers || rule.layers.length === 0) {
+    return undefined;
+  }
+  return [...rule.layers]
+    .reverse()
+    .map((layer) => layer.text)
+    .join(".");
+}
+
+/**
+ * Get the cascade order of every layer in the node's tree scope, keyed by
+ * full layer name
+ */
+async function getLayerOrders(
+  cdpSession: CDPSession,
+  nodeId: number,
+): Promise<Map<string, number>> {
+  const orders = new Map<string, number>();
+
+  const { rootLayer } = (await cdpSession.send("CSS.getLayersForNode", {
+    nodeId,
+  })) as { rootLayer: CDPLayerData };
+
+  const visit = (layer: CDPLayerData, prefix: string) => {
+    for (const subLayer of layer.subLayers ?? []) {
+      const name = prefix ? `${prefix}.${subLayer.name}` : subLayer.name;
+      orders.set(name, subLayer.order);
+      visit(subLayer, name);
+    }
+  };
+  // The root is the implicit outer layer holding unlayered styles
+  visit(rootLayer, "");
+
+  return orders;
+}
+
+/**
+ * Properties that inherit by default
+ * (https://www.w3.org/TR/CSS22/propidx.html plus later modules)
+ */
+const INHERITED_PROPERTIES = new Set([
+  "accent-color",
+  "border-collapse",
+  "border-spacing",
+  "caption-side",
+  "caret-color",
+  "color",
+  "color-scheme",
+  "cursor",
+  "direction",
+  "empty-cells",
+  "font-family",
+  "font-feature-settings",
+  "font-kerning",
+  "font-size",
+  "font-size-adjust",
+  "font-stretch",
+  "font-style",
+  "font-variant",
+  "font-variant-caps",
+  "font-variant-east-asian",
+  "font-variant-ligatures",
+  "font-variant-numeric",
+  "font-variation-settings",
+  "font-weight",
+  "hyphens",
+  "letter-spacing",
+  "line-break",
+  "line-height",
+  "list-style-image",
+  "list-style-position",
+  "list-style-type",
+  "orphans",
+  "overflow-wrap",
+  "paint-order",
+  "pointer-events",
+  "quotes",
+  "tab-size",
+  "text-align",
+  "text-align-last",
+  "text-indent",
+  "text-justify",
+  "text-rendering",
+  "text-shadow",
+  "text-transform",
+  "text-underline-position",
+  "visibility",
+  "white-space",
+  "widows",
+  "word-break",
+  "word-spacing",
+  "writing-mode",
+]);
+
+/**
+ * Check if a property inherits by default (custom properties always do)
+ */
+export function isInheritedProperty(property: string): boolean {
+  return property.startsWith("--") || INHERITED_PROPERTIES.has(property);
+}
+
+/**
+ * Check if the element takes the property's value from its parent, given
+ * the winning declaration on the element (if any)
+ */
+function inheritsFromParent(property: string, winner?: CascadeEntry): boolean {
+  if (!winner) {
+    return isInheritedProperty(property);
+  }
+
+  const keyword = winner.property.value.trim().toLowerCase();
+  if (keyword === "inherit") {
+    return true;
+  }
+  if (keyword === "unset") {
+    return isInheritedProperty(property);
+  }
+  return false;
+}
+
+/**
+ * Rank an element's declarations of a property, strongest first.
+ * `styles` is the element's own matched styles or an `inherited` entry.
+ */
+async function rankDeclarations(
   cdpSession: CDPSession,
   nodeId: number,
+  styles: Pick<
+    CDPMatchedStyles,
+    "inlineStyle" | "attributesStyle" | "matchedCSSRules"
+  >,
   property: string,
-): Promise<{
-  winner?: CssDeclarationSource;
-  contributors?: CssDeclarationSource[];
-}> {
-  const matchedStyles = await getMatchedStyles(cdpSession, nodeId);
+): Promise<CascadeEntry[]> {
+  const entries: CascadeEntry[] = [];
+  const zero: Specificity = { a: 0, b: 0, c: 0 };
 
-  const allDeclarations: Array<{
-    property: CDPProperty;
-    rule:
-      | CDPRule
-      | { origin: "inline"; style: typeof matchedStyles.inlineStyle };
-    matchedRule?: unknown;
-  }> = [];
+  const isCandidate = (prop: CDPProperty) =>
+    prop.name === property && !prop.disabled && prop.parsedOk !== false;
 
-  // Collect inline styles
-  if (matchedStyles.inlineStyle) {
-    for (const prop of matchedStyles.inlineStyle.cssProperties || []) {
-      if (prop.name === property && !prop.disabled) {
-        allDeclarations.push({
-          property: prop,
-          rule: { origin: "inline", style: matchedStyles.inlineStyle },
-        });
-      }
+  // Collect presentational hints (author level, zero specificity, first)
+  for (const prop of styles.attributesStyle?.cssProperties || []) {
+    if (isCandidate(prop)) {
+      entries.push({
+        property: prop,
+        source: "attribute",
+        origin: "author",
+        layerOrder: Infinity,
+        specificity: zero,
+        order: entries.length,
+      });
     }
   }
 
   // Collect matched rules
-  if (matchedStyles.matchedCSSRules) {
-    for (const matchedRule of matchedStyles.matchedCSSRules as CDPMatchedRule[]) {
-      const rule = matchedRule.rule;
-
-      for (const prop of rule.style.cssProperties || []) {
-        if (prop.name === property && !prop.disabled) {
-          allDeclarations.push({
-            property: prop,
-            rule,
-            matchedRule,
-          });
-        }
+  const matchedRules = styles.matchedCSSRules || [];
+  const layerOrders = matchedRules.some((m) => layerName(m.rule))
+    ? await getLayerOrders(cdpSession, nodeId).catch(
+        () => new Map<string, number>(),
+      )
+    : new Map<string, number>();
+
+  for (const matchedRule of matchedRules) {
+    const rule = matchedRule.rule;
+    const layer = layerName(rule);
+
+    for (const prop of rule.style.cssProperties || []) {
+      if (isCandidate(prop)) {
+        entries.push({
+          property: prop,
+          shorthand: originatingShorthand(rule.style, prop),
+          source: "stylesheet",
+          rule,
+          origin: cascadeOrigin(rule),
+          shadowContext: shadowContextOf(matchedRule),
+          layer,
+          layerOrder:
+            layer === undefined ? Infinity : (layerOrders.get(layer) ?? 0),
+          specificity: matchedSpecificity(matchedRule),
+          order: entries.length,
+        });
       }
     }
   }
 
-  // Check inherited styles (simplified - just note if it might be inherited)
-  const inheritedProperties = new Set([
-    "color",
-    "font-family",
-    "font-size",
-    "font-weight",
-    "font-style",
-    "line-height",
-    "text-align",
-    "text-transform",
-    "letter-spacing",
-    "word-spacing",
-    "white-space",
-    "visibility",
-    "cursor",
-  ]);
-
-  if (allDeclarations.length === 0 && inheritedProperties.has(property)) {
-    // Try to find declaration on parent
-    // For v1, we'll skip full inheritance chain traversal
-    // and just note it might be inherited
+  // Collect inline styles
+  const inlineStyle = styles.inlineStyle;
+  for (const prop of inlineStyle?.cssProperties || []) {
+    if (inlineStyle && isCandidate(prop)) {
+      entries.push({
+        property: prop,
+        shorthand: originatingShorthand(inlineStyle, prop),
+        source: "inline",
+        origin: "author",
+        layerOrder: Infinity,
+        specificity: zero,
+        order: entries.length,
+      });
+    }
   }
 
-  if (allDeclarations.length === 0) {
-    return {};
-  }
+  return entries.sort((a, b) => compareCascade(b, a).diff);
+}
 
-  // Sort by CSS cascade order (proper specificity)
-  // CSS Cascade priority: https://developer.mozilla.org/en-US/docs/Web/CSS/Cascade
-  // 1. Inline !important
-  // 2. Stylesheet !important
-  // 3. Inline normal
-  // 4. Stylesheet normal (by specificity, then source order)
+/**
+ * Result of cascade resolution for one property
+ */
+export interface WinningDeclaration {
+  winner?: CssDeclarationSource;
+  contributors?: CssDeclarationSource[];
+  inheritance?: CssInheritance;
+  declaringNodeId?: number; // Element the winner is declared on (the target, or the ancestor it inherits from)
+}
 
-  const inlineDeclarations = allDeclarations.filter(
-    (d) => "origin" in d.rule && d.rule.origin === "inline",
-  );
-  const stylesheetDeclarations = allDeclarations.filter(
-    (d) => !("origin" in d.rule && d.rule.origin === "inline"),
+/**
+ * Find the winning declaration for a CSS property.
+ *
+ * Declarations are sorted by the full cascade: origin and importance,
+ * shadow DOM context, style attribute, cascade layers, specificity of the
+ * matching selector, then source order. Contributors are returned from
+ * strongest to weakest, each with the step it lost at.
+ *
+ * When the element inherits the value (no declaration of an inherited
+ * property, or an `inherit`/`unset` keyword), the winner is the
+ * declaration on the ancestor the value comes from, and `inheritance`
+ * describes the path up to it.
+ *
+ * With `sourceMaps`, stylesheet locations point at the original sources.
+ */
+export async function findWinningDeclaration(
+  cdpSession: CDPSession,
+  nodeId: number,
+  property: string,
+  sourceMaps?: SourceMapResolver,
+): Promise<WinningDeclaration> {
+  const matchedStyles = await getMatchedStyles(cdpSession, nodeId);
+  const ranked = await rankDeclarations(
+    cdpSession,
+    nodeId,
+    matchedStyles,
+    property,
   );
+  const [winner, ...losers] = ranked;
 
-  // Separate by !important
-  const inlineImportant = inlineDeclarations.filter(
-    (d) => d.property.important,
-  );
-  const stylesheetImportant = stylesheetDeclarations.filter(
-    (d) => d.property.important,
-  );
-  const inlineNormal = inlineDeclarations.filter((d) => !d.property.important);
-  const stylesheetNormal = stylesheetDeclarations.filter(
-    (d) => !d.property.important,
-  );
+  const result: WinningDeclaration = {};
 
-  // Pick winner by cascade priority
-  let winner;
-  if (inlineImportant.length > 0) {
-    winner = inlineImportant[inlineImportant.length - 1];
-  } else if (stylesheetImportant.length > 0) {
-    winner = stylesheetImportant[stylesheetImportant.length - 1];
-  } else if (inlineNormal.length > 0) {
-    winner = inlineNormal[inlineNormal.length - 1];
-  } else {
-    winner = stylesheetNormal[stylesheetNormal.length - 1];
+  if (winner) {
+    result.winner = await declarationToSource(cdpSession, winner, sourceMaps);
+    result.declaringNodeId = nodeId;
+    result.contributors = await Promise.all(
+      losers.map(async (entry) => ({
+        ...(await declarationToSource(cdpSession, entry, sourceMaps)),
+        overriddenBy: compareCascade(winner, entry).reason,
+      })),
+    );
   }
 
-  // Convert to CssDeclarationSource
-  const winnerSource = await declarationToSource(cdpSession, winner);
-  const contributorSources = await Promise.all(
-    allDeclarations
-      .filter((d) => d !== winner)
-      .map((d) => declarationToSource(cdpSession, d)),
-  );
+  if (inheritsFromParent(property, winner)) {
+    const inherited = await traceInheritance(
+      cdpSession,
+      nodeId,
+      matchedStyles.inherited ?? [],
+      property,
+      result.winner,
+      sourceMaps,
+    );
+    if (inherited) {
+      result.winner = inherited.winner;
+      result.inheritance = inherited.inheritance;
+      result.declaringNodeId = inherited.nodeId;
+    }
+  }
 
-  return {
-    winner: winnerSource,
-    contributors: contributorSources,
-  };
+  return result;
+}
+
+/**
+ * Walk up the flat tree until an ancestor declares the property (other
+ * than through `inherit`/`unset`). `inherited` holds CDP's matched styles
+ * for each ancestor, parent first.
+ *
+ * Returns undefined when no ancestor declares it (the initial value).
+ */
+async function traceInheritance(
+  cdpSession: CDPSession,
+  nodeId: number,
+  inherited: CDPInheritedStyleEntry[],
+  property: string,
+  ownDeclaration?: CssDeclarationSource,
+  sourceMaps?: SourceMapResolver,
+): Promise<
+  | {
+      winner: CssDeclarationSource;
+      inheritance: CssInheritance;
+      nodeId: number;
+    }
+  | undefined
+> {
+  const ancestors = await getFlatTreeAncestors(cdpSession, nodeId);
+
+  const path: InheritanceStep[] = [
+    { element: await describeElement(cdpSession, nodeId), depth: 0 },
+  ];
+  if (ownDeclaration) {
+    path[0].declaration = ownDeclaration;
+  }
+
+  for (let i = 0; i < inherited.length && i < ancestors.length; i++) {
+    const ranked = await rankDeclarations(
+      cdpSession,
+      ancestors[i],
+      inherited[i],
+      property,
+    );
+    const top = ranked[0];
+
+    const step: InheritanceStep = {
+      element: await describeElement(cdpSession, ancestors[i]),
+      depth: i + 1,
+    };
+    if (top) {
+      step.declaration = await declarationToSource(cdpSession, top, sourceMaps);
+    }
+    path.push(step);
+
+    if (!inheritsFromParent(property, top)) {
+      if (!step.declaration) {
+        return undefined;
+      }
+      return {
+        winner: step.declaration,
+        inheritance: { from: step.element, depth: step.depth, path },
+        nodeId: ancestors[i],
+      };
+    }
+  }
+
+  return undefined;
 }
 
 /**
@@ -227,63 +556,98 @@ export async function findWinningDeclaration(
  */
 async function declarationToSource(
   cdpSession: CDPSession,
-  declaration: {
-    property: CDPProperty;
-    rule: CDPRule | { origin: "inline"; style: unknown };
-    matchedRule?: unknown;
-  },
+  entry: CascadeEntry,
+  sourceMaps?: SourceMapResolver,
 ): Promise<CssDeclarationSource> {
-  const { property, rule } = declaration;
+  const { property, rule } = entry;
+
+  // Locate the declaration as written: the shorthand, if expanded from one
+  const declared = entry.shorthand ?? property;
 
-  const isInline = "origin" in rule && rule.origin === "inline";
   const source: CssDeclarationSource = {
-    source: isInline ? "inline" : "stylesheet",
+    source: entry.source,
     value: property.value,
     important: property.important,
+    origin: entry.origin,
   };
 
-  if (!isInline && "selectorList" in rule) {
+  if (entry.shorthand) {
+    source.shorthand = {
+      name: entry.shorthand.name,
+      value: entry.shorthand.value,
+    };
+  }
+
+  if (rule) {
     // Add selector
     if (rule.selectorList?.text) {
       source.selector = rule.selectorList.text;
     }
+    source.specificity = entry.specificity;
+
+    if (entry.layer !== undefined) {
+      source.layer = entry.layer;
+    }
+
+    // Note shadow DOM context (:host, ::slotted, ::part)
+    if (entry.shadowContext) {
+      source.shadowContext = entry.shadowContext;
+    }
+
+    // Note enclosing @media, @supports, @container, @layer and @scope rules
+    const atRules = atRuleChain(rule);
+    if (atRules.length > 0) {
+      source.atRules = atRules;
+    }
 
     // Add stylesheet URL and location
     if (rule.style?.styleSheetId) {
       try {
-        // Get stylesheet header
         const styleSheetId = rule.style.styleSheetId;
 
         // Try to get stylesheet text for snippet
         const text = await getStyleSheetText(cdpSession, styleSheetId);
 
-        if (property.range && text) {
-          source.line = property.range.startLine;
-          source.column = property.range.startColumn;
+        if (declared.range && text) {
+          source.line = declared.range.startLine;
+          source.column = declared.range.startColumn;
 
           // Extract snippet
           const snippet = extractSnippet(
             text,
-            property.range.startLine,
-            property.range.startColumn,
+            declared.range.startLine,
+            declared.range.startColumn,
           );
           if (snippet) {
             source.snippet = snippet.trim();
           }
         }
 
-        // Try to get stylesheet URL from the stylesheet header
-        try {
-          const result = (await cdpSession.send("CSS.getStyleSheetText", {
-            styleSheetId,
-          })) as { header?: { sourceURL?: string } };
+        // Get stylesheet URL from the stylesheet header
+        const header = getStyleSheetHeader(cdpSession, styleSheetId);
+        if (header?.sourceURL) {
+          source.stylesheetUrl = header.sourceURL;
+        }
 
-          if (result.header?.sourceURL) {
-            source.stylesheetUrl = result.header.sourceURL;
+        // Point at the original source when the stylesheet is source-mapped
+        if (sourceMaps && source.line !== undefined) {
+          const original = await sourceMaps(
+            styleSheetId,
+            source.line,
+            source.column ?? 0,
+          );
+          if (original) {
+            source.generated = {
+              stylesheetUrl: source.stylesheetUrl,
+              line: source.line,
+              column: source.column ?? 0,
+              snippet: source.snippet,
+            };
+            source.stylesheetUrl = original.url;
+            source.line = original.line;
+            source.column = original.column;
+            source.snippet = original.snippet;
           }
-        } catch {
-          // Ignore - stylesheet URL is optional
-          // CDP may not provide this in all cases
         }
       } catch {
         // Ignore - source location is best-effort
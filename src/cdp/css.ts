@@ -1,6 +1,45 @@
 import type { CDPSession } from "playwright";
-import type { CDPComputedStyle, CDPMatchedStyles } from "../types.js";
+import type {
+  CDPComputedStyle,
+  CDPMatchedStyles,
+  CDPStyleSheetHeader,
+} from "../types.js";
 import { ErrorCode, createError } from "../errors.js";
+import { getPseudoOrigin } from "./dom.js";
+
+/**
+ * Style sheet headers reported by `CSS.styleSheetAdded`, per CDP session
+ */
+const styleSheetHeaders = new WeakMap<
+  CDPSession,
+  Map<string, CDPStyleSheetHeader>
+>();
+
+/**
+ * Record the style sheet headers (URL, source map URL) of a CDP session.
+ * Call before `CSS.enable`, which reports every existing style sheet.
+ */
+export function trackStyleSheets(cdpSession: CDPSession): void {
+  const headers = new Map<string, CDPStyleSheetHeader>();
+  styleSheetHeaders.set(cdpSession, headers);
+
+  cdpSession.on("CSS.styleSheetAdded", ({ header }) => {
+    headers.set(header.styleSheetId, header as CDPStyleSheetHeader);
+  });
+  cdpSession.on("CSS.styleSheetRemoved", ({ styleSheetId }) => {
+    headers.delete(styleSheetId);
+  });
+}
+
+/**
+ * Get the header of a style sheet tracked by `trackStyleSheets`
+ */
+export function getStyleSheetHeader(
+  cdpSession: CDPSession,
+  styleSheetId: string,
+): CDPStyleSheetHeader | undefined {
+  return styleSheetHeaders.get(cdpSession)?.get(styleSheetId);
+}
 
 /**
  * Get computed styles for a node
@@ -37,6 +76,58 @@ export async function getComputedStyles(
   }
 }
 
+/**
+ * Get the computed value of a single property for a node, serialized by
+ * the page's `getComputedStyle()`.
+ *
+ * Use this for shorthands, which CDP does not list in computed styles, and
+ * custom properties. Returns null when the value is empty: a shorthand
+ * whose longhands cannot be expressed as one value, or an unset custom
+ * property. Pseudo-elements are read through their originating element.
+ */
+export async function getComputedPropertyValue(
+  cdpSession: CDPSession,
+  nodeId: number,
+  property: string,
+): Promise<string | null> {
+  const objectGroup = "mcp-devtools-computed";
+  const origin = getPseudoOrigin(cdpSession, nodeId);
+
+  try {
+    const { object } = await cdpSession.send("DOM.resolveNode", {
+      nodeId: origin?.nodeId ?? nodeId,
+      objectGroup,
+    });
+
+    const { result } = await cdpSession.send("Runtime.callFunctionOn", {
+      objectId: object.objectId,
+      functionDeclaration: `function (property, pseudo) {
+        return getComputedStyle(this, pseudo).getPropertyValue(property);
+      }`,
+      arguments: [
+        { value: property },
+        { value: origin ? `::${origin.pseudo}` : null },
+      ],
+      returnByValue: true,
+      objectGroup,
+    });
+
+    return (result.value as string | undefined)?.trim() || null;
+  } catch (err) {
+    throw createError(
+      ErrorCode.CSS_DOMAIN_UNAVAILABLE,
+      `Failed to get computed styles: ${err}`,
+      { nodeId, originalError: String(err) },
+    );
+  } finally {
+    try {
+      await cdpSession.send("Runtime.releaseObjectGroup", { objectGroup });
+    } catch {
+      // Node may already be gone
+    }
+  }
+}
+
 /**
  * Get matched CSS rules for a node
  */
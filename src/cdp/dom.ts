@@ -1,5 +1,10 @@
 import type { CDPSession } from "playwright";
-import type { ElementTarget, BoxModel } from "../types.js";
+import type {
+  ElementTarget,
+  BoxModel,
+  CDPNode,
+  TargetPseudoElement,
+} from "../types.js";
 import { ErrorCode, createError } from "../errors.js";
 
 /**
@@ -9,37 +14,78 @@ function escapeCSS(str: string): string {
   return str.replace(/([^\w-])/g, "\\$1");
 }
 
+/**
+ * Separator for shadow-piercing selector chains (`host >>> inner`)
+ */
+export const SHADOW_COMBINATOR = ">>>";
+
 /**
  * Resolve element target to node IDs
  * Returns array of node IDs (may be empty if no matches)
+ *
+ * Queries from `documentNodeId` when given (e.g. an iframe's document
+ * from `resolveFrameDocument`), otherwise from the top document.
+ *
+ * Selectors may be chained with `>>>`: each part before the last selects
+ * shadow hosts, and the next part is matched inside their open shadow
+ * roots. With `pierce: true`, every part also searches all open shadow
+ * roots nested below its scope.
  */
 export async function resolveElementTargets(
   cdpSession: CDPSession,
   target: ElementTarget,
   maxResults: number = 10,
+  documentNodeId?: number,
 ): Promise<number[]> {
   try {
     // Get document root
-    const { root } = await cdpSession.send("DOM.getDocument", { depth: 0 });
-
-    if (target.kind === "id") {
-      // Query by ID using CSS selector
-      const selector = `#${escapeCSS(target.value)}`;
-      const { nodeIds } = await cdpSession.send("DOM.querySelectorAll", {
-        nodeId: root.nodeId,
-        selector,
-      });
-
-      return nodeIds.slice(0, maxResults);
-    } else {
-      // Query by CSS selector
-      const { nodeIds } = await cdpSession.send("DOM.querySelectorAll", {
-        nodeId: root.nodeId,
-        selector: target.value,
-      });
-
-      return nodeIds.slice(0, maxResults);
+    const root =
+      documentNodeId !== undefined
+        ? { nodeId: documentNodeId }
+        : (await cdpSession.send("DOM.getDocument", { depth: 0 })).root;
+
+    const steps =
+      target.kind === "id"
+        ? // Query by ID using CSS selector
+          [`#${escapeCSS(target.value)}`]
+        : // Query by CSS selector, split into shadow-piercing steps
+          target.value
+            .split(SHADOW_COMBINATOR)
+            .map((step) => step.trim());
+
+    let scopes = [root.nodeId];
+    let nodeIds: number[] = [];
+
+    for (let i = 0; i < steps.length; i++) {
+      nodeIds = [];
+      for (const scope of scopes) {
+        nodeIds.push(
+          ...(await querySelectorAllInScope(
+            cdpSession,
+            scope,
+            steps[i],
+            target.pierce ?? false,
+          )),
+        );
+      }
+
+      if (i < steps.length - 1) {
+        // Matched hosts: continue inside their shadow roots
+        scopes = [];
+        for (const hostId of nodeIds) {
+          const { node } = await cdpSession.send("DOM.describeNode", {
+            nodeId: hostId,
+            depth: 1,
+            pierce: true,
+          });
+          scopes.push(
+            ...(await pushOpenShadowRoots(cdpSession, node.shadowRoots ?? [])),
+          );
+        }
+      }
     }
+
+    return [...new Set(nodeIds)].slice(0, maxResults);
   } catch (err) {
     throw createError(
       ErrorCode.UNEXPECTED_ERROR,
@@ -49,6 +95,238 @@ export async function resolveElementTargets(
   }
 }
 
+/**
+ * Query a selector within one scope (document or shadow root). When
+ * `pierce` is set, matches from every open shadow root nested in the scope
+ * follow the scope's own matches, in tree order of their hosts.
+ */
+async function querySelectorAllInScope(
+  cdpSession: CDPSession,
+  scopeNodeId: number,
+  selector: string,
+  pierce: boolean,
+): Promise<number[]> {
+  const { nodeIds } = await cdpSession.send("DOM.querySelectorAll", {
+    nodeId: scopeNodeId,
+    selector,
+  });
+
+  if (!pierce) {
+    return nodeIds;
+  }
+
+  const { node } = await cdpSession.send("DOM.describeNode", {
+    nodeId: scopeNodeId,
+    depth: -1,
+    pierce: true,
+  });
+
+  const shadowRootIds = await pushOpenShadowRoots(
+    cdpSession,
+    collectShadowRoots(node),
+  );
+
+  const results = [...nodeIds];
+  for (const shadowRootId of shadowRootIds) {
+    const inner = await cdpSession.send("DOM.querySelectorAll", {
+      nodeId: shadowRootId,
+      selector,
+    });
+    results.push(...inner.nodeIds);
+  }
+
+  return results;
+}
+
+/**
+ * Collect every shadow root below a described node, in tree order.
+ * Does not descend into iframe documents; those are reached through a
+ * frame chain.
+ */
+function collectShadowRoots(node: CDPNode): CDPNode[] {
+  const found: CDPNode[] = [];
+
+  for (const shadowRoot of node.shadowRoots ?? []) {
+    found.push(shadowRoot, ...collectShadowRoots(shadowRoot));
+  }
+  for (const child of node.children ?? []) {
+    found.push(...collectShadowRoots(child));
+  }
+
+  return found;
+}
+
+/**
+ * Push open shadow roots to the frontend and return their node IDs.
+ * Closed and user-agent shadow roots (e.g. inside <input>) are skipped.
+ */
+async function pushOpenShadowRoots(
+  cdpSession: CDPSession,
+  shadowRoots: CDPNode[],
+): Promise<number[]> {
+  const backendNodeIds = shadowRoots
+    .filter((shadowRoot) => shadowRoot.shadowRootType === "open")
+    .map((shadowRoot) => shadowRoot.backendNodeId);
+
+  if (backendNodeIds.length === 0) {
+    return [];
+  }
+
+  const { nodeIds } = await cdpSession.send(
+    "DOM.pushNodesByBackendIdsToFrontend",
+    { backendNodeIds },
+  );
+  return nodeIds;
+}
+
+/**
+ * Pseudo-elements that can be targeted
+ */
+export const TARGET_PSEUDO_ELEMENTS: readonly TargetPseudoElement[] = [
+  "before",
+  "after",
+  "marker",
+  "backdrop",
+  "placeholder",
+];
+
+/**
+ * `pseudo` attribute values of the user-agent shadow elements that render
+ * pseudo-elements which are not pseudo-element nodes
+ */
+const SHADOW_PSEUDO_IDS: Partial<Record<TargetPseudoElement, string[]>> = {
+  placeholder: ["-webkit-input-placeholder", "placeholder"],
+};
+
+/**
+ * Originating element of a resolved pseudo-element
+ */
+export interface PseudoOrigin {
+  nodeId: number;
+  pseudo: TargetPseudoElement;
+}
+
+/**
+ * Pseudo-elements resolved per CDP session, by node ID. Pseudo-element
+ * nodes cannot be resolved to page objects, so page functions run on their
+ * originating element instead.
+ */
+const pseudoOrigins = new WeakMap<CDPSession, Map<number, PseudoOrigin>>();
+
+/**
+ * Resolve a pseudo-element of each element to its node ID, skipping
+ * elements that do not have it (e.g. `::before` without `content`).
+ *
+ * `before`, `after`, `marker` and `backdrop` are pseudo-element nodes of
+ * the element. `placeholder` is the element rendering it in the user-agent
+ * shadow tree of an <input> or <textarea>.
+ */
+export async function resolvePseudoElements(
+  cdpSession: CDPSession,
+  nodeIds: number[],
+  pseudo: TargetPseudoElement,
+): Promise<number[]> {
+  if (!TARGET_PSEUDO_ELEMENTS.includes(pseudo)) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Unknown pseudo-element: ${pseudo}`,
+      { pseudo, supported: TARGET_PSEUDO_ELEMENTS },
+    );
+  }
+
+  const shadowPseudoIds = SHADOW_PSEUDO_IDS[pseudo];
+  const backendNodeIds: number[] = [];
+  const originIds: number[] = [];
+
+  for (const nodeId of nodeIds) {
+    const { node } = await cdpSession.send("DOM.describeNode", {
+      nodeId,
+      depth: shadowPseudoIds ? -1 : 0,
+      pierce: shadowPseudoIds !== undefined,
+    });
+
+    const pseudoNode = shadowPseudoIds
+      ? findShadowPseudoElement(node.shadowRoots ?? [], shadowPseudoIds)
+      : node.pseudoElements?.find((p) => p.pseudoType === pseudo);
+
+    if (pseudoNode) {
+      backendNodeIds.push(pseudoNode.backendNodeId);
+      originIds.push(nodeId);
+    }
+  }
+
+  if (backendNodeIds.length === 0) {
+    return [];
+  }
+
+  const { nodeIds: pseudoNodeIds } = await cdpSession.send(
+    "DOM.pushNodesByBackendIdsToFrontend",
+    { backendNodeIds },
+  );
+
+  let origins = pseudoOrigins.get(cdpSession);
+  if (!origins) {
+    origins = new Map();
+    pseudoOrigins.set(cdpSession, origins);
+  }
+
+  const resolved: number[] = [];
+  for (let i = 0; i < pseudoNodeIds.length; i++) {
+    if (pseudoNodeIds[i]) {
+      origins.set(pseudoNodeIds[i], { nodeId: originIds[i], pseudo });
+      resolved.push(pseudoNodeIds[i]);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Get the originating element of a pseudo-element resolved with
+ * `resolvePseudoElements`, or undefined for other nodes
+ */
+export function getPseudoOrigin(
+  cdpSession: CDPSession,
+  nodeId: number,
+): PseudoOrigin | undefined {
+  return pseudoOrigins.get(cdpSession)?.get(nodeId);
+}
+
+/**
+ * Find the element with one of the given `pseudo` attributes in
+ * user-agent shadow trees
+ */
+function findShadowPseudoElement(
+  nodes: CDPNode[],
+  shadowPseudoIds: string[],
+): CDPNode | undefined {
+  for (const node of nodes) {
+    if (node.shadowRootType && node.shadowRootType !== "user-agent") {
+      continue;
+    }
+
+    const attributes = node.attributes ?? [];
+    for (let i = 0; i < attributes.length; i += 2) {
+      if (
+        attributes[i] === "pseudo" &&
+        shadowPseudoIds.includes(attributes[i + 1])
+      ) {
+        return node;
+      }
+    }
+
+    const found = findShadowPseudoElement(
+      [...(node.shadowRoots ?? []), ...(node.children ?? [])],
+      shadowPseudoIds,
+    );
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Get element attributes
  */
@@ -121,3 +399,118 @@ export async function getNodeName(
     return undefined;
   }
 }
+
+/**
+ * Describe an element for results, e.g. `div#app.layout.dark`
+ */
+export async function describeElement(
+  cdpSession: CDPSession,
+  nodeId: number,
+): Promise<string> {
+  const origin = getPseudoOrigin(cdpSession, nodeId);
+  if (origin) {
+    return `${await describeElement(cdpSession, origin.nodeId)}::${origin.pseudo}`;
+  }
+
+  const { node } = await cdpSession.send("DOM.describeNode", { nodeId });
+  const attributes = node.attributes ?? [];
+
+  let description = node.localName || node.nodeName.toLowerCase();
+  for (let i = 0; i < attributes.length; i += 2) {
+    if (attributes[i] === "id" && attributes[i + 1]) {
+      description += `#${attributes[i + 1]}`;
+    }
+  }
+  for (let i = 0; i < attributes.length; i += 2) {
+    if (attributes[i] === "class") {
+      for (const className of attributes[i + 1].split(/\s+/)) {
+        if (className) {
+          description += `.${className}`;
+        }
+      }
+    }
+  }
+
+  return description;
+}
+
+/**
+ * Get an element's ancestors in the flat tree, parent first. This is the
+ * tree styles inherit along: slotted elements inherit from their slot, and
+ * top-level elements of a shadow tree from its host, and pseudo-elements
+ * from their originating element.
+ */
+export async function getFlatTreeAncestors(
+  cdpSession: CDPSession,
+  nodeId: number,
+): Promise<number[]> {
+  const origin = getPseudoOrigin(cdpSession, nodeId);
+  if (origin) {
+    return [
+      origin.nodeId,
+      ...(await getFlatTreeAncestors(cdpSession, origin.nodeId)),
+    ];
+  }
+
+  const objectGroup = "mcp-devtools-ancestors";
+
+  try {
+    const { object } = await cdpSession.send("DOM.resolveNode", {
+      nodeId,
+      objectGroup,
+    });
+
+    const { result } = await cdpSession.send("Runtime.callFunctionOn", {
+      objectId: object.objectId,
+      functionDeclaration: `function () {
+        const ancestors = [];
+        let node = this;
+        while ((node = node.assignedSlot || node.parentElement ||
+            (node.parentNode && node.parentNode.host))) {
+          ancestors.push(node);
+        }
+        return ancestors;
+      }`,
+      objectGroup,
+    });
+
+    return result.objectId
+      ? await remoteArrayToNodeIds(cdpSession, result.objectId)
+      : [];
+  } finally {
+    try {
+      await cdpSession.send("Runtime.releaseObjectGroup", { objectGroup });
+    } catch {
+      // Frame may already be gone
+    }
+  }
+}
+
+/**
+ * Convert a remote array of elements (a Runtime object) to node IDs, in
+ * array order
+ */
+export async function remoteArrayToNodeIds(
+  cdpSession: CDPSession,
+  objectId: string,
+): Promise<number[]> {
+  const { result: properties } = await cdpSession.send(
+    "Runtime.getProperties",
+    { objectId, ownProperties: true },
+  );
+
+  const elementObjectIds = properties
+    .filter((prop) => /^\d+$/.test(prop.name) && prop.value?.objectId)
+    .sort((a, b) => Number(a.name) - Number(b.name))
+    .map((prop) => prop.value!.objectId!);
+
+  const nodeIds: number[] = [];
+  for (const elementObjectId of elementObjectIds) {
+    const node = await cdpSession.send("DOM.requestNode", {
+      objectId: elementObjectId,
+    });
+    nodeIds.push(node.nodeId);
+  }
+
+  return nodeIds;
+}
@@ -0,0 +1,292 @@
+import type { CDPSession, Frame, Page } from "playwright";
+import type { FrameDocument, FrameTarget, SessionState } from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { trackStyleSheets } from "./css.js";
+
+/**
+ * Resolve a frame chain to the document node of the target frame.
+ *
+ * Same-process iframes are entered through their content document in the
+ * page's CDP session. Out-of-process iframes (OOPIFs, e.g. cross-site
+ * payment widgets) live in a separate renderer, so a CDP session is
+ * attached to them; call `detach()` on the result when done.
+ *
+ * Without a chain, the active page's document is returned.
+ */
+export async function resolveFrameDocument(
+  session: SessionState,
+  chain: FrameTarget[] = [],
+): Promise<FrameDocument> {
+  validateFrameChain(chain);
+
+  const attached: CDPSession[] = [];
+  const detach = async () => {
+    for (const cdpSession of attached) {
+      try {
+        await cdpSession.detach();
+      } catch {
+        // Frame may already be gone
+      }
+    }
+  };
+
+  let cdpSession = session.cdpSession;
+  const { root } = await cdpSession.send("DOM.getDocument", { depth: 0 });
+  let nodeId = root.nodeId;
+
+  try {
+    for (let i = 0; i < chain.length; i++) {
+      const found = await findFrameElement(
+        session,
+        cdpSession,
+        nodeId,
+        chain[i],
+      );
+      if (!found) {
+        throw frameNotFound(chain, i);
+      }
+
+      if (found.contentDocumentBackendId !== undefined) {
+        // Same-process iframe: continue in its content document
+        const { nodeIds } = await cdpSession.send(
+          "DOM.pushNodesByBackendIdsToFrontend",
+          { backendNodeIds: [found.contentDocumentBackendId] },
+        );
+        nodeId = nodeIds[0];
+        continue;
+      }
+
+      // Out-of-process iframe: continue in its own CDP session
+      const child =
+        found.oopifSession ?? (await attachToFrame(session, found.frameId));
+      if (!child) {
+        throw frameNotFound(chain, i);
+      }
+      attached.push(child);
+
+      // Enable DOM and CSS domains (DOM must be enabled first)
+      trackStyleSheets(child);
+      await child.send("DOM.enable");
+      await child.send("CSS.enable");
+
+      const { root: childRoot } = await child.send("DOM.getDocument", {
+        depth: 0,
+      });
+      cdpSession = child;
+      nodeId = childRoot.nodeId;
+    }
+  } catch (err) {
+    await detach();
+    throw err;
+  }
+
+  return { cdpSession, nodeId, detach };
+}
+
+/**
+ * Resolve a frame chain to a Playwright frame, for tools that act through
+ * Playwright (interactions, script evaluation). Steps match the same way
+ * as in `resolveFrameDocument`.
+ *
+ * Without a chain, the page's main frame is returned.
+ */
+export async function resolveFrame(
+  page: Page,
+  chain: FrameTarget[] = [],
+): Promise<Frame> {
+  validateFrameChain(chain);
+
+  let frame = page.mainFrame();
+
+  for (let i = 0; i < chain.length; i++) {
+    const step = chain[i];
+    let next: Frame | null = null;
+
+    if (step.url !== undefined) {
+      for (const handle of await frame.$$(FRAME_ELEMENTS)) {
+        const content = await handle.contentFrame();
+        if (content?.url().includes(step.url)) {
+          next = content;
+          break;
+        }
+      }
+    } else {
+      const handle = await frame.$(frameElementSelector(step));
+      next = handle ? await handle.contentFrame() : null;
+    }
+
+    if (!next) {
+      throw frameNotFound(chain, i);
+    }
+    frame = next;
+  }
+
+  return frame;
+}
+
+/**
+ * Elements that host a frame
+ */
+const FRAME_ELEMENTS = "iframe, frame";
+
+interface FoundFrameElement {
+  frameId: string;
+  contentDocumentBackendId?: number; // Set for same-process frames
+  oopifSession?: CDPSession; // Set when URL matching already attached to the OOPIF
+}
+
+/**
+ * Find the frame element for one step of a chain within a document
+ */
+async function findFrameElement(
+  session: SessionState,
+  cdpSession: CDPSession,
+  documentNodeId: number,
+  step: FrameTarget,
+): Promise<FoundFrameElement | null> {
+  if (step.url === undefined) {
+    const { nodeId } = await cdpSession.send("DOM.querySelector", {
+      nodeId: documentNodeId,
+      selector: frameElementSelector(step),
+    });
+    if (!nodeId) {
+      return null;
+    }
+
+    const { node } = await cdpSession.send("DOM.describeNode", {
+      nodeId,
+      depth: 1,
+    });
+    if (!node.frameId) {
+      // Matched an element that does not host a frame
+      return null;
+    }
+
+    return {
+      frameId: node.frameId,
+      contentDocumentBackendId: node.contentDocument?.backendNodeId,
+    };
+  }
+
+  // Match by URL: check every frame element in document order
+  const { nodeIds } = await cdpSession.send("DOM.querySelectorAll", {
+    nodeId: documentNodeId,
+    selector: FRAME_ELEMENTS,
+  });
+
+  for (const nodeId of nodeIds) {
+    const { node } = await cdpSession.send("DOM.describeNode", {
+      nodeId,
+      depth: 1,
+    });
+    if (!node.frameId) {
+      continue;
+    }
+
+    if (node.contentDocument) {
+      if (node.contentDocument.documentURL?.includes(step.url)) {
+        return {
+          frameId: node.frameId,
+          contentDocumentBackendId: node.contentDocument.backendNodeId,
+        };
+      }
+      continue;
+    }
+
+    // Out-of-process frame: its URL is only known to its own session
+    const oopifSession = await attachToFrame(session, node.frameId);
+    if (!oopifSession) {
+      continue;
+    }
+
+    const { frameTree } = await oopifSession.send("Page.getFrameTree");
+    if (frameTree.frame.url.includes(step.url)) {
+      return { frameId: node.frameId, oopifSession };
+    }
+
+    try {
+      await oopifSession.detach();
+    } catch {
+      // Ignore detach errors
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Attach a CDP session to the out-of-process iframe with the given frame id.
+ * Returns null if no such frame exists.
+ */
+async function attachToFrame(
+  session: SessionState,
+  frameId: string,
+): Promise<CDPSession | null> {
+  for (const frame of session.page.frames()) {
+    if (frame === session.page.mainFrame()) {
+      continue;
+    }
+
+    let cdpSession: CDPSession;
+    try {
+      cdpSession = await session.context.newCDPSession(frame);
+    } catch {
+      // Same-process frames do not have a session of their own
+      continue;
+    }
+
+    const { frameTree } = await cdpSession.send("Page.getFrameTree");
+    if (frameTree.frame.id === frameId) {
+      return cdpSession;
+    }
+
+    try {
+      await cdpSession.detach();
+    } catch {
+      // Ignore detach errors
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the CSS selector for a selector or name step
+ */
+function frameElementSelector(step: FrameTarget): string {
+  if (step.selector !== undefined) {
+    return step.selector;
+  }
+
+  const name = JSON.stringify(step.name);
+  return `iframe[name=${name}], frame[name=${name}]`;
+}
+
+/**
+ * Check that every step identifies its frame in exactly one way
+ */
+function validateFrameChain(chain: FrameTarget[]): void {
+  chain.forEach((step, index) => {
+    const keys = (["selector", "url", "name"] as const).filter(
+      (key) => step[key] !== undefined,
+    );
+    if (keys.length !== 1) {
+      throw createError(
+        ErrorCode.UNEXPECTED_ERROR,
+        "Each frame step requires exactly one of selector, url, or name",
+        { frame: chain, failedAtIndex: index },
+      );
+    }
+  });
+}
+
+/**
+ * Build the error for a frame step that matched nothing
+ */
+function frameNotFound(chain: FrameTarget[], index: number) {
+  return createError(
+    ErrorCode.FRAME_NOT_FOUND,
+    `No frame matches step ${index} of the frame chain`,
+    { frame: chain, failedAtIndex: index, step: chain[index] },
+  );
+}
@@ -0,0 +1,136 @@
+import type { CDPSession } from "playwright";
+import type {
+  ForcedPseudoState,
+  FrameDocument,
+  SessionState,
+} from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { getPseudoOrigin } from "./dom.js";
+
+/**
+ * Pseudo-classes CDP can force
+ */
+export const FORCED_PSEUDO_STATES: readonly ForcedPseudoState[] = [
+  "hover",
+  "focus",
+  "active",
+  "focus-visible",
+  "focus-within",
+  "visited",
+  "target",
+];
+
+/**
+ * Persisted forced states per CDP session, by element node id
+ */
+const persistedStates = new WeakMap<
+  CDPSession,
+  Map<number, ForcedPseudoState[]>
+>();
+
+/**
+ * Force pseudo-classes on nodes, replacing any states forced before, so
+ * computed styles and matched rules reflect them. An empty list clears
+ * the forced states.
+ *
+ * States of pseudo-elements are forced on their originating element, so
+ * rules such as `a:hover::before` apply.
+ *
+ * Forced states belong to the CDP session: they last until cleared, the
+ * node goes away (e.g. on navigation), or the session is detached. States
+ * forced with `persist` are remembered, so `restorePseudoStates` can put
+ * them back after a one-off query.
+ */
+export async function forcePseudoStates(
+  cdpSession: CDPSession,
+  nodeIds: number[],
+  states: ForcedPseudoState[],
+  persist = false,
+): Promise<void> {
+  const unknown = states.filter(
+    (state) => !FORCED_PSEUDO_STATES.includes(state),
+  );
+  if (unknown.length > 0) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Unknown pseudo-class state: ${unknown.join(", ")}`,
+      { states, supported: FORCED_PSEUDO_STATES },
+    );
+  }
+
+  for (const nodeId of originatingElements(cdpSession, nodeIds)) {
+    await cdpSession.send("CSS.forcePseudoState", {
+      nodeId,
+      forcedPseudoClasses: states,
+    });
+
+    if (persist) {
+      let persisted = persistedStates.get(cdpSession);
+      if (!persisted) {
+        persisted = new Map();
+        persistedStates.set(cdpSession, persisted);
+      }
+      if (states.length > 0) {
+        persisted.set(nodeId, [...states]);
+      } else {
+        persisted.delete(nodeId);
+      }
+    }
+  }
+}
+
+/**
+ * Put back the persisted states (or none) of nodes after a tool call
+ * forced states for a one-off query
+ */
+export async function restorePseudoStates(
+  cdpSession: CDPSession,
+  nodeIds: number[],
+): Promise<void> {
+  const persisted = persistedStates.get(cdpSession);
+
+  for (const nodeId of originatingElements(cdpSession, nodeIds)) {
+    try {
+      await cdpSession.send("CSS.forcePseudoState", {
+        nodeId,
+        forcedPseudoClasses: persisted?.get(nodeId) ?? [],
+      });
+    } catch {
+      // Node may already be gone
+      persisted?.delete(nodeId);
+    }
+  }
+}
+
+/**
+ * Elements that carry the forced states of nodes: pseudo-elements map to
+ * their originating element
+ */
+function originatingElements(
+  cdpSession: CDPSession,
+  nodeIds: number[],
+): Set<number> {
+  return new Set(
+    nodeIds.map(
+      (nodeId) => getPseudoOrigin(cdpSession, nodeId)?.nodeId ?? nodeId,
+    ),
+  );
+}
+
+/**
+ * Check that forced states can outlive the tool call. CDP sessions
+ * attached to out-of-process iframes are detached after each call, which
+ * drops their forced states.
+ */
+export function assertStatesPersist(
+  session: SessionState,
+  frameDocument: FrameDocument,
+): void {
+  if (frameDocument.cdpSession !== session.cdpSession) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "Forced states cannot persist inside out-of-process iframes",
+      { frame: "out-of-process" },
+    );
+  }
+}
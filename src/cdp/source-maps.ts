@@ -0,0 +1,323 @@
+import { readFile } from "fs/promises";
+import { resolve, sep } from "path";
+import type { CDPSession } from "playwright";
+import type { SessionState } from "../types.js";
+import { checkOrigin } from "../config.js";
+import { getStyleSheetHeader } from "./css.js";
+
+/**
+ * Location in an original source (e.g. an SCSS file) of a generated
+ * stylesheet position
+ */
+export interface OriginalLocation {
+  url: string; // Source URL from the source map (e.g. "webpack:///./src/button.scss")
+  line: number; // 0-based, like CDP ranges
+  column: number;
+  snippet?: string;
+}
+
+/**
+ * Map a position in a stylesheet (from its CDP source range) to its
+ * original source. Resolves to null when the stylesheet has no usable
+ * source map or the position is not mapped.
+ */
+export type SourceMapResolver = (
+  styleSheetId: string,
+  line: number,
+  column: number,
+) => Promise<OriginalLocation | null>;
+
+/**
+ * Decoded source map: mapping segments per generated line, sorted by
+ * column
+ */
+interface ParsedSourceMap {
+  sources: string[]; // Resolved against the source map URL
+  sourcesContent: (string | null)[];
+  lines: Segment[][];
+}
+
+/**
+ * [generated column, source index, original line, original column]
+ */
+type Segment = [number, number, number, number];
+
+/**
+ * Parsed source maps per CDP session, by style sheet id. Style sheets get
+ * new ids when they are reloaded, so entries never go stale.
+ */
+const sourceMapCache = new WeakMap<
+  CDPSession,
+  Map<string, Promise<ParsedSourceMap | null>>
+>();
+
+/**
+ * Create the source map resolver for a tool call, or undefined when
+ * source maps are disabled in the configuration.
+ *
+ * Source maps come from the `sourceMappingURL` of each stylesheet (as
+ * reported in its CDP header). They are read from local disk when a
+ * `sourceMaps.pathMappings` prefix matches their URL, decoded from `data:`
+ * URLs, and otherwise fetched through the page. Original snippets come from
+ * `sourcesContent`, or are loaded the same way.
+ */
+export function createSourceMapResolver(
+  session: SessionState,
+  cdpSession: CDPSession,
+): SourceMapResolver | undefined {
+  if (!session.config.sourceMaps.enabled) {
+    return undefined;
+  }
+
+  let cache = sourceMapCache.get(cdpSession);
+  if (!cache) {
+    cache = new Map();
+    sourceMapCache.set(cdpSession, cache);
+  }
+  const maps = cache;
+
+  return async (styleSheetId, line, column) => {
+    let map = maps.get(styleSheetId);
+    if (!map) {
+      map = loadSourceMap(session, cdpSession, styleSheetId);
+      maps.set(styleSheetId, map);
+    }
+
+    const parsed = await map;
+    const segment = parsed && findSegment(parsed.lines[line] ?? [], column);
+    if (!parsed || !segment) {
+      return null;
+    }
+
+    const [, sourceIndex, originalLine, originalColumn] = segment;
+    const url = parsed.sources[sourceIndex];
+    const location: OriginalLocation = {
+      url,
+      line: originalLine,
+      column: originalColumn,
+    };
+
+    const content =
+      parsed.sourcesContent[sourceIndex] ?? (await loadText(session, url));
+    const snippet = content?.split("\n")[originalLine]?.trim();
+    if (snippet) {
+      location.snippet = snippet;
+    }
+
+    return location;
+  };
+}
+
+/**
+ * Load and decode the source map of a style sheet
+ */
+async function loadSourceMap(
+  session: SessionState,
+  cdpSession: CDPSession,
+  styleSheetId: string,
+): Promise<ParsedSourceMap | null> {
+  const header = getStyleSheetHeader(cdpSession, styleSheetId);
+  if (!header?.sourceMapURL) {
+    return null;
+  }
+
+  const mapUrl = resolveUrl(header.sourceMapURL, header.sourceURL);
+  const text = await loadText(session, mapUrl);
+  if (!text) {
+    return null;
+  }
+
+  try {
+    const raw = JSON.parse(text) as {
+      sources?: string[];
+      sourcesContent?: (string | null)[];
+      sourceRoot?: string;
+      mappings?: string;
+    };
+    if (!raw.sources || typeof raw.mappings !== "string") {
+      // Index maps (`sections`) are not supported
+      return null;
+    }
+
+    const sourceRoot = raw.sourceRoot
+      ? raw.sourceRoot.replace(/\/?$/, "/")
+      : "";
+
+    return {
+      sources: raw.sources.map((source) =>
+        resolveUrl(sourceRoot + source, mapUrl),
+      ),
+      sourcesContent: raw.sourcesContent ?? [],
+      lines: decodeMappings(raw.mappings),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a source map or source file: from disk through a path mapping,
+ * from a `data:` URL, or fetched with the browser context's cookies
+ */
+async function loadText(
+  session: SessionState,
+  url: string,
+): Promise<string | null> {
+  if (url.startsWith("data:")) {
+    return decodeDataUrl(url);
+  }
+
+  for (const [prefix, dir] of Object.entries(
+    session.config.sourceMaps.pathMappings,
+  )) {
+    if (url.startsWith(prefix)) {
+      const relative = decodeURIComponent(
+        url.slice(prefix.length).split(/[?#]/)[0],
+      );
+
+      // Refuse paths that escape the mapped directory (e.g. "..%2f")
+      const root = resolve(dir);
+      const path = resolve(root, relative);
+      if (!path.startsWith(root + sep)) {
+        continue;
+      }
+
+      try {
+        return await readFile(path, "utf-8");
+      } catch {
+        // Fall back to fetching it
+      }
+    }
+  }
+
+  if (!/^https?:/.test(url)) {
+    return null;
+  }
+
+  // Context requests bypass the policy route, so check the origin here
+  if (!checkOrigin(url, session.config.policy).allowed) {
+    return null;
+  }
+
+  try {
+    const response = await session.context.request.get(url, {
+      timeout: session.config.timeouts.queryMs,
+    });
+    return response.ok() ? await response.text() : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeDataUrl(url: string): string | null {
+  const comma = url.indexOf(",");
+  if (comma === -1) {
+    return null;
+  }
+
+  const meta = url.slice(0, comma);
+  const data = url.slice(comma + 1);
+
+  try {
+    return meta.endsWith(";base64")
+      ? Buffer.from(data, "base64").toString("utf-8")
+      : decodeURIComponent(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a possibly relative URL, leaving it as-is if it cannot be
+ */
+function resolveUrl(url: string, base: string): string {
+  try {
+    return new URL(url, base || undefined).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Find the segment covering a generated column: the last one starting at
+ * or before it
+ */
+function findSegment(segments: Segment[], column: number): Segment | null {
+  let low = 0;
+  let high = segments.length - 1;
+  let found: Segment | null = null;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (segments[mid][0] <= column) {
+      found = segments[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+const BASE64_DIGITS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Decode the `mappings` field of a source map (version 3), keeping the
+ * segments that point into a source
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  for (const lineText of mappings.split(";")) {
+    const segments: Segment[] = [];
+    let column = 0;
+
+    for (const segmentText of lineText.split(",")) {
+      if (!segmentText) {
+        continue;
+      }
+
+      const values = decodeVlq(segmentText);
+      column += values[0];
+      if (values.length >= 4) {
+        sourceIndex += values[1];
+        originalLine += values[2];
+        originalColumn += values[3];
+        segments.push([column, sourceIndex, originalLine, originalColumn]);
+      }
+    }
+
+    lines.push(segments.sort((a, b) => a[0] - b[0]));
+  }
+
+  return lines;
+}
+
+/**
+ * Decode the base64 VLQ values of one mapping segment
+ */
+function decodeVlq(text: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const ch of text) {
+    const digit = BASE64_DIGITS.indexOf(ch);
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,203 @@
+import type { Specificity } from "../types.js";
+
+/**
+ * Pseudo-classes whose specificity is that of their most specific argument
+ */
+const SELECTOR_LIST_PSEUDO_CLASSES = new Set(["is", "not", "has", "matches"]);
+
+/**
+ * Pseudo-classes that count as a pseudo-class plus their argument
+ */
+const ARGUMENT_PSEUDO_CLASSES = new Set(["host", "host-context"]);
+
+/**
+ * Pseudo-elements still written with a single colon
+ */
+const LEGACY_PSEUDO_ELEMENTS = new Set([
+  "before",
+  "after",
+  "first-line",
+  "first-letter",
+]);
+
+/**
+ * Compute the specificity of a single selector (no top-level commas).
+ *
+ * Follows https://drafts.csswg.org/selectors/#specificity-rules, including
+ * `:is()`/`:not()`/`:has()` (most specific argument), `:where()` (zero),
+ * `:nth-child(An+B of S)` and `::slotted()`. Used when CDP does not report
+ * a selector's specificity.
+ */
+export function selectorSpecificity(selector: string): Specificity {
+  const total: Specificity = { a: 0, b: 0, c: 0 };
+  let i = 0;
+
+  while (i < selector.length) {
+    const ch = selector[i];
+
+    if (ch === "#") {
+      total.a++;
+      i = skipIdentifier(selector, i + 1);
+    } else if (ch === ".") {
+      total.b++;
+      i = skipIdentifier(selector, i + 1);
+    } else if (ch === "[") {
+      total.b++;
+      i = skipBlock(selector, i, "[", "]");
+    } else if (ch === ":") {
+      const isElement = selector[i + 1] === ":";
+      const nameStart = i + (isElement ? 2 : 1);
+      const nameEnd = skipIdentifier(selector, nameStart);
+      const name = selector.slice(nameStart, nameEnd).toLowerCase();
+
+      let argument: string | undefined;
+      i = nameEnd;
+      if (selector[i] === "(") {
+        const end = skipBlock(selector, i, "(", ")");
+        argument = selector.slice(i + 1, end - 1);
+        i = end;
+      }
+
+      if (isElement || LEGACY_PSEUDO_ELEMENTS.has(name)) {
+        total.c++;
+        if (name === "slotted" && argument) {
+          add(total, maxSpecificity(argument));
+        }
+      } else if (name === "where") {
+        // Always zero
+      } else if (SELECTOR_LIST_PSEUDO_CLASSES.has(name) && argument) {
+        add(total, maxSpecificity(argument));
+      } else if (
+        (name === "nth-child" || name === "nth-last-child") &&
+        argument &&
+        /\sof\s/i.test(argument)
+      ) {
+        total.b++;
+        add(total, maxSpecificity(argument.split(/\sof\s/i)[1]));
+      } else {
+        total.b++;
+        if (ARGUMENT_PSEUDO_CLASSES.has(name) && argument) {
+          add(total, maxSpecificity(argument));
+        }
+      }
+    } else if (isIdentifierStart(ch)) {
+      // Type selector
+      total.c++;
+      i = skipIdentifier(selector, i);
+    } else {
+      // Combinators, whitespace, `*`, `&`, namespace separators
+      i++;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Highest specificity among the selectors of a selector list
+ */
+export function maxSpecificity(selectorList: string): Specificity {
+  return splitSelectorList(selectorList)
+    .map(selectorSpecificity)
+    .reduce(
+      (max, current) => (compareSpecificity(current, max) > 0 ? current : max),
+      { a: 0, b: 0, c: 0 },
+    );
+}
+
+/**
+ * Compare two specificities (positive if `x` is more specific)
+ */
+export function compareSpecificity(x: Specificity, y: Specificity): number {
+  return x.a - y.a || x.b - y.b || x.c - y.c;
+}
+
+/**
+ * Split a selector list on top-level commas
+ */
+function splitSelectorList(selectorList: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < selectorList.length; i++) {
+    const ch = selectorList[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "(" || ch === "[") {
+      depth++;
+    } else if (ch === ")" || ch === "]") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      parts.push(selectorList.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(selectorList.slice(start));
+
+  return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+}
+
+function add(total: Specificity, extra: Specificity): void {
+  total.a += extra.a;
+  total.b += extra.b;
+  total.c += extra.c;
+}
+
+function isIdentifierStart(ch: string): boolean {
+  return /[a-zA-Z_\-\\]/.test(ch) || ch.charCodeAt(0) > 0x7f;
+}
+
+/**
+ * Return the index just past an identifier starting at `start`
+ */
+function skipIdentifier(selector: string, start: number): number {
+  let i = start;
+  while (i < selector.length) {
+    const ch = selector[i];
+    if (ch === "\\") {
+      i += 2;
+    } else if (/[a-zA-Z0-9_-]/.test(ch) || ch.charCodeAt(0) > 0x7f) {
+      i++;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+/**
+ * Return the index just past the block opened at `start`, honoring nesting,
+ * quoted strings and escapes
+ */
+function skipBlock(
+  selector: string,
+  start: number,
+  open: string,
+  close: string,
+): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < selector.length; i++) {
+    const ch = selector[i];
+    if (ch === "\\") {
+      i++;
+    } else if (quote) {
+      if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === open) {
+      depth++;
+    } else if (ch === close) {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+
+  return selector.length;
+}
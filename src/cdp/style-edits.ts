@@ -0,0 +1,228 @@
+import type { BrowserContext, CDPSession } from "playwright";
+import type {
+  CDPStyle,
+  CssRuleTarget,
+  FrameDocument,
+  SessionState,
+  StyleEdit,
+} from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { getMatchedStyles, getStyleSheetHeader } from "./css.js";
+
+/**
+ * Per-context counter used to assign edit ids
+ */
+const editCounters = new WeakMap<BrowserContext, number>();
+
+/**
+ * Build the declaration added by an edit, rejecting values that would end
+ * the declaration or the rule
+ */
+export function formatDeclaration(
+  property: string,
+  value: string,
+  important?: boolean,
+): string {
+  if (!property.trim() || !value.trim() || /[;{}]/.test(property + value)) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Invalid declaration: ${property}: ${value}`,
+      { property, value },
+    );
+  }
+
+  return `${property.trim()}: ${value.trim()}${important ? " !important" : ""};`;
+}
+
+/**
+ * Check that edits can be reverted later. CDP sessions attached to
+ * out-of-process iframes are detached after each call, and their style
+ * sheets could not be restored.
+ */
+export function assertEditsRevertible(
+  session: SessionState,
+  frameDocument: FrameDocument,
+): void {
+  if (frameDocument.cdpSession !== session.cdpSession) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "Styles cannot be edited inside out-of-process iframes",
+      { frame: "out-of-process" },
+    );
+  }
+}
+
+/**
+ * Find the style of a rule matching a node. When several match, the one
+ * that comes last in the cascade order is used.
+ */
+export async function findRuleStyle(
+  cdpSession: CDPSession,
+  nodeId: number,
+  target: CssRuleTarget,
+): Promise<CDPStyle> {
+  const { matchedCSSRules = [] } = await getMatchedStyles(cdpSession, nodeId);
+
+  const candidates = matchedCSSRules
+    .map(({ rule }) => rule)
+    .filter((rule) => {
+      const { range } = rule.style;
+      if (
+        rule.origin !== "regular" ||
+        !rule.styleSheetId ||
+        !range ||
+        rule.selectorList.text.trim() !== target.selector.trim()
+      ) {
+        return false;
+      }
+
+      if (
+        target.stylesheetUrl !== undefined &&
+        getStyleSheetHeader(cdpSession, rule.styleSheetId)?.sourceURL !==
+          target.stylesheetUrl
+      ) {
+        return false;
+      }
+
+      return (
+        target.line === undefined ||
+        (range.startLine <= target.line && target.line <= range.endLine)
+      );
+    });
+
+  const rule = candidates[candidates.length - 1];
+  if (!rule) {
+    throw createError(
+      ErrorCode.RULE_NOT_FOUND,
+      `No rule matching the element has selector '${target.selector}'`,
+      {
+        rule: target,
+        matchedSelectors: matchedCSSRules
+          .filter(({ rule }) => rule.origin === "regular")
+          .map(({ rule }) => rule.selectorList.text),
+      },
+    );
+  }
+
+  return { ...rule.style, styleSheetId: rule.styleSheetId };
+}
+
+/**
+ * Get the inline style (style attribute) of a node
+ */
+export async function getInlineStyle(
+  cdpSession: CDPSession,
+  nodeId: number,
+): Promise<CDPStyle> {
+  const { inlineStyle } = await getMatchedStyles(cdpSession, nodeId);
+  if (!inlineStyle?.styleSheetId || !inlineStyle.range) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "Element has no editable inline style",
+      { nodeId },
+    );
+  }
+  return inlineStyle;
+}
+
+/**
+ * Append a declaration to styles with `CSS.setStyleTexts` and push the
+ * edit on the session's undo stack.
+ *
+ * The declaration is added after the existing ones, so it overrides
+ * earlier declarations of the property in the same block (unless they are
+ * `!important` and it is not). The whole text of each style sheet is saved
+ * first, so reverting restores it exactly.
+ */
+export async function applyStyleEdit(
+  session: SessionState,
+  cdpSession: CDPSession,
+  styles: CDPStyle[],
+  declaration: string,
+): Promise<StyleEdit> {
+  const sheets: StyleEdit["sheets"] = [];
+  for (const styleSheetId of new Set(styles.map((s) => s.styleSheetId!))) {
+    const { text } = await cdpSession.send("CSS.getStyleSheetText", {
+      styleSheetId,
+    });
+    sheets.push({ styleSheetId, text });
+  }
+
+  await cdpSession.send("CSS.setStyleTexts", {
+    edits: styles.map((style) => ({
+      styleSheetId: style.styleSheetId!,
+      range: style.range!,
+      text: appendDeclaration(style.cssText ?? "", declaration),
+    })),
+  });
+
+  const nextId = (editCounters.get(session.context) ?? 0) + 1;
+  editCounters.set(session.context, nextId);
+
+  const edit: StyleEdit = { id: `edit-${nextId}`, cdpSession, sheets };
+  session.styleEdits.push(edit);
+  return edit;
+}
+
+/**
+ * Revert every style edit of a session, newest first, and empty its undo
+ * stack. Edits whose style sheets are gone (e.g. after the page navigated)
+ * are dropped. Returns the ids of the edits reverted.
+ */
+export async function revertStyleEdits(
+  session: SessionState,
+): Promise<string[]> {
+  const reverted: string[] = [];
+
+  for (
+    let edit = session.styleEdits.pop();
+    edit;
+    edit = session.styleEdits.pop()
+  ) {
+    try {
+      for (const { styleSheetId, text } of edit.sheets) {
+        await edit.cdpSession.send("CSS.setStyleSheetText", {
+          styleSheetId,
+          text,
+        });
+      }
+      reverted.push(edit.id);
+    } catch {
+      // Style sheet no longer exists
+    }
+  }
+
+  return reverted;
+}
+
+/**
+ * Drop edits whose style sheets went away with their document, after a
+ * frame of the page navigated. Same-document navigations keep them.
+ */
+export async function dropStaleStyleEdits(
+  session: SessionState,
+): Promise<void> {
+  for (const edit of [...session.styleEdits]) {
+    try {
+      for (const { styleSheetId } of edit.sheets) {
+        await edit.cdpSession.send("CSS.getStyleSheetText", { styleSheetId });
+      }
+    } catch {
+      const index = session.styleEdits.indexOf(edit);
+      if (index !== -1) {
+        session.styleEdits.splice(index, 1);
+      }
+    }
+  }
+}
+
+/**
+ * Append a declaration to the text of a declaration block
+ */
+function appendDeclaration(cssText: string, declaration: string): string {
+  const existing = cssText.trimEnd();
+  if (!existing.trim()) {
+    return declaration;
+  }
+  return `${existing}${existing.endsWith(";") ? "" : ";"} ${declaration}`;
+}
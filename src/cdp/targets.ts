@@ -0,0 +1,199 @@
+import type { Frame, Locator } from "playwright";
+import type { ElementTarget, FrameDocument, SessionState } from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import {
+  SHADOW_COMBINATOR,
+  remoteArrayToNodeIds,
+  resolveElementTargets,
+  resolvePseudoElements,
+} from "./dom.js";
+import { resolveFrame } from "./frames.js";
+
+/**
+ * Remote object group used while handing elements from Playwright to CDP
+ */
+const OBJECT_GROUP = "mcp-devtools-targets";
+
+/**
+ * Counter for the page-global slots elements are handed over in
+ */
+let handoffCounter = 0;
+
+/**
+ * Resolve an element target to CDP node IDs within a frame document
+ * (from `resolveFrameDocument`).
+ *
+ * `id` and `selector` targets are queried over CDP directly. The other
+ * kinds are resolved by Playwright, which implements text matching,
+ * accessible names and its selector engines, and the matched elements are
+ * then handed over to CDP.
+ *
+ * With `pseudo`, each matched element is replaced by that pseudo-element,
+ * and elements without it are dropped.
+ */
+export async function resolveTargetNodeIds(
+  session: SessionState,
+  frameDocument: FrameDocument,
+  target: ElementTarget,
+  maxResults: number,
+): Promise<number[]> {
+  const nodeIds = await resolveElementNodeIds(
+    session,
+    frameDocument,
+    target,
+    maxResults,
+  );
+
+  if (!target.pseudo) {
+    return nodeIds;
+  }
+
+  return resolvePseudoElements(
+    frameDocument.cdpSession,
+    nodeIds,
+    target.pseudo,
+  );
+}
+
+async function resolveElementNodeIds(
+  session: SessionState,
+  frameDocument: FrameDocument,
+  target: ElementTarget,
+  maxResults: number,
+): Promise<number[]> {
+  if (target.kind === "id" || target.kind === "selector") {
+    return resolveElementTargets(
+      frameDocument.cdpSession,
+      target,
+      maxResults,
+      frameDocument.nodeId,
+    );
+  }
+
+  try {
+    const frame = await resolveFrame(session.page, target.frame);
+    const locator = targetLocator(
+      frame,
+      target,
+      session.config.playwright.testIdAttribute,
+    );
+    return await handOffElements(locator, frameDocument, maxResults);
+  } catch (err) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to resolve element target: ${err}`,
+      { target, originalError: String(err) },
+    );
+  }
+}
+
+/**
+ * Build the Playwright locator for an element target within a frame.
+ * The target's own frame chain is not applied here.
+ *
+ * Playwright's CSS engine always pierces open shadow roots, so `pierce`
+ * has no effect on locators; `>>>` steps become chained locators.
+ */
+export function targetLocator(
+  frame: Frame,
+  target: ElementTarget,
+  testIdAttribute: string,
+): Locator {
+  switch (target.kind) {
+    case "id":
+      return frame.locator(`[id=${JSON.stringify(target.value)}]`);
+
+    case "selector": {
+      const [first, ...rest] = target.value
+        .split(SHADOW_COMBINATOR)
+        .map((step) => step.trim());
+      return rest.reduce(
+        (locator, step) => locator.locator(step),
+        frame.locator(first),
+      );
+    }
+
+    case "text":
+      return frame.getByText(target.value, { exact: target.exact });
+
+    case "role":
+      return frame.getByRole(
+        target.value as Parameters<Frame["getByRole"]>[0],
+        { name: target.name, exact: target.exact },
+      );
+
+    case "testId":
+      return frame.locator(
+        `[${testIdAttribute}=${JSON.stringify(target.value)}]`,
+      );
+
+    case "xpath":
+      return frame.locator(`xpath=${target.value}`);
+
+    case "locator":
+      return frame.locator(target.value);
+
+    default:
+      throw new Error(
+        `Unknown target kind: ${(target as { kind: string }).kind}`,
+      );
+  }
+}
+
+/**
+ * Hand the elements matched by a locator over to CDP, returning their node
+ * IDs in match order.
+ *
+ * Playwright parks the elements in a page-global slot of the frame's main
+ * world; the frame document's window then gives them up to CDP as remote
+ * objects, which `DOM.requestNode` turns into node IDs. (Playwright's own
+ * remote objects belong to its CDP session and are not reachable from ours,
+ * hence the slot.) The slot is removed again whether or not this succeeds.
+ */
+async function handOffElements(
+  locator: Locator,
+  frameDocument: FrameDocument,
+  maxResults: number,
+): Promise<number[]> {
+  const slot = `__mcpDevtoolsTargets${++handoffCounter}`;
+  const { cdpSession, nodeId } = frameDocument;
+
+  await locator.evaluateAll((elements, key) => {
+    (globalThis as unknown as Record<string, unknown>)[key] = elements;
+  }, slot);
+
+  try {
+    const { object } = await cdpSession.send("DOM.resolveNode", {
+      nodeId,
+      objectGroup: OBJECT_GROUP,
+    });
+
+    const { result } = await cdpSession.send("Runtime.callFunctionOn", {
+      objectId: object.objectId,
+      functionDeclaration: `function (slot, max) {
+        return (this.defaultView[slot] || []).slice(0, max);
+      }`,
+      arguments: [{ value: slot }, { value: maxResults }],
+      objectGroup: OBJECT_GROUP,
+    });
+    return result.objectId
+      ? await remoteArrayToNodeIds(cdpSession, result.objectId)
+      : [];
+  } finally {
+    try {
+      await locator.evaluateAll((_elements, key) => {
+        delete (globalThis as unknown as Record<string, unknown>)[key];
+      }, slot);
+    } catch {
+      // Frame may already be gone, taking the slot with it
+    }
+
+    try {
+      await cdpSession.send("Runtime.releaseObjectGroup", {
+        objectGroup: OBJECT_GROUP,
+      });
+    } catch {
+      // Frame may already be gone
+    }
+  }
+}
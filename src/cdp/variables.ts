@@ -0,0 +1,315 @@
+import type { CDPSession } from "playwright";
+import type {
+  CssPropertyRegistration,
+  CssVariableReference,
+} from "../types.js";
+import { findWinningDeclaration } from "./cascade.js";
+import {
+  extractSnippet,
+  getComputedPropertyValue,
+  getMatchedStyles,
+  getStyleSheetText,
+} from "./css.js";
+import { describeElement } from "./dom.js";
+import type { SourceMapResolver } from "./source-maps.js";
+
+/**
+ * A var() function as written in a value
+ */
+interface VarFunction {
+  name: string;
+  fallback?: string;
+}
+
+/**
+ * Parse the var() functions in a value, in order. Only outermost functions
+ * are returned: a var() inside a fallback belongs to that fallback.
+ */
+function parseVarFunctions(value: string): VarFunction[] {
+  const functions: VarFunction[] = [];
+  let i = 0;
+
+  while (i < value.length) {
+    const ch = value[i];
+
+    if (ch === "\\") {
+      i += 2;
+    } else if (ch === '"' || ch === "'") {
+      i = skipString(value, i);
+    } else if (
+      value.slice(i, i + 4).toLowerCase() === "var(" &&
+      !/[\w-]/.test(value[i - 1] ?? "")
+    ) {
+      const end = findClosingParen(value, i + 3);
+      const args = value.slice(i + 4, end);
+      const comma = findTopLevelComma(args);
+
+      const fn: VarFunction = {
+        name: (comma === -1 ? args : args.slice(0, comma)).trim(),
+      };
+      if (comma !== -1) {
+        fn.fallback = args.slice(comma + 1).trim();
+      }
+      functions.push(fn);
+
+      i = end + 1;
+    } else {
+      i++;
+    }
+  }
+
+  return functions;
+}
+
+/**
+ * Follow the var() references in a value declared on a node.
+ *
+ * Each custom property is resolved on the node through the cascade (custom
+ * properties inherit, so the declaration may be on an ancestor), and the
+ * references in its own value are followed from the element that declares
+ * it. When a custom property is unset, the references in the fallback are
+ * followed instead. References that loop back are marked as a cycle.
+ */
+export async function resolveVariableReferences(
+  cdpSession: CDPSession,
+  nodeId: number,
+  value: string,
+  sourceMaps?: SourceMapResolver,
+): Promise<CssVariableReference[]> {
+  const context: ResolveContext = {
+    cdpSession,
+    registrations: await getRegistrations(cdpSession, nodeId),
+    visiting: new Set(),
+    sourceMaps,
+  };
+  return resolveReferences(context, nodeId, value);
+}
+
+/**
+ * State shared while following the references of one value
+ */
+interface ResolveContext {
+  cdpSession: CDPSession;
+  registrations: Map<string, CssPropertyRegistration>;
+  visiting: Set<string>; // "nodeId:name" of the references being followed
+  sourceMaps?: SourceMapResolver;
+}
+
+async function resolveReferences(
+  context: ResolveContext,
+  nodeId: number,
+  value: string,
+): Promise<CssVariableReference[]> {
+  const references: CssVariableReference[] = [];
+
+  for (const fn of parseVarFunctions(value)) {
+    references.push(await resolveReference(context, nodeId, fn));
+  }
+
+  return references;
+}
+
+async function resolveReference(
+  context: ResolveContext,
+  nodeId: number,
+  fn: VarFunction,
+): Promise<CssVariableReference> {
+  const { cdpSession, registrations, visiting } = context;
+  const value = await getComputedPropertyValue(cdpSession, nodeId, fn.name);
+
+  const reference: CssVariableReference = {
+    name: fn.name,
+    element: await describeElement(cdpSession, nodeId),
+    value,
+    usedFallback: value === null && fn.fallback !== undefined,
+  };
+
+  if (fn.fallback !== undefined) {
+    reference.fallback = fn.fallback;
+  }
+
+  const registration = registrations.get(fn.name);
+  if (registration) {
+    reference.registration = registration;
+  }
+
+  const key = `${nodeId}:${fn.name}`;
+  if (visiting.has(key)) {
+    reference.cycle = true;
+    return reference;
+  }
+
+  const { winner, inheritance, declaringNodeId } = await findWinningDeclaration(
+    cdpSession,
+    nodeId,
+    fn.name,
+    context.sourceMaps,
+  );
+
+  // A registered property that does not inherit has its initial value
+  // instead of an ancestor's
+  const notInherited = inheritance && registration && !registration.inherits;
+
+  if (winner && !notInherited) {
+    reference.declaration = winner;
+    if (inheritance) {
+      reference.inheritance = inheritance;
+    }
+  }
+
+  // Follow the references in whichever text supplied the value
+  const text = reference.usedFallback
+    ? fn.fallback
+    : reference.declaration?.value;
+  const resolveOn = reference.usedFallback
+    ? nodeId
+    : (declaringNodeId ?? nodeId);
+
+  if (text) {
+    visiting.add(key);
+    const nested = await resolveReferences(context, resolveOn, text);
+    visiting.delete(key);
+
+    if (nested.length > 0) {
+      reference.references = nested;
+    }
+  }
+
+  return reference;
+}
+
+/**
+ * Collect custom property registrations by name. `CSS.registerProperty()`
+ * takes precedence over an `@property` rule for the same name.
+ */
+async function getRegistrations(
+  cdpSession: CDPSession,
+  nodeId: number,
+): Promise<Map<string, CssPropertyRegistration>> {
+  const { cssPropertyRules = [], cssPropertyRegistrations = [] } =
+    await getMatchedStyles(cdpSession, nodeId);
+
+  const registrations = new Map<string, CssPropertyRegistration>();
+
+  for (const rule of cssPropertyRules) {
+    const descriptors = new Map(
+      rule.style.cssProperties.map((p) => [p.name, p.value.trim()]),
+    );
+
+    const registration: CssPropertyRegistration = {
+      source: "at-rule",
+      syntax: unquote(descriptors.get("syntax") ?? ""),
+      inherits: descriptors.get("inherits") === "true",
+    };
+
+    const initialValue = descriptors.get("initial-value");
+    if (initialValue !== undefined) {
+      registration.initialValue = initialValue;
+    }
+
+    const range = rule.propertyName.range;
+    if (range && rule.styleSheetId) {
+      registration.line = range.startLine;
+      registration.column = range.startColumn;
+
+      const text = await getStyleSheetText(cdpSession, rule.styleSheetId);
+      if (text) {
+        const snippet = extractSnippet(
+          text,
+          range.startLine,
+          range.startColumn,
+        );
+        if (snippet) {
+          registration.snippet = snippet.trim();
+        }
+      }
+    }
+
+    registrations.set(rule.propertyName.text, registration);
+  }
+
+  for (const registered of cssPropertyRegistrations) {
+    const registration: CssPropertyRegistration = {
+      source: "script",
+      syntax: registered.syntax,
+      inherits: registered.inherits,
+    };
+    if (registered.initialValue) {
+      registration.initialValue = registered.initialValue.text;
+    }
+    registrations.set(registered.propertyName, registration);
+  }
+
+  return registrations;
+}
+
+/**
+ * Strip the quotes around a string value (e.g. the `syntax` descriptor)
+ */
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, "$2");
+}
+
+/**
+ * Return the index just past the string starting at `start`
+ */
+function skipString(value: string, start: number): number {
+  const quote = value[start];
+  for (let i = start + 1; i < value.length; i++) {
+    if (value[i] === "\\") {
+      i++;
+    } else if (value[i] === quote) {
+      return i + 1;
+    }
+  }
+  return value.length;
+}
+
+/**
+ * Return the index of the parenthesis closing the one at `open`
+ */
+function findClosingParen(value: string, open: number): number {
+  let depth = 0;
+
+  for (let i = open; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      i = skipString(value, i) - 1;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return value.length;
+}
+
+/**
+ * Return the index of the first comma outside nested functions, or -1
+ */
+function findTopLevelComma(value: string): number {
+  let depth = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      i = skipString(value, i) - 1;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
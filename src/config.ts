@@ -1,7 +1,13 @@
 import { readFileSync } from "fs";
 import { resolve, dirname } from "path";
 import { config as loadEnv } from "dotenv";
-import type { Config, ResolvedConfig } from "./types.js";
+import type {
+  Config,
+  OriginCheck,
+  ResolvedConfig,
+  ScenarioConfig,
+  ScenarioContextOptions,
+} from "./types.js";
 
 export interface LoadConfigOptions {
   configPath: string;
@@ -13,10 +19,7 @@ export interface LoadedConfig {
   configDir: string;
   hooks?: {
     modulePath: string;
-    scenarios?: Record<
-      string,
-      { use: string; description?: string; device?: string }
-    >;
+    scenarios?: Record<string, ScenarioConfig>;
   };
   allowedOrigins?: string[];
 }
@@ -40,6 +43,17 @@ export async function loadConfig(
     throw new Error(`Failed to load config from ${configPath}: ${err}`);
   }
 
+  // Validate origin patterns
+  validateOriginPatterns("allowedOrigins", raw.policy?.allowedOrigins);
+  validateOriginPatterns("blockedOrigins", raw.policy?.blockedOrigins);
+
+  // Validate scenario context options
+  for (const [name, scenario] of Object.entries(raw.hooks?.scenarios ?? {})) {
+    if (scenario.contextOptions !== undefined) {
+      validateContextOptions(name, scenario.contextOptions);
+    }
+  }
+
   // Load .env file if specified
   if (raw.hooks?.envPath) {
     const envPath = resolve(configDir, raw.hooks.envPath);
@@ -57,11 +71,17 @@ export async function loadConfig(
       traceOutputPath: raw.playwright?.traceOutputPath
         ? resolve(configDir, raw.playwright.traceOutputPath)
         : undefined,
+      harOutputPath: raw.playwright?.harOutputPath
+        ? resolve(configDir, raw.playwright.harOutputPath)
+        : undefined,
+      testIdAttribute: raw.playwright?.testIdAttribute ?? "data-testid",
     },
     policy: {
       singleInstance: raw.policy?.singleInstance ?? true,
       idleMs: raw.policy?.idleMs ?? 300_000,
       allowedOrigins: raw.policy?.allowedOrigins,
+      blockedOrigins: raw.policy?.blockedOrigins,
+      enforceSubresources: raw.policy?.enforceSubresources ?? false,
     },
     timeouts: {
       navigationMs: raw.timeouts?.navigationMs ?? 15_000,
@@ -71,6 +91,18 @@ export async function loadConfig(
       enabled: raw.console?.enabled ?? true,
       maxMessages: raw.console?.maxMessages ?? 1000,
     },
+    network: {
+      enabled: raw.network?.enabled ?? true,
+      maxRequests: raw.network?.maxRequests ?? 500,
+    },
+    sourceMaps: {
+      enabled: raw.sourceMaps?.enabled ?? true,
+      pathMappings: Object.fromEntries(
+        Object.entries(raw.sourceMaps?.pathMappings ?? {}).map(
+          ([prefix, dir]) => [prefix, resolve(configDir, dir)],
+        ),
+      ),
+    },
   };
 
   // Prepare hooks config
@@ -78,7 +110,9 @@ export async function loadConfig(
   if (raw.hooks?.modulePath) {
     hooksConfig = {
       modulePath: resolve(configDir, raw.hooks.modulePath),
-      scenarios: raw.hooks.scenarios,
+      scenarios: raw.hooks.scenarios
+        ? resolveScenarioPaths(raw.hooks.scenarios, configDir)
+        : undefined,
     };
   }
 
@@ -91,22 +125,282 @@ export async function loadConfig(
   };
 }
 
+/**
+ * Resolve file paths inside scenario configs (e.g. route body files and
+ * storage state) relative to the config file's directory
+ */
+function resolveScenarioPaths(
+  scenarios: Record<string, ScenarioConfig>,
+  configDir: string,
+): Record<string, ScenarioConfig> {
+  const result: Record<string, ScenarioConfig> = {};
+
+  for (const [name, scenario] of Object.entries(scenarios)) {
+    result[name] = {
+      ...scenario,
+      ...(scenario.contextOptions?.storageStatePath && {
+        contextOptions: {
+          ...scenario.contextOptions,
+          storageStatePath: resolve(
+            configDir,
+            scenario.contextOptions.storageStatePath,
+          ),
+        },
+      }),
+      routes: scenario.routes?.map((rule) =>
+        rule.action?.type === "fulfill" && rule.action.bodyPath
+          ? {
+              ...rule,
+              action: {
+                ...rule.action,
+                bodyPath: resolve(configDir, rule.action.bodyPath),
+              },
+            }
+          : rule,
+      ),
+    };
+  }
+
+  return result;
+}
+
 /**
  * Validate that a URL is allowed by the policy
  */
 export function isOriginAllowed(
   url: string,
   allowedOrigins?: string[],
+  blockedOrigins?: string[],
 ): boolean {
-  if (!allowedOrigins || allowedOrigins.length === 0) {
-    return true;
-  }
+  return checkOrigin(url, { allowedOrigins, blockedOrigins }).allowed;
+}
 
+/**
+ * Check a URL against the origin policy and report which rule decided it.
+ * `blockedOrigins` wins over `allowedOrigins`; an empty or missing allow
+ * list allows every origin that is not blocked.
+ */
+export function checkOrigin(
+  url: string,
+  policy: { allowedOrigins?: string[]; blockedOrigins?: string[] },
+): OriginCheck {
+  let parsed: URL;
   try {
-    const parsed = new URL(url);
-    const origin = parsed.origin;
-    return allowedOrigins.includes(origin);
+    parsed = new URL(url);
   } catch {
+    return { allowed: false };
+  }
+
+  const blockedRule = policy.blockedOrigins?.find((pattern) =>
+    matchesOriginPattern(parsed, pattern),
+  );
+  if (blockedRule) {
+    return {
+      allowed: false,
+      ruleList: "blockedOrigins",
+      matchedRule: blockedRule,
+    };
+  }
+
+  if (!policy.allowedOrigins || policy.allowedOrigins.length === 0) {
+    return { allowed: true };
+  }
+
+  const allowedRule = policy.allowedOrigins.find((pattern) =>
+    matchesOriginPattern(parsed, pattern),
+  );
+  if (allowedRule) {
+    return {
+      allowed: true,
+      ruleList: "allowedOrigins",
+      matchedRule: allowedRule,
+    };
+  }
+
+  return { allowed: false, ruleList: "allowedOrigins" };
+}
+
+/**
+ * Default ports that URL parsing normalizes away
+ */
+const DEFAULT_PORTS: Record<string, string> = {
+  http: "80",
+  https: "443",
+  ws: "80",
+  wss: "443",
+};
+
+/**
+ * Origin pattern syntax: `scheme://host[:port]`, where `*` in the scheme
+ * matches any scheme, `*` in the host matches any characters (so
+ * `*.example.com` matches every subdomain but not `example.com` itself),
+ * and a port of `*` matches any port. `*` on its own matches every origin.
+ */
+const ORIGIN_PATTERN =
+  /^([a-z*][a-z0-9+.*-]*):\/\/(\[[^\]]+\]|[^/:]+)(?::(\d+|\*))?\/?$/i;
+
+/**
+ * Check whether a parsed URL's origin matches an origin pattern
+ */
+function matchesOriginPattern(url: URL, pattern: string): boolean {
+  if (pattern === "*") {
+    return true;
+  }
+
+  const match = ORIGIN_PATTERN.exec(pattern);
+  if (!match) {
+    return false;
+  }
+
+  const [, schemePattern, hostPattern, portPattern] = match;
+  const scheme = url.protocol.replace(/:$/, "");
+
+  if (!wildcardToRegExp(schemePattern).test(scheme)) {
+    return false;
+  }
+
+  if (!wildcardToRegExp(hostPattern).test(url.hostname)) {
     return false;
   }
+
+  if (portPattern === "*") {
+    return true;
+  }
+
+  // An omitted port (or the scheme's default port) only matches the default port
+  const expectedPort =
+    portPattern === undefined || portPattern === DEFAULT_PORTS[scheme]
+      ? ""
+      : portPattern;
+  return url.port === expectedPort;
+}
+
+/**
+ * Convert a `*` wildcard string to a case-insensitive, anchored RegExp
+ */
+function wildcardToRegExp(value: string): RegExp {
+  const source = value
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".+");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Validate origin patterns, throwing on the first malformed entry
+ */
+function validateOriginPatterns(field: string, patterns?: string[]): void {
+  for (const pattern of patterns ?? []) {
+    if (pattern !== "*" && !ORIGIN_PATTERN.test(pattern)) {
+      throw new Error(
+        `Invalid origin pattern in policy.${field}: "${pattern}". Expected scheme://host[:port], e.g. "https://*.example.com" or "http://localhost:*"`,
+      );
+    }
+  }
+}
+
+/**
+ * Validators for each scenario context option, returning a description of
+ * the expected value when it is invalid
+ */
+const CONTEXT_OPTION_VALIDATORS: Record<
+  keyof ScenarioContextOptions,
+  (value: unknown) => string | undefined
+> = {
+  locale: (value) => {
+    try {
+      Intl.getCanonicalLocales(value as string);
+      return typeof value === "string" ? undefined : "a locale string";
+    } catch {
+      return 'a BCP 47 locale, e.g. "de-DE"';
+    }
+  },
+  timezoneId: (value) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: value as string });
+      return typeof value === "string" ? undefined : "a time zone string";
+    } catch {
+      return 'an IANA time zone, e.g. "Europe/Berlin"';
+    }
+  },
+  geolocation: (value) => {
+    const { latitude, longitude, accuracy } = (value ?? {}) as Record<
+      string,
+      unknown
+    >;
+    const valid =
+      typeof latitude === "number" &&
+      latitude >= -90 &&
+      latitude <= 90 &&
+      typeof longitude === "number" &&
+      longitude >= -180 &&
+      longitude <= 180 &&
+      (accuracy === undefined ||
+        (typeof accuracy === "number" && accuracy >= 0));
+    return valid
+      ? undefined
+      : "{ latitude: -90..90, longitude: -180..180, accuracy?: >= 0 }";
+  },
+  permissions: (value) =>
+    Array.isArray(value) && value.every((p) => typeof p === "string")
+      ? undefined
+      : "an array of permission names",
+  colorScheme: (value) =>
+    value === "light" || value === "dark" || value === "no-preference"
+      ? undefined
+      : '"light", "dark" or "no-preference"',
+  extraHTTPHeaders: (value) =>
+    isPlainObject(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+      ? undefined
+      : "an object of header names to string values",
+  httpCredentials: (value) =>
+    isPlainObject(value) &&
+    typeof value.username === "string" &&
+    typeof value.password === "string" &&
+    (value.origin === undefined || typeof value.origin === "string")
+      ? undefined
+      : "{ username, password, origin? } strings",
+  javaScriptEnabled: (value) =>
+    typeof value === "boolean" ? undefined : "a boolean",
+  offline: (value) => (typeof value === "boolean" ? undefined : "a boolean"),
+  storageStatePath: (value) =>
+    typeof value === "string" ? undefined : "a file path",
+  baseURL: (value) =>
+    typeof value === "string" && URL.canParse(value)
+      ? undefined
+      : 'an absolute URL, e.g. "http://localhost:3000"',
+};
+
+/**
+ * Validate a scenario's context options, throwing on the first unknown or
+ * malformed option
+ */
+function validateContextOptions(scenario: string, options: unknown): void {
+  if (!isPlainObject(options)) {
+    throw new Error(
+      `Invalid contextOptions in scenario "${scenario}": expected an object`,
+    );
+  }
+
+  for (const [key, value] of Object.entries(options)) {
+    const validate =
+      CONTEXT_OPTION_VALIDATORS[key as keyof ScenarioContextOptions];
+    if (!validate) {
+      throw new Error(
+        `Unknown option contextOptions.${key} in scenario "${scenario}". Supported options: ${Object.keys(CONTEXT_OPTION_VALIDATORS).join(", ")}`,
+      );
+    }
+
+    const expected = validate(value);
+    if (expected) {
+      throw new Error(
+        `Invalid contextOptions.${key} in scenario "${scenario}": expected ${expected}`,
+      );
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
@@ -12,6 +12,14 @@ export enum ErrorCode {
   CSS_DOMAIN_UNAVAILABLE = "CSS_DOMAIN_UNAVAILABLE",
   QUERY_TIMEOUT = "QUERY_TIMEOUT",
   JS_EXECUTION_ERROR = "JS_EXECUTION_ERROR",
+  REQUEST_NOT_FOUND = "REQUEST_NOT_FOUND",
+  RESPONSE_BODY_UNAVAILABLE = "RESPONSE_BODY_UNAVAILABLE",
+  ROUTE_NOT_FOUND = "ROUTE_NOT_FOUND",
+  PAGE_NOT_FOUND = "PAGE_NOT_FOUND",
+  FRAME_NOT_FOUND = "FRAME_NOT_FOUND",
+  RULE_NOT_FOUND = "RULE_NOT_FOUND",
+  TRACE_IN_PROGRESS = "TRACE_IN_PROGRESS",
+  TRACE_NOT_STARTED = "TRACE_NOT_STARTED",
   UNEXPECTED_ERROR = "UNEXPECTED_ERROR",
 }
 
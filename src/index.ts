@@ -15,23 +15,68 @@ import type {
   NavigateParams,
   GetElementParams,
   GetCssProvenanceParams,
+  CssForceStateParams,
+  CssSetPropertyParams,
+  CssRevertAllParams,
+  EmulationSetParams,
+  EmulationGetParams,
+  LayoutSweepParams,
+  PerformanceGetMetricsParams,
+  PerformanceStartTraceParams,
+  PerformanceStopTraceParams,
   PageInteractParams,
   GetPageContentParams,
   ScreenshotParams,
   EvaluateJavaScriptParams,
   GetConsoleLogsParams,
+  GetNetworkRequestsParams,
+  GetResponseBodyParams,
+  ExportHarParams,
+  NetworkRouteParams,
+  NetworkUnrouteParams,
+  GetBlockedRequestsParams,
+  SessionStopParams,
+  NetworkListRoutesParams,
+  PagesListParams,
+  PagesSelectParams,
+  PagesNewParams,
+  PagesCloseParams,
 } from "./types.js";
 
 import { sessionStart } from "./tools/session-start.js";
 import { sessionStop } from "./tools/session-stop.js";
+import { sessionList } from "./tools/session-list.js";
 import { navigate } from "./tools/navigate.js";
 import { getElement } from "./tools/get-element.js";
 import { getCssProvenance } from "./tools/get-css-provenance.js";
+import { cssForceState } from "./tools/css-force-state.js";
+import { cssSetProperty } from "./tools/css-set-property.js";
+import { cssRevertAll } from "./tools/css-revert-all.js";
+import { emulationSet } from "./tools/emulation-set.js";
+import { emulationGet } from "./tools/emulation-get.js";
+import { layoutSweep } from "./tools/layout-sweep.js";
+import { performanceGetMetrics } from "./tools/performance-get-metrics.js";
+import { performanceStartTrace } from "./tools/performance-start-trace.js";
+import { performanceStopTrace } from "./tools/performance-stop-trace.js";
 import { pageInteract } from "./tools/page-interact.js";
 import { getPageContent } from "./tools/get-page-content.js";
 import { screenshot } from "./tools/screenshot.js";
 import { evaluateJavaScript } from "./tools/evaluate-javascript.js";
 import { getConsoleLogs } from "./tools/get-console-logs.js";
+import { getNetworkRequests } from "./tools/get-network-requests.js";
+import { getResponseBody } from "./tools/get-response-body.js";
+import { exportHar } from "./tools/export-har.js";
+import { networkRoute } from "./tools/network-route.js";
+import { networkUnroute } from "./tools/network-unroute.js";
+import { networkListRoutes } from "./tools/network-list-routes.js";
+import { getBlockedRequests } from "./tools/get-blocked-requests.js";
+import { pagesList } from "./tools/pages-list.js";
+import { pagesSelect } from "./tools/pages-select.js";
+import { pagesNew } from "./tools/pages-new.js";
+import { pagesClose } from "./tools/pages-close.js";
+import { ABORT_ERROR_CODES } from "./session/routes.js";
+import { FORCED_PSEUDO_STATES } from "./cdp/pseudo-states.js";
+import { TARGET_PSEUDO_ELEMENTS } from "./cdp/dom.js";
 import { runTestDrive } from "./test-drive.js";
 
 // Parse CLI args
@@ -72,7 +117,8 @@ if (testDriveIndex !== -1) {
   // Build dynamic description for session.start tool including available scenarios
   let sessionStartDescription =
     "Start a new Playwright browser session. " +
-    "Only one session can be active at a time. " +
+    "Only one session can be active at a time unless policy.singleInstance is false; " +
+    "then several named sessions (each with its own browser context, scenario, and device) can run side by side. " +
     "Set interactive=true to launch a visible browser window that the user can manually interact with " +
     "before/during automated operations (useful for manual login, debugging, or complex workflows).";
 
@@ -98,6 +144,105 @@ if (testDriveIndex !== -1) {
       "\n\nNo config file loaded. The browser will launch without running any hooks or scenarios.";
   }
 
+  // Optional session selector accepted by every tool that operates on a session
+  const sessionProperty = {
+    session: {
+      type: "string",
+      description:
+        "Name of the session to use (default: the most recently started session)",
+    },
+  };
+
+  // Chain of iframes from the top document down, shared by frame-aware tools
+  const frameChainSchema = {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the iframe element",
+        },
+        url: {
+          type: "string",
+          description: "Substring of the frame's current URL",
+        },
+        name: {
+          type: "string",
+          description: "Value of the iframe's name attribute",
+        },
+      },
+    },
+  };
+
+  // Element target shared by element tools and page.interact actions
+  const elementTargetSchema = {
+    type: "object",
+    properties: {
+      kind: {
+        type: "string",
+        enum: ["id", "selector", "text", "role", "testId", "xpath", "locator"],
+        description:
+          "How value identifies the element: id, CSS selector, text content, " +
+          "ARIA role, test id attribute, XPath expression, or Playwright " +
+          'selector (e.g. "role=button[name=Save] >> nth=1")',
+      },
+      value: {
+        type: "string",
+        description:
+          "Value for the kind. For selector, chain selectors with >>> to " +
+          "match inside the open shadow roots of the preceding hosts.",
+      },
+      name: {
+        type: "string",
+        description: "Accessible name to match (kind: role)",
+      },
+      exact: {
+        type: "boolean",
+        description:
+          "Match text or accessible name exactly " +
+          "(default: case-insensitive substring)",
+      },
+      pierce: {
+        type: "boolean",
+        description:
+          "Also search inside all open shadow roots " +
+          "(kinds id and selector; default: false)",
+      },
+      frame: {
+        ...frameChainSchema,
+        description:
+          "Optional chain of iframes (outermost first) to search inside. " +
+          "Each step is { selector } | { url } | { name }.",
+      },
+      pseudo: {
+        type: "string",
+        enum: [...TARGET_PSEUDO_ELEMENTS],
+        description:
+          "Inspect this pseudo-element of each matched element instead " +
+          "(e.g. before for ::before). Elements without it are skipped.",
+      },
+    },
+    required: ["kind", "value"],
+  };
+
+  // Forced pseudo-class options shared by element inspection tools
+  const forceStatesProperties = {
+    forceStates: {
+      type: "array",
+      items: { type: "string", enum: [...FORCED_PSEUDO_STATES] },
+      description:
+        "Pseudo-classes to force on the matched elements while inspecting, " +
+        'so styles reflect that state (e.g. ["hover"], ["focus", "focus-visible"])',
+    },
+    persistStates: {
+      type: "boolean",
+      description:
+        "Keep the forced states after the call (default: false, cleared " +
+        "automatically). Clear them later with devtools.css.forceState",
+    },
+  };
+
   // Define tools
   const tools: Tool[] = [
     {
@@ -106,6 +251,11 @@ if (testDriveIndex !== -1) {
       inputSchema: {
         type: "object",
         properties: {
+          session: {
+            type: "string",
+            description:
+              'Name for the new session (default: "default"). Other tools select a session with their own session parameter.',
+          },
           scenario: {
             type: "string",
             description:
@@ -138,7 +288,17 @@ if (testDriveIndex !== -1) {
     {
       name: "devtools.session.stop",
       description:
-        "Stop the current browser session and clean up all resources.",
+        "Stop a browser session (the most recently started one unless session is given) and clean up all its resources.",
+      inputSchema: {
+        type: "object",
+        properties: { ...sessionProperty },
+      },
+    },
+    {
+      name: "devtools.session.list",
+      description:
+        "List active browser sessions with their scenario, device, active page URL, and page count. " +
+        "The session marked current is used by tool calls that do not pass a session name.",
       inputSchema: {
         type: "object",
         properties: {},
@@ -152,6 +312,7 @@ if (testDriveIndex !== -1) {
       inputSchema: {
         type: "object",
         properties: {
+          ...sessionProperty,
           url: {
             type: "string",
             description: "URL to navigate to (absolute or relative to baseURL)",
@@ -168,27 +329,15 @@ if (testDriveIndex !== -1) {
     {
       name: "devtools.getElement",
       description:
-        "Get detailed information about elements matching a selector or ID. " +
+        "Get detailed information about elements matching a target " +
+        "(ID, CSS selector, text, ARIA role, test id, XPath or Playwright locator). " +
         "Returns box model, computed styles, attributes, and role. " +
         "Returns first match by default; use maxResults for multiple matches.",
       inputSchema: {
         type: "object",
         properties: {
-          target: {
-            type: "object",
-            properties: {
-              kind: {
-                type: "string",
-                enum: ["id", "selector"],
-                description: "Type of selector",
-              },
-              value: {
-                type: "string",
-                description: "ID value or CSS selector",
-              },
-            },
-            required: ["kind", "value"],
-          },
+          ...sessionProperty,
+          target: elementTargetSchema,
           include: {
             type: "object",
             properties: {
@@ -222,6 +371,7 @@ if (testDriveIndex !== -1) {
               "What information to include " +
               "(all fields default to false/empty if not specified)",
           },
+          ...forceStatesProperties,
           maxResults: {
             type: "number",
             description:
@@ -237,46 +387,339 @@ if (testDriveIndex !== -1) {
       description:
         "Get the source of a CSS property value, " +
         "including which rule/file/line set it. " +
-        "IMPORTANT: You MUST use longhand CSS properties " +
-        '(e.g., "border-top-width", not "border"). ' +
+        "Shorthands (e.g. margin) are traced per longhand. " +
         "Returns computed value and winning declaration with source location.",
       inputSchema: {
         type: "object",
         properties: {
-          target: {
+          ...sessionProperty,
+          target: elementTargetSchema,
+          property: {
+            type: "string",
+            description:
+              'CSS property name (e.g. "border-top-width"). ' +
+              "Shorthands return per-longhand results",
+          },
+          includeContributors: {
+            type: "boolean",
+            description:
+              "Include non-winning declarations in cascade (default: false)",
+          },
+          contributorFilter: {
+            type: "string",
+            enum: ["active", "inactive", "all"],
+            description:
+              "Which contributors to list: active (rules that currently " +
+              "apply), inactive (matching rules in @media, @supports or " +
+              "@container conditions that do not hold, e.g. other " +
+              "breakpoints) or all (default: active)",
+          },
+          resolveVariables: {
+            type: "boolean",
+            description:
+              "Follow var() references in the winning value through each " +
+              "custom property's declaration, fallback and @property " +
+              "registration (default: false)",
+          },
+          ...forceStatesProperties,
+          maxResults: {
+            type: "number",
+            description:
+              "Maximum number of matching elements to analyze " +
+              "(default: 10, max: 50)",
+          },
+        },
+        required: ["target", "property"],
+      },
+    },
+    {
+      name: "devtools.css.forceState",
+      description:
+        "Force pseudo-class states (:hover, :focus, :active, :focus-visible, " +
+        ":focus-within, :visited, :target) on elements, like the DevTools " +
+        "Styles pane. States stay forced until replaced, cleared with an " +
+        "empty states list, or the page navigates.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          target: elementTargetSchema,
+          states: {
+            type: "array",
+            items: { type: "string", enum: [...FORCED_PSEUDO_STATES] },
+            description:
+              "States to force, replacing any forced before. " +
+              "Empty to clear forced states.",
+          },
+          maxResults: {
+            type: "number",
+            description:
+              "Maximum number of matching elements to force states on " +
+              "(default: 10, max: 50)",
+          },
+        },
+        required: ["target", "states"],
+      },
+    },
+    {
+      name: "devtools.css.setProperty",
+      description:
+        "Try a CSS change live before editing source: add a declaration to " +
+        "a rule matching the element (e.g. the winner from " +
+        "devtools.getCssProvenance) or to the element's inline style, and " +
+        "return the new computed values. Edits are kept on an undo stack and " +
+        "reverted by devtools.css.revertAll, on navigation and on session stop.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          target: elementTargetSchema,
+          property: {
+            type: "string",
+            description: "CSS property name (e.g. 'margin-top', '--accent')",
+          },
+          value: {
+            type: "string",
+            description: "Value to set (e.g. '16px', 'var(--blue-600)')",
+          },
+          important: {
+            type: "boolean",
+            description: "Add !important to the declaration (default: false)",
+          },
+          rule: {
             type: "object",
+            description:
+              "Rule to edit instead of the inline style, among the rules " +
+              "matching the first element. Use selector, stylesheetUrl and " +
+              "line from devtools.getCssProvenance (the generated location " +
+              "for source-mapped style sheets).",
             properties: {
-              kind: {
+              selector: { type: "string", description: "Selector text" },
+              stylesheetUrl: {
                 type: "string",
-                enum: ["id", "selector"],
-                description: "Type of selector",
+                description: "URL of the served style sheet",
               },
-              value: {
-                type: "string",
-                description: "ID value or CSS selector",
+              line: {
+                type: "number",
+                description: "0-based line of a declaration in the rule",
               },
             },
-            required: ["kind", "value"],
+            required: ["selector"],
           },
-          property: {
-            type: "string",
+          maxResults: {
+            type: "number",
             description:
-              "CSS property name " +
-              '(MUST be longhand, e.g., "border-top-width" not "border")',
+              "Maximum number of matching elements to edit inline or report " +
+              "values for (default: 10, max: 50)",
           },
-          includeContributors: {
+        },
+        required: ["target", "property", "value"],
+      },
+    },
+    {
+      name: "devtools.css.revertAll",
+      description:
+        "Revert every live style edit made with devtools.css.setProperty, " +
+        "restoring the original style sheet texts.",
+      inputSchema: {
+        type: "object",
+        properties: { ...sessionProperty },
+      },
+    },
+    {
+      name: "devtools.emulation.set",
+      description:
+        "Change emulation on the live session: viewport size, device pixel " +
+        "ratio, prefers-color-scheme, prefers-reduced-motion, forced-colors, " +
+        "print/screen media, locale, time zone and user agent. Omitted " +
+        "fields are kept; null removes an override. Returns the emulation " +
+        "now in effect.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          viewport: {
+            type: ["object", "null"],
+            properties: {
+              width: { type: "number" },
+              height: { type: "number" },
+            },
+            required: ["width", "height"],
+            description: "Viewport size in CSS pixels",
+          },
+          deviceScaleFactor: {
+            type: ["number", "null"],
+            description: "Device pixel ratio (e.g. 2 for retina)",
+          },
+          colorScheme: {
+            type: ["string", "null"],
+            enum: ["light", "dark", "no-preference", null],
+            description: "prefers-color-scheme",
+          },
+          reducedMotion: {
+            type: ["string", "null"],
+            enum: ["reduce", "no-preference", null],
+            description: "prefers-reduced-motion",
+          },
+          forcedColors: {
+            type: ["string", "null"],
+            enum: ["active", "none", null],
+            description: "forced-colors",
+          },
+          media: {
+            type: ["string", "null"],
+            enum: ["screen", "print", null],
+            description: "CSS media type",
+          },
+          locale: {
+            type: ["string", "null"],
+            description: "Locale for Intl formatting (e.g. 'de-DE')",
+          },
+          timezoneId: {
+            type: ["string", "null"],
+            description: "IANA time zone (e.g. 'Europe/Berlin')",
+          },
+          userAgent: {
+            type: ["string", "null"],
+            description: "User agent string",
+          },
+        },
+      },
+    },
+    {
+      name: "devtools.emulation.get",
+      description:
+        "Report the emulation in effect on the active page (viewport, pixel " +
+        "ratio, media features, locale, time zone, user agent) and the " +
+        "overrides set with devtools.emulation.set.",
+      inputSchema: {
+        type: "object",
+        properties: { ...sessionProperty },
+      },
+    },
+    {
+      name: "devtools.layout.sweep",
+      description:
+        "Resize the viewport to each of a list of widths and report the box " +
+        "models and computed values of the target elements at each width, " +
+        "flagging widths where a computed value changes. Use it to find the " +
+        "breakpoint where a layout breaks. The viewport is restored " +
+        "afterwards.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          target: elementTargetSchema,
+          widths: {
+            type: "array",
+            items: { type: "number" },
+            description: "Viewport widths in CSS pixels (up to 50)",
+          },
+          range: {
+            type: "object",
+            properties: {
+              min: { type: "number" },
+              max: { type: "number" },
+              step: { type: "number" },
+            },
+            required: ["min", "max", "step"],
+            description:
+              "Every step pixels from min to max, instead of widths " +
+              "(e.g. { min: 600, max: 1200, step: 50 })",
+          },
+          height: {
+            type: "number",
+            description: "Viewport height during the sweep (default: current)",
+          },
+          properties: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Computed properties to read at each width " +
+              "(e.g. ['display', 'flex-direction', 'width'])",
+          },
+          screenshots: {
             type: "boolean",
             description:
-              "Include non-winning declarations in cascade (default: false)",
+              "Save a viewport screenshot at each width to a temporary file " +
+              "(default: false)",
           },
           maxResults: {
             type: "number",
             description:
-              "Maximum number of matching elements to analyze " +
+              "Maximum number of matching elements to measure " +
+              "(default: 10, max: 50)",
+          },
+        },
+        required: ["target"],
+      },
+    },
+    {
+      name: "devtools.performance.getMetrics",
+      description:
+        "Report performance metrics for the active page: navigation timing, " +
+        "first paint and FCP, LCP with its element, CLS with the shifted " +
+        "elements, INP with the slowest interaction, long tasks with total " +
+        "blocking time, and CDP Performance.getMetrics counters (JS heap, " +
+        "layout and style recalc counts and durations).",
+      inputSchema: {
+        type: "object",
+        properties: { ...sessionProperty },
+      },
+    },
+    {
+      name: "devtools.performance.startTrace",
+      description:
+        "Start recording a Chrome performance trace (Tracing domain) or a " +
+        "JS CPU profile (Profiler domain) of the active page. Interact with " +
+        "the page, then call devtools.performance.stopTrace to save and " +
+        "summarize the recording.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          mode: {
+            type: "string",
+            enum: ["trace", "profile"],
+            description:
+              "'trace' for a full performance trace (default), 'profile' " +
+              "for a lighter JS CPU profile",
+          },
+          categories: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Trace categories to record, '-name' to exclude one (trace " +
+              "mode; default: the DevTools Performance panel's)",
+          },
+          samplingIntervalUs: {
+            type: "number",
+            description: "CPU sampling interval in microseconds (profile mode)",
+          },
+        },
+      },
+    },
+    {
+      name: "devtools.performance.stopTrace",
+      description:
+        "Stop the recording started with devtools.performance.startTrace, " +
+        "save it to a file that loads in the Chrome DevTools Performance " +
+        "panel, and return the hottest JS functions and longest tasks.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          path: {
+            type: "string",
+            description: "File to write (default: a temporary file)",
+          },
+          topN: {
+            type: "number",
+            description:
+              "Number of hot functions and long tasks to list " +
               "(default: 10, max: 50)",
           },
         },
-        required: ["target", "property"],
       },
     },
     {
@@ -288,9 +731,18 @@ if (testDriveIndex !== -1) {
       inputSchema: {
         type: "object",
         properties: {
+          ...sessionProperty,
+          frame: {
+            ...frameChainSchema,
+            description:
+              "Optional chain of iframes (outermost first) to run the actions in. " +
+              "Each step is { selector } | { url } | { name }.",
+          },
           actions: {
             type: "array",
-            description: "Array of actions to execute sequentially",
+            description:
+              "Array of actions to execute sequentially. Element actions take " +
+              "either a selector or an element target (same as devtools.getElement).",
             items: {
               oneOf: [
                 {
@@ -298,6 +750,7 @@ if (testDriveIndex !== -1) {
                   properties: {
                     type: { type: "string", enum: ["click"] },
                     selector: { type: "string" },
+                    target: elementTargetSchema,
                     options: {
                       type: "object",
                       properties: {
@@ -310,22 +763,24 @@ if (testDriveIndex !== -1) {
                       },
                     },
                   },
-                  required: ["type", "selector"],
+                  required: ["type"],
                 },
                 {
                   type: "object",
                   properties: {
                     type: { type: "string", enum: ["fill"] },
                     selector: { type: "string" },
+                    target: elementTargetSchema,
                     value: { type: "string" },
                   },
-                  required: ["type", "selector", "value"],
+                  required: ["type", "value"],
                 },
                 {
                   type: "object",
                   properties: {
                     type: { type: "string", enum: ["type"] },
                     selector: { type: "string" },
+                    target: elementTargetSchema,
                     text: { type: "string" },
                     options: {
                       type: "object",
@@ -334,13 +789,14 @@ if (testDriveIndex !== -1) {
                       },
                     },
                   },
-                  required: ["type", "selector", "text"],
+                  required: ["type", "text"],
                 },
                 {
                   type: "object",
                   properties: {
                     type: { type: "string", enum: ["press"] },
                     selector: { type: "string" },
+                    target: elementTargetSchema,
                     key: { type: "string" },
                     options: {
                       type: "object",
@@ -349,13 +805,14 @@ if (testDriveIndex !== -1) {
                       },
                     },
                   },
-                  required: ["type", "selector", "key"],
+                  required: ["type", "key"],
                 },
                 {
                   type: "object",
                   properties: {
                     type: { type: "string", enum: ["select"] },
                     selector: { type: "string" },
+                    target: elementTargetSchema,
                     values: {
                       oneOf: [
                         { type: "string" },
@@ -363,7 +820,7 @@ if (testDriveIndex !== -1) {
                       ],
                     },
                   },
-                  required: ["type", "selector", "values"],
+                  required: ["type", "values"],
                 },
                 {
                   type: "object",
@@ -378,6 +835,7 @@ if (testDriveIndex !== -1) {
                   properties: {
                     type: { type: "string", enum: ["waitForSelector"] },
                     selector: { type: "string" },
+                    target: elementTargetSchema,
                     options: {
                       type: "object",
                       properties: {
@@ -389,7 +847,7 @@ if (testDriveIndex !== -1) {
                       },
                     },
                   },
-                  required: ["type", "selector"],
+                  required: ["type"],
                 },
                 {
                   type: "object",
@@ -424,6 +882,7 @@ if (testDriveIndex !== -1) {
       inputSchema: {
         type: "object",
         properties: {
+          ...sessionProperty,
           start: {
             type: "number",
             description: "Starting character position (default: 0)",
@@ -445,6 +904,7 @@ if (testDriveIndex !== -1) {
       inputSchema: {
         type: "object",
         properties: {
+          ...sessionProperty,
           fullPage: {
             type: "boolean",
             description:
@@ -476,6 +936,13 @@ if (testDriveIndex !== -1) {
       inputSchema: {
         type: "object",
         properties: {
+          ...sessionProperty,
+          frame: {
+            ...frameChainSchema,
+            description:
+              "Optional chain of iframes (outermost first) to evaluate in. " +
+              "Each step is { selector } | { url } | { name }.",
+          },
           code: {
             type: "string",
             description:
@@ -509,6 +976,7 @@ if (testDriveIndex !== -1) {
       inputSchema: {
         type: "object",
         properties: {
+          ...sessionProperty,
           level: {
             type: "string",
             enum: ["log", "warn", "error", "info", "debug"],
@@ -528,6 +996,323 @@ if (testDriveIndex !== -1) {
         },
       },
     },
+    {
+      name: "devtools.network.getRequests",
+      description:
+        "Get network requests captured from the browser. " +
+        "Every request made by pages in the session is recorded with its URL, method, status, timing, " +
+        "resource type, failure text and transfer sizes. " +
+        "Supports filtering by URL, status range, resource type, and failed requests. " +
+        "Network capture is enabled by default with a circular buffer (oldest requests are dropped when limit is reached).",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          url: {
+            type: "string",
+            description:
+              "Filter requests whose URL contains this text (case-insensitive substring match)",
+          },
+          urlPattern: {
+            type: "string",
+            description:
+              "Filter requests whose URL matches this regular expression",
+          },
+          statusMin: {
+            type: "number",
+            description:
+              "Minimum HTTP status (inclusive). Requests without a response are excluded when a status range is given.",
+          },
+          statusMax: {
+            type: "number",
+            description: "Maximum HTTP status (inclusive)",
+          },
+          resourceType: {
+            oneOf: [
+              { type: "string" },
+              { type: "array", items: { type: "string" } },
+            ],
+            description:
+              "Filter by resource type, e.g. " +
+              '"document", "stylesheet", "image", "script", "fetch", "xhr" (default: all types)',
+          },
+          failedOnly: {
+            type: "boolean",
+            description:
+              "Only return requests that failed at the network level (DNS errors, aborted, blocked, etc.). " +
+              "Use statusMin=400 to find HTTP error responses. (default: false)",
+          },
+          limit: {
+            type: "number",
+            description:
+              "Maximum number of recent requests to return (default: return all captured requests)",
+          },
+        },
+      },
+    },
+    {
+      name: "devtools.network.getResponseBody",
+      description:
+        "Get the response body of a captured network request by its id (from devtools.network.getRequests). " +
+        "Text bodies (JSON, HTML, CSS, JavaScript, etc.) are returned inline; " +
+        "optionally specify a starting character position and length to retrieve a slice. " +
+        "Binary bodies, and text bodies over 100,000 characters when no length is given, " +
+        "are written to a temporary file and the file path is returned instead.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          requestId: {
+            type: "string",
+            description:
+              'Request id from devtools.network.getRequests (e.g. "req-12")',
+          },
+          start: {
+            type: "number",
+            description:
+              "Starting character position for text bodies (default: 0)",
+          },
+          length: {
+            type: "number",
+            description:
+              "Number of characters to return. Use -1 for remainder of body after start (default: -1)",
+          },
+          saveToFile: {
+            type: "boolean",
+            description:
+              "Always write the body to a temporary file instead of returning it inline (default: false)",
+          },
+        },
+        required: ["requestId"],
+      },
+    },
+    {
+      name: "devtools.network.exportHar",
+      description:
+        "Export the network traffic captured in the current session as a HAR 1.2 file " +
+        "(viewable in browser DevTools or any HAR viewer). " +
+        "Returns the absolute path to the file. " +
+        "Useful for attaching a snapshot of the session's traffic to a bug report. " +
+        "Only requests still in the capture buffer are included.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          path: {
+            type: "string",
+            description:
+              "Output file path (default: a new file in the system temp directory)",
+          },
+          includeContent: {
+            type: "boolean",
+            description:
+              "Embed response bodies in the HAR (binary bodies are base64-encoded) (default: true)",
+          },
+        },
+      },
+    },
+    {
+      name: "devtools.network.route",
+      description:
+        "Intercept requests whose URL matches a glob or regular expression and apply an action: " +
+        "fulfill (mock a response), abort (simulate a network error), delay (slow endpoint), " +
+        "or modifyHeaders (change request and/or response headers). " +
+        "Useful for reproducing edge cases like a 500 from an API or an empty list without touching the backend. " +
+        "Rules installed later take precedence; delay and request-header rules pass the request on to earlier rules or the network. " +
+        "Returns the installed rule with its id (use devtools.network.unroute to remove it).",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          url: {
+            type: "string",
+            description:
+              'URL glob (e.g. "**/api/users*") or regular expression source when urlType is "regex"',
+          },
+          urlType: {
+            type: "string",
+            enum: ["glob", "regex"],
+            description: "How to interpret url (default: glob)",
+          },
+          action: {
+            oneOf: [
+              {
+                type: "object",
+                properties: {
+                  type: { type: "string", enum: ["fulfill"] },
+                  status: {
+                    type: "number",
+                    description: "HTTP status (default: 200)",
+                  },
+                  headers: {
+                    type: "object",
+                    additionalProperties: { type: "string" },
+                  },
+                  contentType: { type: "string" },
+                  body: { type: "string" },
+                  bodyPath: {
+                    type: "string",
+                    description: "Path to a file whose contents are the body",
+                  },
+                },
+                required: ["type"],
+              },
+              {
+                type: "object",
+                properties: {
+                  type: { type: "string", enum: ["abort"] },
+                  errorCode: {
+                    type: "string",
+                    enum: ABORT_ERROR_CODES,
+                    description: "Network error to simulate (default: failed)",
+                  },
+                },
+                required: ["type"],
+              },
+              {
+                type: "object",
+                properties: {
+                  type: { type: "string", enum: ["delay"] },
+                  delayMs: { type: "number" },
+                },
+                required: ["type", "delayMs"],
+              },
+              {
+                type: "object",
+                properties: {
+                  type: { type: "string", enum: ["modifyHeaders"] },
+                  requestHeaders: {
+                    type: "object",
+                    additionalProperties: { type: ["string", "null"] },
+                    description:
+                      "Headers to set on the request (null removes a header)",
+                  },
+                  responseHeaders: {
+                    type: "object",
+                    additionalProperties: { type: ["string", "null"] },
+                    description:
+                      "Headers to set on the response (null removes a header)",
+                  },
+                },
+                required: ["type"],
+              },
+            ],
+          },
+        },
+        required: ["url", "action"],
+      },
+    },
+    {
+      name: "devtools.network.unroute",
+      description:
+        "Remove a request interception rule installed with devtools.network.route (or from the scenario config).",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          id: {
+            type: "string",
+            description: 'Route id to remove (e.g. "route-1")',
+          },
+          all: {
+            type: "boolean",
+            description: "Remove every installed route (default: false)",
+          },
+        },
+      },
+    },
+    {
+      name: "devtools.network.listRoutes",
+      description:
+        "List the request interception rules installed on the current session, " +
+        "including how many requests each rule has matched.",
+      inputSchema: {
+        type: "object",
+        properties: { ...sessionProperty },
+      },
+    },
+    {
+      name: "devtools.policy.getBlockedRequests",
+      description:
+        "Get the audit list of requests blocked by the origin policy (policy.allowedOrigins / policy.blockedOrigins), with the rule that blocked each one. " +
+        "Includes main-frame navigations from any source (links, redirects, scripts, popups) " +
+        "and, when policy.enforceSubresources is enabled, subresource requests.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          limit: {
+            type: "number",
+            description:
+              "Maximum number of recent entries to return (default: return all entries)",
+          },
+        },
+      },
+    },
+    {
+      name: "devtools.pages.list",
+      description:
+        "List all open pages (tabs and popups, including those opened by target=_blank links or window.open) " +
+        "with their stable ids, URL, title, opener, and which one is active.",
+      inputSchema: {
+        type: "object",
+        properties: { ...sessionProperty },
+      },
+    },
+    {
+      name: "devtools.pages.select",
+      description:
+        "Make a page the active one. Element, CSS, screenshot, navigation, and interaction tools operate on the active page. Live style edits of the previously active page are reverted; their ids are returned in revertedEdits.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          id: {
+            type: "string",
+            description: "Page id from devtools.pages.list (e.g. 'page-2')",
+          },
+        },
+        required: ["id"],
+      },
+    },
+    {
+      name: "devtools.pages.new",
+      description:
+        "Open a new page (tab) in the current session, optionally navigating it to a URL. " +
+        "The new page becomes active unless select is false.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          url: {
+            type: "string",
+            description:
+              "URL to open (absolute or relative to baseURL). Subject to the origin policy.",
+          },
+          select: {
+            type: "boolean",
+            description: "Make the new page active (default: true)",
+          },
+        },
+      },
+    },
+    {
+      name: "devtools.pages.close",
+      description:
+        "Close a page. Closing the active page activates its opener, or the most recently opened page. " +
+        "The last open page cannot be closed; use devtools.session.stop instead.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...sessionProperty,
+          id: {
+            type: "string",
+            description: "Page id from devtools.pages.list",
+          },
+        },
+        required: ["id"],
+      },
+    },
   ];
 
   // Handle list tools
@@ -552,7 +1337,16 @@ if (testDriveIndex !== -1) {
         }
 
         case "devtools.session.stop": {
-          const result = await sessionStop();
+          const result = await sessionStop(
+            args as unknown as SessionStopParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.session.list": {
+          const result = await sessionList();
           return {
             content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
           };
@@ -581,6 +1375,87 @@ if (testDriveIndex !== -1) {
           };
         }
 
+        case "devtools.css.forceState": {
+          const result = await cssForceState(
+            args as unknown as CssForceStateParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.css.setProperty": {
+          const result = await cssSetProperty(
+            args as unknown as CssSetPropertyParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.css.revertAll": {
+          const result = await cssRevertAll(
+            args as unknown as CssRevertAllParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.emulation.set": {
+          const result = await emulationSet(
+            args as unknown as EmulationSetParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.emulation.get": {
+          const result = await emulationGet(
+            args as unknown as EmulationGetParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.layout.sweep": {
+          const result = await layoutSweep(
+            args as unknown as LayoutSweepParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.performance.getMetrics": {
+          const result = await performanceGetMetrics(
+            args as unknown as PerformanceGetMetricsParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.performance.startTrace": {
+          const result = await performanceStartTrace(
+            args as unknown as PerformanceStartTraceParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.performance.stopTrace": {
+          const result = await performanceStopTrace(
+            args as unknown as PerformanceStopTraceParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
         case "devtools.page.interact": {
           const result = await pageInteract(
             args as unknown as PageInteractParams,
@@ -624,6 +1499,97 @@ if (testDriveIndex !== -1) {
           };
         }
 
+        case "devtools.network.getRequests": {
+          const result = await getNetworkRequests(
+            args as unknown as GetNetworkRequestsParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.network.getResponseBody": {
+          const result = await getResponseBody(
+            args as unknown as GetResponseBodyParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.network.exportHar": {
+          const result = await exportHar(args as unknown as ExportHarParams);
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.network.route": {
+          const result = await networkRoute(
+            args as unknown as NetworkRouteParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.network.unroute": {
+          const result = await networkUnroute(
+            args as unknown as NetworkUnrouteParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.network.listRoutes": {
+          const result = await networkListRoutes(
+            args as unknown as NetworkListRoutesParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.policy.getBlockedRequests": {
+          const result = await getBlockedRequests(
+            args as unknown as GetBlockedRequestsParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.pages.list": {
+          const result = await pagesList(args as unknown as PagesListParams);
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.pages.select": {
+          const result = await pagesSelect(
+            args as unknown as PagesSelectParams,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.pages.new": {
+          const result = await pagesNew(args as unknown as PagesNewParams);
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case "devtools.pages.close": {
+          const result = await pagesClose(args as unknown as PagesCloseParams);
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -658,7 +1624,7 @@ if (testDriveIndex !== -1) {
 
   // Handle shutdown
   async function shutdown() {
-    await sessionManager.stop();
+    await sessionManager.stopAll();
     process.exit(0);
   }
 
@@ -0,0 +1,254 @@
+import { devices } from "playwright";
+import type {
+  EmulationSetParams,
+  EmulationSettings,
+  EmulationState,
+  SessionState,
+} from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+
+/**
+ * Emulation fields, in the order they are applied
+ */
+const EMULATION_KEYS: (keyof EmulationSettings)[] = [
+  "viewport",
+  "deviceScaleFactor",
+  "colorScheme",
+  "reducedMotion",
+  "forcedColors",
+  "media",
+  "locale",
+  "timezoneId",
+  "userAgent",
+];
+
+/**
+ * Playwright's viewport for contexts created without one
+ */
+const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
+
+/**
+ * Change emulation overrides on the active page. Omitted fields are kept,
+ * and null removes an override.
+ */
+export async function setEmulation(
+  session: SessionState,
+  params: EmulationSetParams,
+): Promise<void> {
+  validateEmulation(session, params);
+
+  const overrides: EmulationSettings = { ...session.emulation };
+  const changed = new Set<keyof EmulationSettings>();
+
+  for (const key of EMULATION_KEYS) {
+    const value = params[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null) {
+      delete overrides[key];
+    } else {
+      (overrides as Record<string, unknown>)[key] = value;
+    }
+    changed.add(key);
+  }
+
+  await applyEmulation(session, overrides, changed);
+  session.emulation = overrides;
+}
+
+/**
+ * Apply the session's emulation overrides to its active page, after
+ * another page is selected. CDP overrides belong to the detached session,
+ * and viewport and media emulation are per page.
+ */
+export async function reapplyEmulation(session: SessionState): Promise<void> {
+  const keys = Object.keys(session.emulation) as (keyof EmulationSettings)[];
+  if (keys.length > 0) {
+    await applyEmulation(session, session.emulation, new Set(keys));
+  }
+}
+
+/**
+ * Apply the changed emulation fields. Viewport and media features go
+ * through Playwright, so screenshots and its own emulation stay in sync;
+ * the rest are CDP `Emulation.*` overrides on the session's CDP session.
+ */
+async function applyEmulation(
+  session: SessionState,
+  overrides: EmulationSettings,
+  changed: Set<keyof EmulationSettings>,
+): Promise<void> {
+  const { page, cdpSession } = session;
+
+  if (changed.has("viewport") || changed.has("deviceScaleFactor")) {
+    const viewport = overrides.viewport ?? defaultViewport(session);
+
+    if (
+      changed.has("deviceScaleFactor") &&
+      overrides.deviceScaleFactor === undefined
+    ) {
+      // Also drops Playwright's metrics, which setViewportSize restores
+      await cdpSession.send("Emulation.clearDeviceMetricsOverride");
+    }
+
+    await page.setViewportSize(viewport);
+
+    // Playwright cannot change the pixel ratio of a live page
+    if (overrides.deviceScaleFactor !== undefined) {
+      await cdpSession.send("Emulation.setDeviceMetricsOverride", {
+        ...viewport,
+        deviceScaleFactor: overrides.deviceScaleFactor,
+        mobile: isMobileDevice(session),
+      });
+    }
+  }
+
+  if (
+    changed.has("colorScheme") ||
+    changed.has("reducedMotion") ||
+    changed.has("forcedColors") ||
+    changed.has("media")
+  ) {
+    // null goes back to the context's setting
+    await page.emulateMedia({
+      colorScheme: overrides.colorScheme ?? null,
+      reducedMotion: overrides.reducedMotion ?? null,
+      forcedColors: overrides.forcedColors ?? null,
+      media: overrides.media ?? null,
+    });
+  }
+
+  if (changed.has("locale")) {
+    await cdpSession.send(
+      "Emulation.setLocaleOverride",
+      overrides.locale ? { locale: overrides.locale } : {},
+    );
+  }
+
+  if (changed.has("timezoneId")) {
+    // An empty id removes the override
+    await cdpSession.send("Emulation.setTimezoneOverride", {
+      timezoneId: overrides.timezoneId ?? "",
+    });
+  }
+
+  if (changed.has("userAgent")) {
+    // An empty user agent removes the override
+    await cdpSession.send("Emulation.setUserAgentOverride", {
+      userAgent: overrides.userAgent ?? "",
+    });
+  }
+}
+
+/**
+ * Read the emulation in effect on the active page
+ */
+export async function getEmulationState(
+  session: SessionState,
+): Promise<EmulationState> {
+  const pageState =
+    await session.page.evaluate<
+      Omit<EmulationState, "device" | "viewport" | "overrides">
+    >(READ_EMULATION_STATE);
+
+  const state: EmulationState = {
+    viewport: session.page.viewportSize(),
+    ...pageState,
+    overrides: session.emulation,
+  };
+  if (session.device) {
+    state.device = session.device;
+  }
+  return state;
+}
+
+function validateEmulation(
+  session: SessionState,
+  params: EmulationSetParams,
+): void {
+  const { viewport, deviceScaleFactor } = params;
+
+  // Chromium allows one locale and time zone override per page, and
+  // Playwright already holds it when the context sets the option
+  for (const key of ["locale", "timezoneId"] as const) {
+    const contextValue = session.contextOptions?.[key];
+    if (params[key] && contextValue) {
+      throw createError(
+        ErrorCode.UNEXPECTED_ERROR,
+        `${key} is set to "${contextValue}" by the scenario's contextOptions and cannot be overridden at runtime`,
+        { [key]: params[key], scenario: session.scenario },
+      );
+    }
+  }
+
+  if (
+    viewport &&
+    !(
+      Number.isInteger(viewport.width) &&
+      Number.isInteger(viewport.height) &&
+      viewport.width > 0 &&
+      viewport.height > 0
+    )
+  ) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "viewport width and height must be positive integers",
+      { viewport },
+    );
+  }
+
+  if (
+    deviceScaleFactor !== undefined &&
+    deviceScaleFactor !== null &&
+    !(deviceScaleFactor > 0)
+  ) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "deviceScaleFactor must be a positive number",
+      { deviceScaleFactor },
+    );
+  }
+}
+
+/**
+ * Viewport the session started with: its device preset's, or Playwright's
+ * default
+ */
+function defaultViewport(session: SessionState): {
+  width: number;
+  height: number;
+} {
+  return (
+    (session.device && devices[session.device]?.viewport) || DEFAULT_VIEWPORT
+  );
+}
+
+function isMobileDevice(session: SessionState): boolean {
+  return session.device ? (devices[session.device]?.isMobile ?? false) : false;
+}
+
+/**
+ * Page expression reading the emulated media features, locale, time zone
+ * and user agent
+ */
+const READ_EMULATION_STATE = `(() => {
+  const matches = (query) => matchMedia(query).matches;
+  const options = Intl.DateTimeFormat().resolvedOptions();
+  return {
+    deviceScaleFactor: devicePixelRatio,
+    colorScheme: matches("(prefers-color-scheme: dark)")
+      ? "dark"
+      : matches("(prefers-color-scheme: light)")
+        ? "light"
+        : "no-preference",
+    reducedMotion: matches("(prefers-reduced-motion: reduce)")
+      ? "reduce"
+      : "no-preference",
+    forcedColors: matches("(forced-colors: active)") ? "active" : "none",
+    media: matches("print") ? "print" : "screen",
+    locale: options.locale,
+    timezoneId: options.timeZone,
+    userAgent: navigator.userAgent,
+  };
+})()`;
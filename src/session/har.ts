@@ -0,0 +1,203 @@
+import { writeFileSync } from "fs";
+import type { Request } from "playwright";
+import type {
+  Har,
+  HarEntry,
+  HarNameValue,
+  NetworkRequest,
+  SessionState,
+} from "../types.js";
+
+/**
+ * Build a HAR 1.2 log from the session's captured network requests.
+ * Requests still in flight are skipped. When `includeContent` is true,
+ * response bodies are embedded (binary bodies as base64).
+ */
+export async function buildHar(
+  session: SessionState,
+  includeContent: boolean,
+): Promise<Har> {
+  const entries: HarEntry[] = [];
+
+  for (const entry of session.networkRequests) {
+    const request = session.networkRequestHandles.get(entry.id);
+    if (!request || entry.duration === undefined) {
+      continue;
+    }
+
+    entries.push(await buildHarEntry(entry, request, includeContent));
+  }
+
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "mcp-browser-devtools", version: "1.0.0" },
+      pages: [],
+      entries,
+    },
+  };
+}
+
+/**
+ * Build a HAR log and write it to `path`. Returns the number of entries written.
+ */
+export async function writeHar(
+  session: SessionState,
+  path: string,
+  includeContent: boolean,
+): Promise<number> {
+  const har = await buildHar(session, includeContent);
+  writeFileSync(path, JSON.stringify(har, null, 2), "utf8");
+  return har.log.entries.length;
+}
+
+/**
+ * Convert a captured request into a HAR entry
+ */
+async function buildHarEntry(
+  entry: NetworkRequest,
+  request: Request,
+  includeContent: boolean,
+): Promise<HarEntry> {
+  const requestHeaders = await safeHeaders(() => request.headersArray());
+  const postData = request.postData();
+  const response = entry.failed ? null : await request.response();
+  const responseHeaders = response
+    ? await safeHeaders(() => response.headersArray())
+    : [];
+
+  const harEntry: HarEntry = {
+    startedDateTime: new Date(entry.startTime).toISOString(),
+    time: entry.duration ?? 0,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: "",
+      cookies: [],
+      headers: requestHeaders,
+      queryString: parseQueryString(entry.url),
+      headersSize: entry.sizes?.requestHeadersSize ?? -1,
+      bodySize: entry.sizes?.requestBodySize ?? -1,
+    },
+    response: {
+      status: entry.status ?? 0,
+      statusText: entry.statusText ?? "",
+      httpVersion: "",
+      cookies: [],
+      headers: responseHeaders,
+      content: {
+        size: entry.sizes?.responseBodySize ?? 0,
+        mimeType: entry.mimeType ?? "",
+      },
+      redirectURL:
+        responseHeaders.find((h) => h.name.toLowerCase() === "location")
+          ?.value ?? "",
+      headersSize: entry.sizes?.responseHeadersSize ?? -1,
+      bodySize: entry.sizes?.responseBodySize ?? -1,
+    },
+    cache: {},
+    timings: toHarTimings(entry),
+    _resourceType: entry.resourceType,
+  };
+
+  if (postData !== null) {
+    harEntry.request.postData = {
+      mimeType:
+        requestHeaders.find((h) => h.name.toLowerCase() === "content-type")
+          ?.value ?? "",
+      text: postData,
+    };
+  }
+
+  if (entry.failureText) {
+    harEntry._failureText = entry.failureText;
+  }
+
+  if (includeContent && response) {
+    try {
+      const body = await response.body();
+      if (isUtf8Text(body)) {
+        harEntry.response.content.text = body.toString("utf8");
+      } else {
+        harEntry.response.content.text = body.toString("base64");
+        harEntry.response.content.encoding = "base64";
+      }
+      harEntry.response.content.size = body.length;
+    } catch {
+      // Body unavailable (redirect, evicted by the browser, etc.)
+    }
+  }
+
+  return harEntry;
+}
+
+/**
+ * Read headers, tolerating requests whose headers are no longer available
+ */
+async function safeHeaders(
+  read: () => Promise<HarNameValue[]>,
+): Promise<HarNameValue[]> {
+  try {
+    return await read();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Extract query string parameters from a URL
+ */
+function parseQueryString(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Convert Playwright resource timing into HAR timings.
+ * HAR requires send/wait/receive to be non-negative; the optional phases use -1.
+ */
+function toHarTimings(entry: NetworkRequest): HarEntry["timings"] {
+  const t = entry.timing;
+  if (!t) {
+    return {
+      blocked: -1,
+      dns: -1,
+      connect: -1,
+      ssl: -1,
+      send: 0,
+      wait: entry.duration ?? 0,
+      receive: 0,
+    };
+  }
+
+  const span = (start: number, end: number) =>
+    start >= 0 && end >= 0 ? end - start : -1;
+
+  return {
+    blocked: -1,
+    dns: span(t.domainLookupStart, t.domainLookupEnd),
+    connect: span(t.connectStart, t.connectEnd),
+    ssl: span(t.secureConnectionStart, t.connectEnd),
+    send: 0,
+    wait: Math.max(0, span(t.requestStart, t.responseStart)),
+    receive: Math.max(0, span(t.responseStart, t.responseEnd)),
+  };
+}
+
+/**
+ * Check whether a body decodes cleanly as UTF-8 text
+ */
+function isUtf8Text(body: Buffer): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(body);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,96 +1,194 @@
-import { chromium, devices } from "playwright";
-import type { SessionState, ResolvedConfig } from "../types.js";
+import { extname } from "path";
+import { chromium, devices, type Browser } from "playwright";
+import type {
+  SessionState,
+  ResolvedConfig,
+  ScenarioContextOptions,
+} from "../types.js";
 import { ErrorCode, createError } from "../errors.js";
 import { IdleTimer } from "./idle-timer.js";
+import { attachNetworkCapture } from "./network.js";
+import { writeHar } from "./har.js";
+import { attachPolicyEnforcement } from "./policy.js";
+import { attachPerformanceObservers } from "./performance.js";
+import { registerPage, trackPages } from "./pages.js";
+import { trackStyleSheets } from "../cdp/css.js";
+import { revertStyleEdits } from "../cdp/style-edits.js";
 
 /**
- * Singleton session manager
+ * Name used when a tool call does not name a session
+ */
+export const DEFAULT_SESSION_NAME = "default";
+
+/**
+ * Singleton session manager.
+ *
+ * Holds any number of named sessions. Tools that do not name a session
+ * use the most recently started one. Unless `policy.singleInstance` is
+ * false, starting a session stops every other session first.
  */
 class SessionManager {
-  private session: SessionState | null = null;
-  private startInProgress = false;
-  private idleTimer: IdleTimer | null = null;
+  private sessions = new Map<string, SessionState>(); // In start order
+  private starting = new Set<string>();
+  private idleTimers = new Map<string, IdleTimer>();
 
   /**
-   * Check if a session is currently active
+   * Check if a session is active (a specific one, or any)
    */
-  hasSession(): boolean {
-    return this.session !== null;
+  hasSession(name?: string): boolean {
+    return name ? this.sessions.has(name) : this.sessions.size > 0;
   }
 
   /**
-   * Check if session start is in progress
+   * Check if a session start is in progress for a name
    */
-  isStarting(): boolean {
-    return this.startInProgress;
+  isStarting(name: string = DEFAULT_SESSION_NAME): boolean {
+    return this.starting.has(name);
   }
 
   /**
-   * Get the current session (throws if not active)
+   * Get a session by name, or the most recently started one
+   * (throws if not active)
    */
-  getSession(): SessionState {
-    if (!this.session) {
+  getSession(name?: string): SessionState {
+    const session = this.findSession(name);
+
+    if (!session) {
+      if (name && this.sessions.size > 0) {
+        throw createError(
+          ErrorCode.NO_ACTIVE_SESSION,
+          `No active session named '${name}'.`,
+          { session: name, activeSessions: [...this.sessions.keys()] },
+        );
+      }
+
       throw createError(
         ErrorCode.NO_ACTIVE_SESSION,
         "No active session. Call devtools.session.start first.",
       );
     }
-    return this.session;
+    return session;
+  }
+
+  /**
+   * List active sessions in start order
+   */
+  listSessions(): SessionState[] {
+    return [...this.sessions.values()];
   }
 
   /**
    * Mark that session start is beginning
    */
-  markStartInProgress(): void {
-    this.startInProgress = true;
+  markStartInProgress(name: string = DEFAULT_SESSION_NAME): void {
+    this.starting.add(name);
   }
 
   /**
    * Clear the start in progress flag
    */
-  clearStartInProgress(): void {
-    this.startInProgress = false;
+  clearStartInProgress(name: string = DEFAULT_SESSION_NAME): void {
+    this.starting.delete(name);
   }
 
   /**
-   * Set the active session
+   * Register a started session (it becomes the most recent one)
    */
   setSession(session: SessionState): void {
-    this.session = session;
-    this.startInProgress = false;
+    this.sessions.delete(session.name);
+    this.sessions.set(session.name, session);
+    this.starting.delete(session.name);
 
     // Start idle timer
-    this.idleTimer = new IdleTimer(session.config.policy.idleMs, async () => {
-      await this.stop();
+    const idleTimer = new IdleTimer(session.config.policy.idleMs, async () => {
+      await this.stop(session.name);
     });
-    this.idleTimer.reset();
+    this.idleTimers.set(session.name, idleTimer);
+    idleTimer.reset();
   }
 
   /**
    * Update last used timestamp and reset idle timer
    */
-  touchSession(): void {
-    if (this.session) {
-      this.session.lastUsedAt = Date.now();
-      this.idleTimer?.reset();
+  touchSession(name?: string): void {
+    const session = this.findSession(name);
+    if (session) {
+      session.lastUsedAt = Date.now();
+      this.idleTimers.get(session.name)?.reset();
     }
   }
 
   /**
-   * Stop the current session
+   * Stop every active session
    */
-  async stop(): Promise<void> {
-    if (!this.session) {
+  async stopAll(): Promise<void> {
+    let firstError: unknown;
+
+    for (const name of [...this.sessions.keys()]) {
+      try {
+        await this.stop(name);
+      } catch (err) {
+        firstError ??= err;
+      }
+    }
+
+    if (firstError) {
+      throw firstError;
+    }
+  }
+
+  /**
+   * Stop a session by name, or the most recently started one
+   */
+  async stop(name?: string): Promise<void> {
+    const session = this.findSession(name);
+    if (!session) {
       return;
     }
 
-    const session = this.session;
-    this.session = null;
-    this.startInProgress = false;
+    this.sessions.delete(session.name);
+    this.starting.delete(session.name);
 
     // Cancel idle timer
-    this.idleTimer?.cancel();
-    this.idleTimer = null;
+    this.idleTimers.get(session.name)?.cancel();
+    this.idleTimers.delete(session.name);
+
+    await this.closeSession(session);
+  }
+
+  /**
+   * Close a session's browser resources and run its hook stop function.
+   * Also used for a session whose start failed before it was registered.
+   */
+  async closeSession(session: SessionState): Promise<void> {
+    // Write HAR if configured (before the page closes so bodies are still available)
+    if (session.config.playwright.harOutputPath) {
+      try {
+        await writeHar(
+          session,
+          sessionOutputPath(session.config.playwright.harOutputPath, session),
+          true,
+        );
+      } catch {
+        // Ignore HAR write errors
+      }
+    }
+
+    // Forget tracked pages so closing them does not re-activate another page
+    session.pages = [];
+
+    // Revert live style edits while their CDP session is still attached
+    await revertStyleEdits(session);
+
+    // Drop an unfinished trace or CPU profile
+    if (session.performanceCapture) {
+      try {
+        await session.performanceCapture.cdpSession.detach();
+      } catch {
+        // Ignore detach errors
+      }
+      session.performanceCapture = undefined;
+    }
 
     // Close Playwright resources
     try {
@@ -109,7 +207,10 @@ class SessionManager {
     if (session.config.playwright.traceOutputPath) {
       try {
         await session.context.tracing.stop({
-          path: session.config.playwright.traceOutputPath,
+          path: sessionOutputPath(
+            session.config.playwright.traceOutputPath,
+            session,
+          ),
         });
       } catch {
         // Ignore trace stop errors
@@ -143,20 +244,38 @@ class SessionManager {
   }
 
   /**
-   * Create a new Playwright session
-   * Automatically stops any existing session first
+   * Create a new Playwright session.
+   * Automatically stops an existing session with the same name first, and
+   * every other session too when `policy.singleInstance` is enabled.
+   * Scenario context options are applied over the device descriptor.
    */
   async createPlaywrightSession(
     config: ResolvedConfig,
     hookStopFn?: () => void | Promise<void>,
     deviceName?: string,
     fullscreen?: boolean,
+    name: string = DEFAULT_SESSION_NAME,
+    scenarioOptions?: Omit<
+      ScenarioContextOptions,
+      "baseURL" | "storageStatePath"
+    >,
   ): Promise<SessionState> {
-    // Stop existing session if present
-    if (this.hasSession()) {
-      await this.stop();
+    // Stop existing sessions as required by policy
+    if (config.policy.singleInstance) {
+      await this.stopAll();
+    } else if (this.hasSession(name)) {
+      await this.stop(name);
     }
+    let browser: Browser | undefined;
     try {
+      // Check the device before launching so an unknown name fails fast
+      const deviceConfig = deviceName ? devices[deviceName] : undefined;
+      if (deviceName && !deviceConfig) {
+        throw new Error(
+          `Unknown device: "${deviceName}". See https://github.com/microsoft/playwright/blob/main/packages/playwright-core/src/server/deviceDescriptorsSource.json for available devices.`,
+        );
+      }
+
       // Launch browser
       const launchOptions: Record<string, unknown> = {
         headless: config.playwright.headless,
@@ -167,20 +286,13 @@ class SessionManager {
         launchOptions.args = ["--start-maximized"];
       }
 
-      const browser = await chromium.launch(launchOptions);
+      browser = await chromium.launch(launchOptions);
 
-      // Create context
-      const contextOptions: Record<string, unknown> = {};
+      // Create context, applying device emulation if specified
+      const contextOptions: Record<string, unknown> = { ...deviceConfig };
 
-      // Apply device emulation if specified
-      if (deviceName) {
-        const deviceConfig = devices[deviceName];
-        if (!deviceConfig) {
-          throw new Error(
-            `Unknown device: "${deviceName}". See https://github.com/microsoft/playwright/blob/main/packages/playwright-core/src/server/deviceDescriptorsSource.json for available devices.`,
-          );
-        }
-        Object.assign(contextOptions, deviceConfig);
+      if (scenarioOptions) {
+        Object.assign(contextOptions, scenarioOptions);
       }
 
       if (config.playwright.baseURL) {
@@ -200,6 +312,29 @@ class SessionManager {
         });
       }
 
+      // Initialize network requests array and Playwright request lookup
+      const networkRequests: SessionState["networkRequests"] = [];
+      const networkRequestHandles: SessionState["networkRequestHandles"] =
+        new Map();
+
+      // Set up network capture before the first page is created so that
+      // its initial requests are recorded too
+      if (config.network.enabled) {
+        attachNetworkCapture(
+          context,
+          networkRequests,
+          networkRequestHandles,
+          config.network.maxRequests,
+        );
+      }
+
+      // Enforce origin policy for all pages in the context
+      const blockedRequests: SessionState["blockedRequests"] = [];
+      await attachPolicyEnforcement(context, config, blockedRequests);
+
+      // Record Web Vitals entries from the start of every navigation
+      await attachPerformanceObservers(context);
+
       // Create page
       const page = await context.newPage();
 
@@ -207,15 +342,17 @@ class SessionManager {
       const cdpSession = await page.context().newCDPSession(page);
 
       // Enable DOM and CSS domains (DOM must be enabled first)
+      trackStyleSheets(cdpSession);
       await cdpSession.send("DOM.enable");
       await cdpSession.send("CSS.enable");
 
       // Initialize console messages array
       const consoleMessages: SessionState["consoleMessages"] = [];
 
-      // Set up console event listener if enabled
+      // Set up console event listener if enabled (on the context, so
+      // messages from popups and other pages are captured too)
       if (config.console.enabled) {
-        page.on("console", (msg) => {
+        context.on("console", (msg) => {
           const message = {
             type: msg.type() as "log" | "warn" | "error" | "info" | "debug",
             text: msg.text(),
@@ -233,17 +370,37 @@ class SessionManager {
         });
       }
 
-      return {
+      const session: SessionState = {
+        name,
+        device: deviceName,
+        contextOptions: scenarioOptions,
+        startedAt: Date.now(),
         browser,
         context,
         page,
         cdpSession,
+        pages: [],
+        activePageId: "",
         hookStopFn,
         config,
         lastUsedAt: Date.now(),
         consoleMessages,
+        networkRequests,
+        networkRequestHandles,
+        routes: [],
+        blockedRequests,
+        styleEdits: [],
+        emulation: {},
       };
+
+      // Track all pages in the context (popups, new tabs)
+      trackPages(session);
+      session.activePageId = registerPage(session, page).id;
+
+      return session;
     } catch (err) {
+      // Do not leave the browser running when a later step failed
+      await browser?.close().catch(() => {});
       throw createError(
         ErrorCode.PLAYWRIGHT_LAUNCH_FAILED,
         "Failed to launch Playwright",
@@ -251,6 +408,34 @@ class SessionManager {
       );
     }
   }
+
+  /**
+   * Look up a session by name, or the most recently started one
+   */
+  private findSession(name?: string): SessionState | undefined {
+    if (name) {
+      return this.sessions.get(name);
+    }
+
+    let latest: SessionState | undefined;
+    for (const session of this.sessions.values()) {
+      latest = session;
+    }
+    return latest;
+  }
+}
+
+/**
+ * Output file of a session: the configured path for the default session,
+ * with the session name added before the extension for other sessions
+ * (`session.har` -> `session.admin.har`), so they do not overwrite it
+ */
+function sessionOutputPath(path: string, session: SessionState): string {
+  if (session.name === DEFAULT_SESSION_NAME) {
+    return path;
+  }
+  const extension = extname(path);
+  return `${path.slice(0, path.length - extension.length)}.${session.name}${extension}`;
 }
 
 // Export singleton instance
@@ -0,0 +1,114 @@
+import type { BrowserContext, Request } from "playwright";
+import type { NetworkRequest } from "../types.js";
+
+/**
+ * Attach network capture listeners to a browser context.
+ * Listening on the context (rather than a single page) also captures
+ * traffic from popups and other pages opened in the same context.
+ *
+ * Captured requests are appended to `requests`, which is kept as a
+ * circular buffer of at most `maxRequests` entries. `handles` maps each
+ * captured request id to its Playwright request so response bodies can be
+ * read later; entries are removed when they fall out of the buffer.
+ */
+export function attachNetworkCapture(
+  context: BrowserContext,
+  requests: NetworkRequest[],
+  handles: Map<string, Request>,
+  maxRequests: number,
+): void {
+  const entries = new WeakMap<Request, NetworkRequest>();
+  let nextId = 1;
+
+  context.on("request", (request) => {
+    const entry: NetworkRequest = {
+      id: `req-${nextId++}`,
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      failed: false,
+      startTime: Date.now(),
+    };
+
+    const redirectedFrom = request.redirectedFrom();
+    if (redirectedFrom) {
+      entry.redirectedFrom = redirectedFrom.url();
+    }
+
+    entries.set(request, entry);
+    handles.set(entry.id, request);
+    requests.push(entry);
+
+    // Enforce circular buffer limit
+    if (requests.length > maxRequests) {
+      const removed = requests.shift(); // Remove oldest request
+      if (removed) {
+        handles.delete(removed.id);
+      }
+    }
+  });
+
+  context.on("response", (response) => {
+    const entry = entries.get(response.request());
+    if (!entry) {
+      return;
+    }
+
+    entry.status = response.status();
+    entry.statusText = response.statusText();
+
+    const contentType = response.headers()["content-type"];
+    if (contentType) {
+      entry.mimeType = contentType.split(";")[0].trim();
+    }
+  });
+
+  context.on("requestfinished", async (request) => {
+    const entry = entries.get(request);
+    if (!entry) {
+      return;
+    }
+
+    finalizeTiming(entry, request);
+
+    try {
+      entry.sizes = await request.sizes();
+    } catch {
+      // Sizes are unavailable for some requests (e.g. served from cache)
+    }
+  });
+
+  context.on("requestfailed", (request) => {
+    const entry = entries.get(request);
+    if (!entry) {
+      return;
+    }
+
+    entry.failed = true;
+    entry.failureText = request.failure()?.errorText;
+    finalizeTiming(entry, request);
+  });
+}
+
+/**
+ * Record timing information once a request has completed or failed
+ */
+function finalizeTiming(entry: NetworkRequest, request: Request): void {
+  const timing = request.timing();
+
+  entry.timing = {
+    domainLookupStart: timing.domainLookupStart,
+    domainLookupEnd: timing.domainLookupEnd,
+    connectStart: timing.connectStart,
+    secureConnectionStart: timing.secureConnectionStart,
+    connectEnd: timing.connectEnd,
+    requestStart: timing.requestStart,
+    responseStart: timing.responseStart,
+    responseEnd: timing.responseEnd,
+  };
+
+  entry.duration =
+    timing.responseEnd >= 0
+      ? Math.round(timing.responseEnd)
+      : Date.now() - entry.startTime;
+}
@@ -0,0 +1,192 @@
+import type { BrowserContext, Page } from "playwright";
+import type { PageInfo, SessionState, TrackedPage } from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { trackStyleSheets } from "../cdp/css.js";
+import { dropStaleStyleEdits, revertStyleEdits } from "../cdp/style-edits.js";
+import { reapplyEmulation } from "./emulation.js";
+import { redirectsBlocked } from "./policy.js";
+
+/**
+ * Per-context counter used to assign stable page ids
+ */
+const pageCounters = new WeakMap<BrowserContext, number>();
+
+/**
+ * Track every page in the session's browser context, including popups
+ * opened by `target=_blank` links or `window.open`.
+ *
+ * Pages already open (the initial page) are registered immediately. When
+ * the active page closes on its own, its opener (or the most recently
+ * opened page) becomes active.
+ */
+export function trackPages(session: SessionState): void {
+  for (const page of session.context.pages()) {
+    registerPage(session, page);
+  }
+
+  session.context.on("page", (page) => {
+    registerPage(session, page);
+  });
+}
+
+/**
+ * Register a page with the session, returning its tracked entry.
+ * Registering a page twice returns the existing entry.
+ */
+export function registerPage(session: SessionState, page: Page): TrackedPage {
+  const existing = session.pages.find((p) => p.page === page);
+  if (existing) {
+    return existing;
+  }
+
+  const nextId = (pageCounters.get(session.context) ?? 0) + 1;
+  pageCounters.set(session.context, nextId);
+
+  const tracked: TrackedPage = { id: `page-${nextId}`, page };
+  session.pages.push(tracked);
+
+  page
+    .opener()
+    .then((opener) => {
+      const openerEntry = opener
+        ? session.pages.find((p) => p.page === opener)
+        : undefined;
+      if (openerEntry) {
+        tracked.openerId = openerEntry.id;
+      }
+    })
+    .catch(() => {
+      // Page closed before its opener could be resolved
+    });
+
+  // Edits of the active page do not survive its documents, however the
+  // navigation was started (link click, script, navigate tool)
+  page.on("framenavigated", () => {
+    if (session.page === page && session.styleEdits.length > 0) {
+      dropStaleStyleEdits(session).catch(() => {
+        // Session is closing
+      });
+    }
+  });
+
+  page.on("close", () => {
+    const index = session.pages.indexOf(tracked);
+    if (index !== -1) {
+      session.pages.splice(index, 1);
+    }
+
+    if (session.activePageId === tracked.id && session.pages.length > 0) {
+      activatePage(session, pickFallbackPage(session, tracked)).catch(() => {
+        // Context is closing (session stop)
+      });
+    }
+  });
+
+  return tracked;
+}
+
+/**
+ * Find a tracked page by id (throws PAGE_NOT_FOUND)
+ */
+export function findPage(session: SessionState, id: string): TrackedPage {
+  const tracked = session.pages.find((p) => p.id === id);
+  if (!tracked) {
+    throw createError(
+      ErrorCode.PAGE_NOT_FOUND,
+      `No open page with id '${id}'`,
+      {
+        id,
+        openPages: session.pages.map((p) => p.id),
+      },
+    );
+  }
+  return tracked;
+}
+
+/**
+ * Make a page the active one: page and element tools operate on it, and
+ * a fresh CDP session is attached to it (DOM and CSS domains enabled).
+ * The session's emulation overrides are applied to it, and the live style
+ * edits of the previous page are reverted. Returns the reverted edit ids.
+ */
+export async function activatePage(
+  session: SessionState,
+  tracked: TrackedPage,
+): Promise<string[]> {
+  if (session.activePageId === tracked.id && session.page === tracked.page) {
+    return [];
+  }
+
+  // Do not hand out a popup before its redirects are subject to the policy
+  await redirectsBlocked(tracked.page);
+
+  const cdpSession = await session.context.newCDPSession(tracked.page);
+
+  // Enable DOM and CSS domains (DOM must be enabled first)
+  trackStyleSheets(cdpSession);
+  await cdpSession.send("DOM.enable");
+  await cdpSession.send("CSS.enable");
+
+  const previous = session.cdpSession;
+
+  // Style edits can only be reverted through the session that made them
+  const revertedEdits = await revertStyleEdits(session);
+
+  session.page = tracked.page;
+  session.cdpSession = cdpSession;
+  session.activePageId = tracked.id;
+
+  try {
+    await previous.detach();
+  } catch {
+    // Previous page may already be closed
+  }
+
+  await reapplyEmulation(session);
+
+  return revertedEdits;
+}
+
+/**
+ * Pick the page to activate when `closing` goes away: its opener if it is
+ * still open, otherwise the most recently opened page
+ */
+export function pickFallbackPage(
+  session: SessionState,
+  closing: TrackedPage,
+): TrackedPage {
+  const remaining = session.pages.filter((p) => p !== closing);
+  const opener = remaining.find((p) => p.id === closing.openerId);
+  return opener ?? remaining[remaining.length - 1];
+}
+
+/**
+ * Describe a tracked page for tool results
+ */
+export async function describePage(
+  session: SessionState,
+  tracked: TrackedPage,
+): Promise<PageInfo> {
+  // Report where a popup ended up once the policy has checked it
+  await redirectsBlocked(tracked.page);
+
+  let title = "";
+  try {
+    title = await tracked.page.title();
+  } catch {
+    // Page is navigating or closing
+  }
+
+  const info: PageInfo = {
+    id: tracked.id,
+    url: tracked.page.url(),
+    title,
+    active: tracked.id === session.activePageId,
+  };
+
+  if (tracked.openerId) {
+    info.openerId = tracked.openerId;
+  }
+
+  return info;
+}
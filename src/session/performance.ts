@@ -0,0 +1,288 @@
+import type { BrowserContext, CDPSession } from "playwright";
+import type { PerformanceMetricsResult, SessionState } from "../types.js";
+
+/**
+ * CDP sessions with the Performance domain enabled
+ */
+const performanceEnabled = new WeakSet<CDPSession>();
+
+/**
+ * Observe layout shifts, long tasks and interactions in every page of the
+ * context from the start of each navigation. Long tasks and event timing
+ * entries are not buffered by the browser, so they are only seen by an
+ * observer that is already registered.
+ */
+export async function attachPerformanceObservers(
+  context: BrowserContext,
+): Promise<void> {
+  await context.addInitScript(OBSERVE_PERFORMANCE);
+}
+
+/**
+ * Read navigation and paint timing, Core Web Vitals, long tasks and CDP
+ * performance counters for the active page
+ */
+export async function getPerformanceMetrics(
+  session: SessionState,
+): Promise<PerformanceMetricsResult> {
+  const { page, cdpSession } = session;
+
+  const pageMetrics = await page.evaluate<
+    Omit<PerformanceMetricsResult, "counters">
+  >(READ_PERFORMANCE_METRICS);
+
+  if (!performanceEnabled.has(cdpSession)) {
+    await cdpSession.send("Performance.enable");
+    performanceEnabled.add(cdpSession);
+  }
+  const { metrics } = await cdpSession.send("Performance.getMetrics");
+
+  const counters: Record<string, number> = {};
+  for (const metric of metrics) {
+    counters[metric.name] = metric.value;
+  }
+
+  return { ...pageMetrics, counters };
+}
+
+/**
+ * Init script that records performance entries for the top frame on a
+ * hidden global. Elements are recorded as CSS selectors right away, since
+ * they may be gone by the time metrics are read.
+ */
+const OBSERVE_PERFORMANCE = `(() => {
+  const key = Symbol.for("mcp-devtools.performance");
+  if (window !== window.top || window[key]) {
+    return;
+  }
+
+  const MAX_ENTRIES = 500;
+  const state = { lcp: null, shifts: [], longTasks: [], interactions: new Map() };
+  Object.defineProperty(window, key, { value: state });
+
+  const selectorOf = (node) => {
+    let element = node && node.nodeType !== 1 ? node.parentElement : node;
+    const parts = [];
+    for (; element; element = element.parentElement) {
+      if (element.id) {
+        parts.unshift("#" + CSS.escape(element.id));
+        break;
+      }
+      let part = element.localName;
+      const parent = element.parentElement;
+      if (parent) {
+        const sameTag = [...parent.children].filter(
+          (child) => child.localName === element.localName,
+        );
+        if (sameTag.length > 1) {
+          part += ":nth-of-type(" + (sameTag.indexOf(element) + 1) + ")";
+        }
+      }
+      parts.unshift(part);
+    }
+    return parts.length > 0 ? parts.join(" > ") : null;
+  };
+
+  const rect = (r) => ({ x: r.x, y: r.y, width: r.width, height: r.height });
+
+  const push = (list, item) => {
+    list.push(item);
+    if (list.length > MAX_ENTRIES) {
+      list.shift();
+    }
+  };
+
+  const observe = (type, options, callback) => {
+    try {
+      new PerformanceObserver((list) => list.getEntries().forEach(callback))
+        .observe({ type, buffered: true, ...options });
+    } catch {
+      // Entry type not supported
+    }
+  };
+
+  observe("largest-contentful-paint", {}, (entry) => {
+    state.lcp = {
+      time: entry.startTime,
+      size: entry.size,
+      element: selectorOf(entry.element),
+      url: entry.url || null,
+    };
+  });
+
+  observe("layout-shift", {}, (entry) => {
+    push(state.shifts, {
+      time: entry.startTime,
+      value: entry.value,
+      hadRecentInput: entry.hadRecentInput,
+      sources: (entry.sources || []).map((source) => ({
+        element: selectorOf(source.node),
+        previousRect: rect(source.previousRect),
+        currentRect: rect(source.currentRect),
+      })),
+    });
+  });
+
+  observe("longtask", {}, (entry) => {
+    push(state.longTasks, {
+      start: entry.startTime,
+      duration: entry.duration,
+      attribution: entry.name,
+    });
+  });
+
+  const recordInteraction = (entry) => {
+    if (!entry.interactionId) {
+      return;
+    }
+    const existing = state.interactions.get(entry.interactionId);
+    if (existing && existing.duration >= entry.duration) {
+      return;
+    }
+    state.interactions.set(entry.interactionId, {
+      duration: entry.duration,
+      type: entry.name,
+      element: selectorOf(entry.target),
+      time: entry.startTime,
+      inputDelay: entry.processingStart - entry.startTime,
+      processing: entry.processingEnd - entry.processingStart,
+      presentationDelay: entry.startTime + entry.duration - entry.processingEnd,
+    });
+    if (state.interactions.size > MAX_ENTRIES) {
+      state.interactions.delete(state.interactions.keys().next().value);
+    }
+  };
+  observe("event", { durationThreshold: 16 }, recordInteraction);
+  observe("first-input", {}, recordInteraction);
+})();`;
+
+/**
+ * Page expression computing the metrics from the recorded entries and the
+ * navigation and paint timing buffers.
+ *
+ * CLS is the largest session window of shifts without recent input (gaps
+ * under 1s, at most 5s long). INP is the slowest interaction, skipping one
+ * per 50 interactions as outliers.
+ */
+const READ_PERFORMANCE_METRICS = `(() => {
+  const state = window[Symbol.for("mcp-devtools.performance")] || {
+    lcp: null,
+    shifts: [],
+    longTasks: [],
+    interactions: new Map(),
+  };
+  const ms = (value) => Math.round(value * 10) / 10;
+  const result = { url: location.href, paint: {} };
+
+  const nav = performance.getEntriesByType("navigation")[0];
+  if (nav) {
+    result.navigation = {
+      type: nav.type,
+      redirectMs: ms(nav.redirectEnd - nav.redirectStart),
+      dnsMs: ms(nav.domainLookupEnd - nav.domainLookupStart),
+      connectMs: ms(nav.connectEnd - nav.connectStart),
+      ttfbMs: ms(nav.responseStart),
+      responseEndMs: ms(nav.responseEnd),
+      domInteractiveMs: ms(nav.domInteractive),
+      domContentLoadedMs: ms(nav.domContentLoadedEventEnd),
+      loadMs: ms(nav.loadEventEnd),
+      transferSize: nav.transferSize,
+      encodedBodySize: nav.encodedBodySize,
+      decodedBodySize: nav.decodedBodySize,
+    };
+  }
+
+  let fcp = 0;
+  for (const entry of performance.getEntriesByType("paint")) {
+    if (entry.name === "first-paint") {
+      result.paint.firstPaintMs = ms(entry.startTime);
+    } else if (entry.name === "first-contentful-paint") {
+      fcp = entry.startTime;
+      result.paint.firstContentfulPaintMs = ms(fcp);
+    }
+  }
+
+  if (state.lcp) {
+    result.lcp = { timeMs: ms(state.lcp.time), size: state.lcp.size };
+    if (state.lcp.element) {
+      result.lcp.element = state.lcp.element;
+    }
+    if (state.lcp.url) {
+      result.lcp.url = state.lcp.url;
+    }
+  }
+
+  let largest = { value: 0, shifts: [] };
+  let current = { value: 0, shifts: [] };
+  for (const shift of state.shifts) {
+    if (shift.hadRecentInput) {
+      continue;
+    }
+    const first = current.shifts[0];
+    const last = current.shifts[current.shifts.length - 1];
+    if (last && (shift.time - last.time > 1000 || shift.time - first.time > 5000)) {
+      current = { value: 0, shifts: [] };
+    }
+    current.value += shift.value;
+    current.shifts.push(shift);
+    if (current.value > largest.value) {
+      largest = { value: current.value, shifts: [...current.shifts] };
+    }
+  }
+  result.cls = {
+    value: Math.round(largest.value * 10000) / 10000,
+    shifts: largest.shifts.map((shift) => ({
+      timeMs: ms(shift.time),
+      value: Math.round(shift.value * 10000) / 10000,
+      sources: shift.sources.map((source) => {
+        const info = { previousRect: source.previousRect, currentRect: source.currentRect };
+        if (source.element) {
+          info.element = source.element;
+        }
+        return info;
+      }),
+    })),
+  };
+
+  const interactions = [...state.interactions.values()].sort(
+    (a, b) => b.duration - a.duration,
+  );
+  if (interactions.length > 0) {
+    const slowest = interactions[
+      Math.min(Math.floor(interactions.length / 50), interactions.length - 1)
+    ];
+    result.inp = {
+      valueMs: slowest.duration,
+      interactionCount: interactions.length,
+      type: slowest.type,
+      timeMs: ms(slowest.time),
+      inputDelayMs: ms(slowest.inputDelay),
+      processingMs: ms(slowest.processing),
+      presentationDelayMs: ms(slowest.presentationDelay),
+    };
+    if (slowest.element) {
+      result.inp.element = slowest.element;
+    }
+  }
+
+  let totalBlockingTime = 0;
+  let longest = 0;
+  for (const task of state.longTasks) {
+    if (fcp && task.start >= fcp) {
+      totalBlockingTime += Math.max(0, task.duration - 50);
+    }
+    longest = Math.max(longest, task.duration);
+  }
+  result.longTasks = {
+    count: state.longTasks.length,
+    totalBlockingTimeMs: ms(totalBlockingTime),
+    longestMs: ms(longest),
+    recent: state.longTasks.slice(-10).map((task) => ({
+      startMs: ms(task.start),
+      durationMs: ms(task.duration),
+      attribution: task.attribution,
+    })),
+  };
+
+  return result;
+})()`;
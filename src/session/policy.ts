@@ -0,0 +1,361 @@
+import type { BrowserContext, Page, Request, Route } from "playwright";
+import type {
+  BlockedRequest,
+  NavigateParams,
+  ResolvedConfig,
+  SessionState,
+} from "../types.js";
+import { checkOrigin } from "../config.js";
+import { ErrorCode, createError } from "../errors.js";
+
+/**
+ * Maximum number of blocked requests kept in the audit list
+ */
+const MAX_BLOCKED_REQUESTS = 1000;
+
+/**
+ * Redirect interception being set up for each page (see `blockRedirects`)
+ */
+const redirectBlocking = new WeakMap<Page, Promise<void>>();
+
+/**
+ * Why a request was blocked and which policy rule blocked it
+ */
+type PolicyDecision = Pick<
+  BlockedRequest,
+  "reason" | "ruleList" | "matchedRule"
+>;
+
+/**
+ * Enforce `policy.allowedOrigins` and `policy.blockedOrigins` for all
+ * traffic in a browser context.
+ *
+ * Main-frame navigations (from any page, including popups) to disallowed
+ * origins are aborted; subresource requests are aborted too when
+ * `policy.enforceSubresources` is set. Redirects are not intercepted by
+ * Playwright routing, so main-frame redirects to a disallowed origin are
+ * aborted through the CDP Fetch domain of each page.
+ *
+ * Every blocked attempt is appended to `blockedRequests` together with the
+ * rule that decided it.
+ */
+export async function attachPolicyEnforcement(
+  context: BrowserContext,
+  config: ResolvedConfig,
+  blockedRequests: BlockedRequest[],
+): Promise<void> {
+  const { allowedOrigins, blockedOrigins } = config.policy;
+  if (!allowedOrigins?.length && !blockedOrigins?.length) {
+    // Nothing to enforce; avoid routing overhead (routing disables the HTTP cache)
+    return;
+  }
+
+  await context.route("**/*", async (route: Route) => {
+    const request = route.request();
+    const decision = checkRequest(request, config);
+
+    if (!decision) {
+      await route.fallback();
+      return;
+    }
+
+    recordBlockedRequest(blockedRequests, request, decision);
+    await route.abort("blockedbyclient");
+  });
+
+  context.on("page", (page) => {
+    redirectBlocking.set(
+      page,
+      blockRedirects(context, page, config, blockedRequests).catch((err) => {
+        if (!page.isClosed()) {
+          console.error(
+            `Warning: Failed to intercept redirects of ${page.url()}: ${err}`,
+          );
+        }
+      }),
+    );
+  });
+}
+
+/**
+ * Wait until the policy intercepts a page's redirects. Resolves at once
+ * when no policy is enforced.
+ */
+export async function redirectsBlocked(page: Page): Promise<void> {
+  await redirectBlocking.get(page);
+}
+
+/**
+ * Abort main-frame redirects of a page to disallowed origins. Pauses
+ * document requests with `Fetch.enable` on a CDP session of its own;
+ * Chromium chains it with Playwright's interception.
+ *
+ * A popup can follow a redirect before this is set up; if it already
+ * landed on a disallowed origin, that redirect is recorded and the page
+ * is reset to about:blank.
+ */
+async function blockRedirects(
+  context: BrowserContext,
+  page: Page,
+  config: ResolvedConfig,
+  blockedRequests: BlockedRequest[],
+): Promise<void> {
+  const cdpSession = await context.newCDPSession(page);
+  const { frameTree } = await cdpSession.send("Page.getFrameTree");
+  const mainFrameId = frameTree.frame.id;
+
+  cdpSession.on("Fetch.requestPaused", (event) => {
+    const { requestId, request, frameId, redirectedRequestId } = event;
+
+    // First hops go through the policy route
+    const decision =
+      redirectedRequestId && frameId === mainFrameId
+        ? checkUrl(request.url, config)
+        : null;
+
+    if (!decision) {
+      cdpSession.send("Fetch.continueRequest", { requestId }).catch(() => {});
+      return;
+    }
+
+    appendBlockedRequest(blockedRequests, {
+      url: request.url,
+      resourceType: "document",
+      reason: "redirect",
+      ...decision,
+      frameUrl: page.url(),
+      timestamp: Date.now(),
+    });
+    cdpSession
+      .send("Fetch.failRequest", { requestId, errorReason: "BlockedByClient" })
+      .catch(() => {});
+  });
+
+  await cdpSession.send("Fetch.enable", {
+    patterns: [{ resourceType: "Document", requestStage: "Request" }],
+  });
+
+  const landedUrl = page.url();
+  const decision = checkUrl(landedUrl, config);
+  if (decision) {
+    appendBlockedRequest(blockedRequests, {
+      url: landedUrl,
+      resourceType: "document",
+      reason: "redirect",
+      ...decision,
+      frameUrl: landedUrl,
+      timestamp: Date.now(),
+    });
+    await page.goto("about:blank");
+  }
+}
+
+/**
+ * Throw NAVIGATION_BLOCKED_BY_POLICY if the origin policy does not allow
+ * navigating to a URL
+ */
+export function assertNavigationAllowed(
+  url: string,
+  config: ResolvedConfig,
+): void {
+  const originCheck = checkOrigin(url, config.policy);
+  if (!originCheck.allowed) {
+    throw createError(
+      ErrorCode.NAVIGATION_BLOCKED_BY_POLICY,
+      `Navigation to ${url} is blocked by policy`,
+      {
+        url,
+        ruleList: originCheck.ruleList,
+        matchedRule: originCheck.matchedRule,
+        allowedOrigins: config.policy.allowedOrigins,
+        blockedOrigins: config.policy.blockedOrigins,
+      },
+    );
+  }
+}
+
+/**
+ * Navigate a page of the session and return the URL it ends up at.
+ *
+ * The policy aborts main-frame redirects to disallowed origins, which fails
+ * the navigation; that case, and a redirect the policy did not intercept,
+ * reset the page to about:blank and throw NAVIGATION_BLOCKED_BY_POLICY.
+ * Timeouts throw NAVIGATION_TIMEOUT.
+ */
+export async function gotoWithPolicy(
+  session: SessionState,
+  page: Page,
+  url: string,
+  options: { waitUntil: NonNullable<NavigateParams["wait"]> },
+): Promise<string> {
+  const { config } = session;
+
+  // A new page's redirects may not be intercepted yet
+  await redirectsBlocked(page);
+  const blockedBefore = session.blockedRequests.length;
+
+  let finalUrl: string;
+  try {
+    await page.goto(url, {
+      waitUntil: options.waitUntil,
+      timeout: config.timeouts.navigationMs,
+    });
+    finalUrl = page.url();
+  } catch (err) {
+    const redirect = session.blockedRequests
+      .slice(blockedBefore)
+      .find((req) => req.reason === "redirect");
+    if (redirect) {
+      finalUrl = redirect.url;
+    } else if (
+      String(err).includes("Timeout") ||
+      String(err).includes("timeout")
+    ) {
+      throw createError(
+        ErrorCode.NAVIGATION_TIMEOUT,
+        `Navigation to ${url} timed out after ${config.timeouts.navigationMs}ms`,
+        { originalError: String(err) },
+      );
+    } else {
+      throw createError(
+        ErrorCode.UNEXPECTED_ERROR,
+        `Navigation failed: ${err}`,
+        {
+          originalError: String(err),
+        },
+      );
+    }
+  }
+
+  // Check where we ended up, in case a redirect was not intercepted
+  const rule = checkUrl(finalUrl, config);
+  if (rule) {
+    await page.goto("about:blank");
+    throw createError(
+      ErrorCode.NAVIGATION_BLOCKED_BY_POLICY,
+      `Navigation to ${url} redirected to ${finalUrl}, which is blocked by policy. The page was reset to about:blank.`,
+      {
+        url,
+        finalUrl,
+        ...rule,
+        allowedOrigins: config.policy.allowedOrigins,
+        blockedOrigins: config.policy.blockedOrigins,
+      },
+    );
+  }
+
+  return finalUrl;
+}
+
+/**
+ * Check whether a request is blocked by policy.
+ * Returns the kind of blocked request and the rule that blocked it,
+ * or null if it is allowed.
+ */
+export function checkRequest(
+  request: Request,
+  config: ResolvedConfig,
+): PolicyDecision | null {
+  const rule = checkUrl(request.url(), config);
+  if (!rule) {
+    return null;
+  }
+
+  if (isMainFrameNavigation(request)) {
+    return { reason: "navigation", ...rule };
+  }
+
+  return config.policy.enforceSubresources
+    ? { reason: "subresource", ...rule }
+    : null;
+}
+
+/**
+ * Check a URL against the origin policy. Returns the rule that blocks it,
+ * or null if it is allowed.
+ */
+function checkUrl(
+  url: string,
+  config: ResolvedConfig,
+): Omit<PolicyDecision, "reason"> | null {
+  // Only http(s) traffic is subject to the origin policy
+  if (!url.startsWith("http://") && !url.startsWith("https://")) {
+    return null;
+  }
+
+  const { allowed, ruleList, matchedRule } = checkOrigin(url, config.policy);
+  if (allowed) {
+    return null;
+  }
+
+  const rule: Omit<PolicyDecision, "reason"> = {};
+  if (ruleList) {
+    rule.ruleList = ruleList;
+  }
+  if (matchedRule) {
+    rule.matchedRule = matchedRule;
+  }
+  return rule;
+}
+
+/**
+ * Check whether a request navigates the top-level frame of a page
+ */
+function isMainFrameNavigation(request: Request): boolean {
+  if (!request.isNavigationRequest()) {
+    return false;
+  }
+
+  try {
+    return request.frame().parentFrame() === null;
+  } catch {
+    // Service worker requests have no frame
+    return false;
+  }
+}
+
+/**
+ * Append an entry to the blocked requests audit list
+ */
+function recordBlockedRequest(
+  blockedRequests: BlockedRequest[],
+  request: Request,
+  decision: PolicyDecision,
+): void {
+  const entry: BlockedRequest = {
+    url: request.url(),
+    resourceType: request.resourceType(),
+    reason: decision.reason,
+    timestamp: Date.now(),
+  };
+
+  if (decision.ruleList) {
+    entry.ruleList = decision.ruleList;
+  }
+  if (decision.matchedRule) {
+    entry.matchedRule = decision.matchedRule;
+  }
+
+  try {
+    entry.frameUrl = request.frame().url();
+  } catch {
+    // Service worker requests have no frame
+  }
+
+  appendBlockedRequest(blockedRequests, entry);
+}
+
+/**
+ * Append an entry to the bounded audit list
+ */
+function appendBlockedRequest(
+  blockedRequests: BlockedRequest[],
+  entry: BlockedRequest,
+): void {
+  blockedRequests.push(entry);
+
+  // Enforce circular buffer limit
+  if (blockedRequests.length > MAX_BLOCKED_REQUESTS) {
+    blockedRequests.shift(); // Remove oldest entry
+  }
+}
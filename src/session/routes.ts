@@ -0,0 +1,282 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import type { BrowserContext, Route } from "playwright";
+import type {
+  ActiveRoute,
+  RouteAction,
+  RouteInfo,
+  RouteRule,
+  SessionState,
+} from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { checkRequest } from "./policy.js";
+
+/**
+ * Playwright error codes accepted by `route.abort()`
+ */
+export const ABORT_ERROR_CODES = [
+  "aborted",
+  "accessdenied",
+  "addressunreachable",
+  "blockedbyclient",
+  "blockedbyresponse",
+  "connectionaborted",
+  "connectionclosed",
+  "connectionfailed",
+  "connectionrefused",
+  "connectionreset",
+  "internetdisconnected",
+  "namenotresolved",
+  "timedout",
+  "failed",
+];
+
+/**
+ * Per-context counter used to assign stable route ids
+ */
+const routeCounters = new WeakMap<BrowserContext, number>();
+
+/**
+ * Install a request interception rule on the session's browser context.
+ * Rules installed later take precedence; delay and request-header rules
+ * fall back to earlier rules (or the network) once applied.
+ */
+export async function installRoute(
+  session: SessionState,
+  rule: RouteRule,
+): Promise<RouteInfo> {
+  validateRouteRule(rule);
+  const matcher = buildMatcher(rule);
+  const body = loadFulfillBody(rule.action);
+
+  const nextId = (routeCounters.get(session.context) ?? 0) + 1;
+  routeCounters.set(session.context, nextId);
+
+  const info: RouteInfo = {
+    id: `route-${nextId}`,
+    url: rule.url,
+    urlType: rule.urlType ?? "glob",
+    action: rule.action,
+    hitCount: 0,
+  };
+
+  // Playwright does not catch errors thrown by route handlers, so a failed
+  // upstream fetch or a page that closed mid-request must not escape
+  const handler = async (route: Route) => {
+    // Rules run before the policy route (installed first), so pass requests
+    // it blocks on to it instead of fulfilling them
+    if (checkRequest(route.request(), session.config)) {
+      await route.fallback().catch(() => {});
+      return;
+    }
+
+    info.hitCount++;
+    try {
+      await applyRouteAction(route, rule.action, body);
+    } catch (err) {
+      info.lastError = String(err);
+      await route.abort("failed").catch(() => {});
+    }
+  };
+
+  await session.context.route(matcher, handler);
+  session.routes.push({ info, matcher, handler });
+
+  return info;
+}
+
+/**
+ * Remove installed rules by id (or all rules). Returns the removed ids.
+ */
+export async function removeRoutes(
+  session: SessionState,
+  ids: string[] | "all",
+): Promise<string[]> {
+  let toRemove: ActiveRoute[];
+
+  if (ids === "all") {
+    toRemove = [...session.routes];
+  } else {
+    toRemove = [];
+    for (const id of ids) {
+      const active = session.routes.find((r) => r.info.id === id);
+      if (!active) {
+        throw createError(
+          ErrorCode.ROUTE_NOT_FOUND,
+          `No route with id '${id}'`,
+          { id, activeRoutes: session.routes.map((r) => r.info.id) },
+        );
+      }
+      toRemove.push(active);
+    }
+  }
+
+  for (const active of toRemove) {
+    await session.context.unroute(active.matcher, active.handler);
+    session.routes.splice(session.routes.indexOf(active), 1);
+  }
+
+  return toRemove.map((r) => r.info.id);
+}
+
+/**
+ * Validate the shape of a rule before installing it
+ */
+function validateRouteRule(rule: RouteRule): void {
+  const fail = (message: string) => {
+    throw createError(ErrorCode.UNEXPECTED_ERROR, message, { rule });
+  };
+
+  if (!rule.url) {
+    fail("Route rule requires a url pattern");
+  }
+
+  switch (rule.action?.type) {
+    case "fulfill":
+      if (rule.action.body !== undefined && rule.action.bodyPath) {
+        fail("Fulfill action accepts either body or bodyPath, not both");
+      }
+      break;
+    case "abort":
+      if (
+        rule.action.errorCode &&
+        !ABORT_ERROR_CODES.includes(rule.action.errorCode)
+      ) {
+        fail(
+          `Unknown abort error code '${rule.action.errorCode}'. Expected one of: ${ABORT_ERROR_CODES.join(", ")}`,
+        );
+      }
+      break;
+    case "delay":
+      if (typeof rule.action.delayMs !== "number" || rule.action.delayMs < 0) {
+        fail("Delay action requires a non-negative delayMs");
+      }
+      break;
+    case "modifyHeaders":
+      if (!rule.action.requestHeaders && !rule.action.responseHeaders) {
+        fail(
+          "modifyHeaders action requires requestHeaders and/or responseHeaders",
+        );
+      }
+      break;
+    default:
+      fail(
+        "Route rule requires an action of type fulfill, abort, delay, or modifyHeaders",
+      );
+  }
+}
+
+/**
+ * Build the Playwright URL matcher for a rule
+ */
+function buildMatcher(rule: RouteRule): string | RegExp {
+  if (rule.urlType !== "regex") {
+    return rule.url;
+  }
+
+  try {
+    return new RegExp(rule.url);
+  } catch (err) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Invalid route URL pattern: ${rule.url}`,
+      { originalError: String(err) },
+    );
+  }
+}
+
+/**
+ * Read the body for a fulfill action up front so a missing file is
+ * reported when the rule is installed rather than when a request matches
+ */
+function loadFulfillBody(action: RouteAction): string | Buffer | undefined {
+  if (action.type !== "fulfill") {
+    return undefined;
+  }
+
+  if (action.bodyPath) {
+    try {
+      return readFileSync(resolve(action.bodyPath));
+    } catch (err) {
+      throw createError(
+        ErrorCode.UNEXPECTED_ERROR,
+        `Failed to read route body file: ${action.bodyPath}`,
+        { originalError: String(err) },
+      );
+    }
+  }
+
+  return action.body;
+}
+
+/**
+ * Apply a rule's action to an intercepted request
+ */
+async function applyRouteAction(
+  route: Route,
+  action: RouteAction,
+  body: string | Buffer | undefined,
+): Promise<void> {
+  switch (action.type) {
+    case "fulfill":
+      await route.fulfill({
+        status: action.status ?? 200,
+        headers: action.headers,
+        contentType: action.contentType,
+        body,
+      });
+      break;
+
+    case "abort":
+      await route.abort(action.errorCode ?? "failed");
+      break;
+
+    case "delay":
+      await new Promise((resolve) => setTimeout(resolve, action.delayMs));
+      await route.fallback();
+      break;
+
+    case "modifyHeaders": {
+      const requestHeaders = action.requestHeaders
+        ? mergeHeaders(route.request().headers(), action.requestHeaders)
+        : undefined;
+
+      if (!action.responseHeaders) {
+        await route.fallback({ headers: requestHeaders });
+        break;
+      }
+
+      const response = await route.fetch({ headers: requestHeaders });
+      await route.fulfill({
+        response,
+        headers: mergeHeaders(response.headers(), action.responseHeaders),
+      });
+      break;
+    }
+
+    default:
+      // TypeScript should prevent this, but handle it at runtime
+      await route.fallback();
+  }
+}
+
+/**
+ * Apply header changes; a null value removes the header
+ */
+function mergeHeaders(
+  base: Record<string, string>,
+  changes: Record<string, string | null>,
+): Record<string, string> {
+  const result = { ...base };
+
+  for (const [name, value] of Object.entries(changes)) {
+    const key = name.toLowerCase();
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
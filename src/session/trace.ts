@@ -0,0 +1,614 @@
+import { writeFile } from "fs/promises";
+import type { CDPSession, Page } from "playwright";
+import type {
+  HotFunction,
+  PerformanceStartTraceParams,
+  PerformanceStopTraceResult,
+  SessionState,
+  TraceTask,
+} from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+
+/**
+ * Trace categories recorded by default, as used by the DevTools
+ * Performance panel. `disabled-by-default-v8.cpu_profiler` adds the JS
+ * samples the hot functions are computed from.
+ */
+const DEFAULT_TRACE_CATEGORIES = [
+  "-*",
+  "devtools.timeline",
+  "v8.execute",
+  "disabled-by-default-devtools.timeline",
+  "disabled-by-default-devtools.timeline.frame",
+  "toplevel",
+  "blink.console",
+  "blink.user_timing",
+  "latencyInfo",
+  "disabled-by-default-devtools.timeline.stack",
+  "disabled-by-default-v8.cpu_profiler",
+];
+
+/**
+ * How long to wait for the browser to hand over a stopped trace
+ */
+const TRACE_COMPLETE_TIMEOUT_MS = 30_000;
+
+/**
+ * Tasks at least this long are reported, like long tasks in the page
+ */
+const LONG_TASK_US = 50_000;
+
+/**
+ * Trace events and functions listed per long task
+ */
+const BREAKDOWN_SIZE = 3;
+
+/**
+ * Start recording a performance trace (Tracing domain) or a JS CPU profile
+ * (Profiler domain) of the active page. Recording goes through its own CDP
+ * session, so selecting another page does not interrupt it.
+ */
+export async function startCapture(
+  session: SessionState,
+  params: PerformanceStartTraceParams,
+): Promise<"trace" | "profile"> {
+  const mode = params.mode ?? "trace";
+
+  if (session.performanceCapture) {
+    throw createError(
+      ErrorCode.TRACE_IN_PROGRESS,
+      `A ${session.performanceCapture.mode} is already being recorded; stop it with devtools.performance.stopTrace first`,
+      { mode: session.performanceCapture.mode },
+    );
+  }
+
+  if (
+    params.samplingIntervalUs !== undefined &&
+    !(
+      Number.isInteger(params.samplingIntervalUs) &&
+      params.samplingIntervalUs > 0
+    )
+  ) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "samplingIntervalUs must be a positive integer",
+      { samplingIntervalUs: params.samplingIntervalUs },
+    );
+  }
+
+  const cdpSession = await session.context.newCDPSession(session.page);
+
+  try {
+    if (mode === "trace") {
+      const categories = params.categories ?? DEFAULT_TRACE_CATEGORIES;
+      await cdpSession.send("Tracing.start", {
+        transferMode: "ReturnAsStream",
+        traceConfig: {
+          includedCategories: categories.filter((c) => !c.startsWith("-")),
+          excludedCategories: categories
+            .filter((c) => c.startsWith("-"))
+            .map((c) => c.slice(1)),
+        },
+      });
+    } else {
+      await cdpSession.send("Profiler.enable");
+      if (params.samplingIntervalUs) {
+        await cdpSession.send("Profiler.setSamplingInterval", {
+          interval: params.samplingIntervalUs,
+        });
+      }
+      await cdpSession.send("Profiler.start");
+    }
+  } catch (err) {
+    await cdpSession.detach().catch(() => {});
+    throw err;
+  }
+
+  session.performanceCapture = {
+    mode,
+    cdpSession,
+    page: session.page,
+    startedAt: Date.now(),
+  };
+  return mode;
+}
+
+/**
+ * Stop the recording, write it to `path` and summarize it
+ */
+export async function stopCapture(
+  session: SessionState,
+  path: string,
+  topN: number,
+): Promise<PerformanceStopTraceResult> {
+  const capture = session.performanceCapture;
+  if (!capture) {
+    throw createError(
+      ErrorCode.TRACE_NOT_STARTED,
+      "No trace is being recorded; start one with devtools.performance.startTrace",
+    );
+  }
+
+  // The recording is over even if reading it fails
+  session.performanceCapture = undefined;
+  const { mode, cdpSession, page } = capture;
+
+  try {
+    let summary: Pick<PerformanceStopTraceResult, "hotFunctions" | "longTasks">;
+
+    if (mode === "trace") {
+      const text = await endTracing(cdpSession, page);
+      await writeFile(path, text);
+      summary = summarizeTrace(JSON.parse(text), topN);
+    } else {
+      const { profile } = await cdpSession.send("Profiler.stop");
+      await cdpSession.send("Profiler.disable");
+      await writeFile(path, JSON.stringify(profile));
+      summary = summarizeCpuProfile(profile, topN);
+    }
+
+    return {
+      mode,
+      tracePath: path,
+      durationMs: Date.now() - capture.startedAt,
+      ...summary,
+    };
+  } finally {
+    await cdpSession.detach().catch(() => {});
+  }
+}
+
+/**
+ * End tracing and read the trace from its stream. Fails if the trace is not
+ * handed over in time, or the recorded page closes or crashes first.
+ */
+async function endTracing(cdpSession: CDPSession, page: Page): Promise<string> {
+  let stopWaiting = () => {};
+  const complete = new Promise<{ stream?: string }>((resolve, reject) => {
+    const timer = setTimeout(
+      () =>
+        reject(
+          createError(
+            ErrorCode.QUERY_TIMEOUT,
+            `The browser did not return the trace within ${TRACE_COMPLETE_TIMEOUT_MS}ms; the recording was discarded`,
+            { timeoutMs: TRACE_COMPLETE_TIMEOUT_MS },
+          ),
+        ),
+      TRACE_COMPLETE_TIMEOUT_MS,
+    );
+    const onPageGone = () =>
+      reject(
+        createError(
+          ErrorCode.UNEXPECTED_ERROR,
+          "The recorded page closed or crashed before the trace was returned; the recording was discarded",
+        ),
+      );
+
+    cdpSession.once("Tracing.tracingComplete", resolve);
+    page.once("close", onPageGone);
+    page.once("crash", onPageGone);
+    stopWaiting = () => {
+      clearTimeout(timer);
+      cdpSession.off("Tracing.tracingComplete", resolve);
+      page.off("close", onPageGone);
+      page.off("crash", onPageGone);
+    };
+  });
+
+  let stream: string | undefined;
+  try {
+    await cdpSession.send("Tracing.end");
+    ({ stream } = await complete);
+  } finally {
+    stopWaiting();
+  }
+  if (!stream) {
+    throw new Error("Trace was not returned as a stream");
+  }
+
+  const chunks: string[] = [];
+  for (;;) {
+    const { data, eof, base64Encoded } = await cdpSession.send("IO.read", {
+      handle: stream,
+    });
+    chunks.push(
+      base64Encoded ? Buffer.from(data, "base64").toString("utf-8") : data,
+    );
+    if (eof) {
+      break;
+    }
+  }
+  await cdpSession.send("IO.close", { handle: stream });
+
+  return chunks.join("");
+}
+
+/**
+ * Subset of a trace event (https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU)
+ */
+interface TraceEvent {
+  name: string;
+  ph: string;
+  pid: number;
+  tid: number;
+  ts: number; // Microseconds
+  dur?: number;
+  id?: string;
+  args?: {
+    name?: string;
+    data?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Call tree node of a sampled CPU profile, linked to its parent
+ */
+interface ProfileNode {
+  id: number;
+  parent?: number;
+  callFrame: {
+    functionName: string;
+    url?: string;
+    lineNumber?: number;
+    columnNumber?: number;
+  };
+}
+
+/**
+ * Sampled CPU profile, from `Profiler.stop` or assembled from the
+ * `ProfileChunk` events of a trace. Times are microseconds.
+ */
+interface SampledProfile {
+  nodes: Map<number, ProfileNode>;
+  samples: number[];
+  timeDeltas: number[];
+  startTime: number;
+}
+
+/**
+ * Summarize a trace: hot functions from its CPU profile samples and the
+ * longest tasks on the page's renderer main thread
+ */
+function summarizeTrace(
+  trace: TraceEvent[] | { traceEvents: TraceEvent[] },
+  topN: number,
+): Pick<PerformanceStopTraceResult, "hotFunctions" | "longTasks"> {
+  const events = Array.isArray(trace) ? trace : trace.traceEvents;
+
+  // Renderer main threads, limited to the page's process when known
+  const pagePids = new Set<number>();
+  let startTs = Infinity;
+  for (const event of events) {
+    if (event.name === "TracingStartedInBrowser") {
+      startTs = Math.min(startTs, event.ts);
+      const frames = (event.args?.data?.frames ?? []) as {
+        processId?: number;
+        parent?: string;
+      }[];
+      for (const frame of frames) {
+        if (!frame.parent && frame.processId) {
+          pagePids.add(frame.processId);
+        }
+      }
+    }
+  }
+
+  const mainThreads = new Set<string>();
+  for (const event of events) {
+    if (
+      event.ph === "M" &&
+      event.name === "thread_name" &&
+      event.args?.name === "CrRendererMain" &&
+      (pagePids.size === 0 || pagePids.has(event.pid))
+    ) {
+      mainThreads.add(`${event.pid}:${event.tid}`);
+    }
+    if (event.ts > 0 && event.ph !== "M") {
+      startTs = Math.min(startTs, event.ts);
+    }
+  }
+
+  // Complete events on the main threads, in order
+  const threadEvents = events
+    .filter(
+      (event) =>
+        event.ph === "X" && mainThreads.has(`${event.pid}:${event.tid}`),
+    )
+    .sort((a, b) => a.ts - b.ts);
+
+  // Top-level tasks; newer Chromium nests RunTask in
+  // ThreadControllerImpl::RunTask
+  const tasks: TraceEvent[] = [];
+  const taskEnds = new Map<string, number>();
+  for (const event of threadEvents) {
+    if (
+      event.name !== "RunTask" &&
+      event.name !== "ThreadControllerImpl::RunTask"
+    ) {
+      continue;
+    }
+    const thread = `${event.pid}:${event.tid}`;
+    if (event.ts < (taskEnds.get(thread) ?? 0)) {
+      continue;
+    }
+    taskEnds.set(thread, event.ts + (event.dur ?? 0));
+    if ((event.dur ?? 0) >= LONG_TASK_US) {
+      tasks.push(event);
+    }
+  }
+
+  const longTasks = tasks
+    .sort((a, b) => (b.dur ?? 0) - (a.dur ?? 0))
+    .slice(0, topN)
+    .map((task) => {
+      const end = task.ts + (task.dur ?? 0);
+      const inside = threadEvents
+        .filter(
+          (event) =>
+            event !== task &&
+            event.pid === task.pid &&
+            event.tid === task.tid &&
+            event.ts >= task.ts &&
+            event.ts + (event.dur ?? 0) <= end &&
+            !event.name.endsWith("RunTask"),
+        )
+        .sort((a, b) => (b.dur ?? 0) - (a.dur ?? 0))
+        .slice(0, BREAKDOWN_SIZE);
+
+      return {
+        startMs: toMs(task.ts - startTs),
+        durationMs: toMs(task.dur ?? 0),
+        breakdown: inside.map((event) => ({
+          name: describeTraceEvent(event),
+          durationMs: toMs(event.dur ?? 0),
+        })),
+      };
+    });
+
+  // CPU profiles are sent in chunks per profile id
+  const profiles = new Map<string, SampledProfile>();
+  for (const event of events) {
+    if (
+      (event.name !== "Profile" && event.name !== "ProfileChunk") ||
+      (pagePids.size > 0 && !pagePids.has(event.pid))
+    ) {
+      continue;
+    }
+
+    const key = `${event.pid}:${event.id}`;
+    let profile = profiles.get(key);
+    if (!profile) {
+      profile = { nodes: new Map(), samples: [], timeDeltas: [], startTime: 0 };
+      profiles.set(key, profile);
+    }
+
+    const data = event.args?.data ?? {};
+    if (event.name === "Profile") {
+      profile.startTime = (data.startTime as number | undefined) ?? event.ts;
+      continue;
+    }
+
+    const cpuProfile = (data.cpuProfile ?? {}) as {
+      nodes?: ProfileNode[];
+      samples?: number[];
+    };
+    for (const node of cpuProfile.nodes ?? []) {
+      profile.nodes.set(node.id, node);
+    }
+    profile.samples.push(...(cpuProfile.samples ?? []));
+    profile.timeDeltas.push(...((data.timeDeltas as number[]) ?? []));
+  }
+
+  return {
+    hotFunctions: findHotFunctions(
+      [...profiles.values()].map(wholeProfile),
+      topN,
+    ),
+    longTasks,
+  };
+}
+
+/**
+ * Summarize a JS CPU profile. It has no task boundaries, so long tasks are
+ * the stretches of samples without idle time in between.
+ */
+function summarizeCpuProfile(
+  cpuProfile: {
+    nodes: (ProfileNode & { children?: number[] })[];
+    samples?: number[];
+    timeDeltas?: number[];
+    startTime: number;
+  },
+  topN: number,
+): Pick<PerformanceStopTraceResult, "hotFunctions" | "longTasks"> {
+  // Profiler.stop links nodes to their children; link them to parents
+  const nodes = new Map<number, ProfileNode>();
+  for (const node of cpuProfile.nodes) {
+    nodes.set(node.id, { id: node.id, callFrame: node.callFrame });
+  }
+  for (const node of cpuProfile.nodes) {
+    for (const child of node.children ?? []) {
+      const childNode = nodes.get(child);
+      if (childNode) {
+        childNode.parent = node.id;
+      }
+    }
+  }
+
+  const profile: SampledProfile = {
+    nodes,
+    samples: cpuProfile.samples ?? [],
+    timeDeltas: cpuProfile.timeDeltas ?? [],
+    startTime: cpuProfile.startTime,
+  };
+
+  // Busy stretches between idle samples
+  const tasks: TraceTask[] = [];
+  const timestamps = sampleTimestamps(profile);
+  let runStart = -1;
+
+  for (let i = 0; i <= profile.samples.length; i++) {
+    const idle =
+      i === profile.samples.length ||
+      nodes.get(profile.samples[i])?.callFrame.functionName === "(idle)";
+
+    if (!idle && runStart === -1) {
+      runStart = i;
+    } else if (idle && runStart !== -1) {
+      const start = timestamps[runStart];
+      const end = timestamps[i] ?? timestamps[i - 1];
+      if (end - start >= LONG_TASK_US) {
+        tasks.push({
+          startMs: toMs(start - profile.startTime),
+          durationMs: toMs(end - start),
+          breakdown: findHotFunctions(
+            [{ profile, from: runStart, to: i }],
+            BREAKDOWN_SIZE,
+          ).map((fn) => ({ name: fn.functionName, durationMs: fn.selfMs })),
+        });
+      }
+      runStart = -1;
+    }
+  }
+
+  return {
+    hotFunctions: findHotFunctions([wholeProfile(profile)], topN),
+    longTasks: tasks.sort((a, b) => b.durationMs - a.durationMs).slice(0, topN),
+  };
+}
+
+/**
+ * Samples `from` (inclusive) `to` (exclusive) of a profile
+ */
+interface SampleRange {
+  profile: SampledProfile;
+  from: number;
+  to: number;
+}
+
+function wholeProfile(profile: SampledProfile): SampleRange {
+  return { profile, from: 0, to: profile.samples.length };
+}
+
+/**
+ * Aggregate self and total time per function over ranges of samples,
+ * leaving out idle time. A sample lasts until the next one.
+ */
+function findHotFunctions(ranges: SampleRange[], topN: number): HotFunction[] {
+  const functions = new Map<string, HotFunction>();
+
+  const count = (
+    profile: SampledProfile,
+    timestamps: number[],
+    i: number,
+  ): void => {
+    const duration = (timestamps[i + 1] ?? timestamps[i]) - timestamps[i];
+    let node = profile.nodes.get(profile.samples[i]);
+    if (
+      !duration ||
+      !node ||
+      IGNORED_FUNCTIONS.has(node.callFrame.functionName)
+    ) {
+      return;
+    }
+
+    // Recursive functions count once towards their total time
+    const seen = new Set<string>();
+    let self = true;
+    while (node) {
+      if (!IGNORED_FUNCTIONS.has(node.callFrame.functionName)) {
+        const key = functionKey(node);
+        let fn = functions.get(key);
+        if (!fn) {
+          fn = toHotFunction(node);
+          functions.set(key, fn);
+        }
+        if (self) {
+          fn.selfMs += duration;
+        }
+        if (!seen.has(key)) {
+          fn.totalMs += duration;
+          seen.add(key);
+        }
+        self = false;
+      }
+      node =
+        node.parent !== undefined ? profile.nodes.get(node.parent) : undefined;
+    }
+  };
+
+  for (const { profile, from, to } of ranges) {
+    const timestamps = sampleTimestamps(profile);
+    for (let i = from; i < to; i++) {
+      count(profile, timestamps, i);
+    }
+  }
+
+  return [...functions.values()]
+    .sort((a, b) => b.selfMs - a.selfMs)
+    .slice(0, topN)
+    .map((fn) => ({
+      ...fn,
+      selfMs: toMs(fn.selfMs),
+      totalMs: toMs(fn.totalMs),
+    }));
+}
+
+/**
+ * Call tree entries that are not JS functions
+ */
+const IGNORED_FUNCTIONS = new Set(["(root)", "(idle)"]);
+
+/**
+ * Absolute time of each sample, in microseconds
+ */
+function sampleTimestamps(profile: SampledProfile): number[] {
+  const timestamps: number[] = [];
+  let time = profile.startTime;
+  for (let i = 0; i < profile.samples.length; i++) {
+    time += profile.timeDeltas[i] ?? 0;
+    timestamps.push(time);
+  }
+  return timestamps;
+}
+
+function functionKey(node: ProfileNode): string {
+  const { functionName, url, lineNumber, columnNumber } = node.callFrame;
+  return `${functionName}@${url}:${lineNumber}:${columnNumber}`;
+}
+
+function toHotFunction(node: ProfileNode): HotFunction {
+  const { functionName, url, lineNumber, columnNumber } = node.callFrame;
+  const fn: HotFunction = {
+    functionName: functionName || "(anonymous)",
+    selfMs: 0,
+    totalMs: 0,
+  };
+  if (url) {
+    fn.url = url;
+  }
+  if (lineNumber !== undefined && lineNumber >= 0) {
+    fn.line = lineNumber;
+    fn.column = columnNumber;
+  }
+  return fn;
+}
+
+/**
+ * Name a trace event with the detail that identifies it, e.g.
+ * `EventDispatch (click)` or `FunctionCall (onSubmit)`
+ */
+function describeTraceEvent(event: TraceEvent): string {
+  const data = event.args?.data ?? {};
+  const detail = data.type ?? data.functionName ?? data.url;
+  return typeof detail === "string" && detail
+    ? `${event.name} (${detail})`
+    : event.name;
+}
+
+/**
+ * Microseconds to milliseconds, to 0.1ms
+ */
+function toMs(us: number): number {
+  return Math.round(us / 100) / 10;
+}
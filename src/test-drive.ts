@@ -69,7 +69,7 @@ export async function runTestDrive(
 
   // Keep process alive until interrupted
   async function shutdown() {
-    await sessionManager.stop();
+    await sessionManager.stopAll();
     process.exit(0);
   }
 
@@ -0,0 +1,75 @@
+import type {
+  CssForceStateParams,
+  CssForceStateResult,
+  FrameDocument,
+} from "../types.js";
+import { ErrorCode, createError, isDevToolsError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { resolveFrameDocument } from "../cdp/frames.js";
+import { resolveTargetNodeIds } from "../cdp/targets.js";
+import {
+  assertStatesPersist,
+  forcePseudoStates,
+} from "../cdp/pseudo-states.js";
+
+/**
+ * Force pseudo-class states (e.g. :hover) on elements until cleared with an
+ * empty list of states
+ */
+export async function cssForceState(
+  params: CssForceStateParams,
+): Promise<CssForceStateResult> {
+  const session = sessionManager.getSession(params.session);
+  const maxResults = Math.min(params.maxResults ?? 10, 50); // Cap at 50
+
+  let frameDocument: FrameDocument | undefined;
+
+  try {
+    // Resolve the document to search (the top document or an iframe's)
+    frameDocument = await resolveFrameDocument(session, params.target.frame);
+    assertStatesPersist(session, frameDocument);
+
+    // Resolve element targets
+    const nodeIds = await resolveTargetNodeIds(
+      session,
+      frameDocument,
+      params.target,
+      maxResults,
+    );
+
+    if (nodeIds.length === 0) {
+      throw createError(
+        ErrorCode.ELEMENT_NOT_FOUND,
+        `No elements found matching target`,
+        { target: params.target },
+      );
+    }
+
+    await forcePseudoStates(
+      frameDocument.cdpSession,
+      nodeIds,
+      params.states,
+      true,
+    );
+
+    // Touch session to reset idle timer
+    sessionManager.touchSession(params.session);
+
+    return {
+      matchCount: nodeIds.length,
+      states: params.states,
+    };
+  } catch (err) {
+    if (isDevToolsError(err)) {
+      throw err;
+    }
+
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to force element state: ${err}`,
+      { originalError: String(err) },
+    );
+  } finally {
+    await frameDocument?.detach();
+  }
+}
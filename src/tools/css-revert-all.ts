@@ -0,0 +1,19 @@
+import type { CssRevertAllParams, CssRevertAllResult } from "../types.js";
+import { sessionManager } from "../session/manager.js";
+import { revertStyleEdits } from "../cdp/style-edits.js";
+
+/**
+ * Revert every live style edit of the current session
+ */
+export async function cssRevertAll(
+  params: CssRevertAllParams,
+): Promise<CssRevertAllResult> {
+  const session = sessionManager.getSession(params.session);
+
+  const revertedCount = (await revertStyleEdits(session)).length;
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  return { revertedCount };
+}
@@ -0,0 +1,130 @@
+import type {
+  CDPStyle,
+  CssSetPropertyParams,
+  CssSetPropertyResult,
+  FrameDocument,
+} from "../types.js";
+import { ErrorCode, createError, isDevToolsError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { resolveFrameDocument } from "../cdp/frames.js";
+import { resolveTargetNodeIds } from "../cdp/targets.js";
+import { describeElement, getPseudoOrigin } from "../cdp/dom.js";
+import { getComputedPropertyValue, getStyleSheetHeader } from "../cdp/css.js";
+import {
+  applyStyleEdit,
+  assertEditsRevertible,
+  findRuleStyle,
+  formatDeclaration,
+  getInlineStyle,
+} from "../cdp/style-edits.js";
+
+/**
+ * Set a CSS property live, on a matched rule or as an inline style, and
+ * return the new computed values. Edits stay until reverted with
+ * `devtools.css.revertAll`, the page navigates or the session stops.
+ */
+export async function cssSetProperty(
+  params: CssSetPropertyParams,
+): Promise<CssSetPropertyResult> {
+  const session = sessionManager.getSession(params.session);
+  const maxResults = Math.min(params.maxResults ?? 10, 50); // Cap at 50
+
+  let frameDocument: FrameDocument | undefined;
+
+  try {
+    const declaration = formatDeclaration(
+      params.property,
+      params.value,
+      params.important,
+    );
+
+    // Resolve the document to search (the top document or an iframe's)
+    frameDocument = await resolveFrameDocument(session, params.target.frame);
+    assertEditsRevertible(session, frameDocument);
+    const { cdpSession } = frameDocument;
+
+    // Resolve element targets
+    const nodeIds = await resolveTargetNodeIds(
+      session,
+      frameDocument,
+      params.target,
+      maxResults,
+    );
+
+    if (nodeIds.length === 0) {
+      throw createError(
+        ErrorCode.ELEMENT_NOT_FOUND,
+        `No elements found matching target`,
+        { target: params.target },
+      );
+    }
+
+    // A rule is edited once (it applies to every element it matches);
+    // inline styles are edited on each element
+    const styles: CDPStyle[] = [];
+    let rule: CssSetPropertyResult["rule"];
+
+    if (params.rule) {
+      const style = await findRuleStyle(cdpSession, nodeIds[0], params.rule);
+      styles.push(style);
+
+      const stylesheetUrl = getStyleSheetHeader(
+        cdpSession,
+        style.styleSheetId!,
+      )?.sourceURL;
+      rule = {
+        selector: params.rule.selector,
+        ...(stylesheetUrl && { stylesheetUrl }),
+      };
+    } else {
+      for (const nodeId of nodeIds) {
+        if (getPseudoOrigin(cdpSession, nodeId)) {
+          throw createError(
+            ErrorCode.UNEXPECTED_ERROR,
+            "Pseudo-elements have no inline style; give a rule to edit",
+            { target: params.target },
+          );
+        }
+        styles.push(await getInlineStyle(cdpSession, nodeId));
+      }
+    }
+
+    const edit = await applyStyleEdit(session, cdpSession, styles, declaration);
+
+    // Read back the computed values
+    const results: CssSetPropertyResult["results"] = [];
+    for (const nodeId of nodeIds) {
+      results.push({
+        element: await describeElement(cdpSession, nodeId),
+        value: await getComputedPropertyValue(
+          cdpSession,
+          nodeId,
+          params.property.trim(),
+        ),
+      });
+    }
+
+    // Touch session to reset idle timer
+    sessionManager.touchSession(params.session);
+
+    return {
+      id: edit.id,
+      declaration,
+      ...(rule && { rule }),
+      results,
+      editCount: session.styleEdits.length,
+    };
+  } catch (err) {
+    if (isDevToolsError(err)) {
+      throw err;
+    }
+
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to set CSS property: ${err}`,
+      { originalError: String(err) },
+    );
+  } finally {
+    await frameDocument?.detach();
+  }
+}
@@ -0,0 +1,28 @@
+import type { EmulationGetParams, EmulationState } from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { getEmulationState } from "../session/emulation.js";
+
+/**
+ * Report the emulation in effect on the active page
+ */
+export async function emulationGet(
+  params: EmulationGetParams,
+): Promise<EmulationState> {
+  const session = sessionManager.getSession(params.session);
+
+  try {
+    const state = await getEmulationState(session);
+
+    // Touch session to reset idle timer
+    sessionManager.touchSession(params.session);
+
+    return state;
+  } catch (err) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to read emulation state: ${err}`,
+      { originalError: String(err) },
+    );
+  }
+}
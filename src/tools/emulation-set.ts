@@ -0,0 +1,33 @@
+import type { EmulationSetParams, EmulationState } from "../types.js";
+import { ErrorCode, createError, isDevToolsError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { getEmulationState, setEmulation } from "../session/emulation.js";
+
+/**
+ * Change viewport, media features, locale, time zone or user agent
+ * emulation on the live session
+ */
+export async function emulationSet(
+  params: EmulationSetParams,
+): Promise<EmulationState> {
+  const session = sessionManager.getSession(params.session);
+
+  try {
+    await setEmulation(session, params);
+
+    // Touch session to reset idle timer
+    sessionManager.touchSession(params.session);
+
+    return await getEmulationState(session);
+  } catch (err) {
+    if (isDevToolsError(err)) {
+      throw err;
+    }
+
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to set emulation: ${err}`,
+      { originalError: String(err) },
+    );
+  }
+}
@@ -4,6 +4,7 @@ import type {
 } from "../types.js";
 import { ErrorCode, createError } from "../errors.js";
 import { sessionManager } from "../session/manager.js";
+import { resolveFrame } from "../cdp/frames.js";
 import { tmpdir } from "os";
 import { writeFileSync } from "fs";
 import { join } from "path";
@@ -16,12 +17,15 @@ import { join } from "path";
 export async function evaluateJavaScript(
   params: EvaluateJavaScriptParams,
 ): Promise<EvaluateJavaScriptResult> {
-  const session = sessionManager.getSession();
+  const session = sessionManager.getSession(params.session);
+
+  // Evaluate in the page's main frame unless a frame chain is given
+  const frame = await resolveFrame(session.page, params.frame);
 
   try {
     // Execute the code in the browser context
     // The code is wrapped in an async function to support await
-    const result = await session.page.evaluate(async (code: string) => {
+    const result = await frame.evaluate(async (code: string) => {
       // Use indirect eval to execute in global scope
       const AsyncFunction = async function () {}
         .constructor as FunctionConstructor;
@@ -30,7 +34,7 @@ export async function evaluateJavaScript(
     }, params.code);
 
     // Touch session to reset idle timer
-    sessionManager.touchSession();
+    sessionManager.touchSession(params.session);
 
     // If saveToFile is true, write result to a file instead of returning it directly
     if (params.saveToFile) {
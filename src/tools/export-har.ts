@@ -0,0 +1,42 @@
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import type { ExportHarParams, ExportHarResult } from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { writeHar } from "../session/har.js";
+
+/**
+ * Export the session's captured network traffic as a HAR 1.2 file
+ */
+export async function exportHar(
+  params: ExportHarParams,
+): Promise<ExportHarResult> {
+  const session = sessionManager.getSession(params.session);
+
+  // Generate temp file path unless one was given
+  const harPath = params.path
+    ? resolve(params.path)
+    : join(tmpdir(), `mcp-browser-devtools-${Date.now()}.har`);
+
+  try {
+    const entryCount = await writeHar(
+      session,
+      harPath,
+      params.includeContent ?? true,
+    );
+
+    // Touch session to reset idle timer
+    sessionManager.touchSession(params.session);
+
+    return {
+      harPath,
+      entryCount,
+    };
+  } catch (err) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to export HAR: ${err}`,
+      { originalError: String(err) },
+    );
+  }
+}
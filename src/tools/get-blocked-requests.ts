@@ -0,0 +1,33 @@
+import type {
+  GetBlockedRequestsParams,
+  GetBlockedRequestsResult,
+} from "../types.js";
+import { sessionManager } from "../session/manager.js";
+
+/**
+ * Get requests blocked by the origin policy in the current session
+ */
+export async function getBlockedRequests(
+  params: GetBlockedRequestsParams,
+): Promise<GetBlockedRequestsResult> {
+  const session = sessionManager.getSession(params.session);
+
+  let blockedRequests = session.blockedRequests;
+
+  // Get total before applying limit
+  const totalBlocked = blockedRequests.length;
+
+  // Apply limit if specified
+  if (params.limit && params.limit > 0) {
+    // Get the most recent entries up to the limit
+    blockedRequests = blockedRequests.slice(-params.limit);
+  }
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  return {
+    blockedRequests,
+    totalBlocked,
+  };
+}
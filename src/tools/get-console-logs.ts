@@ -7,7 +7,7 @@ import { sessionManager } from "../session/manager.js";
 export async function getConsoleLogs(
   params: GetConsoleLogsParams,
 ): Promise<GetConsoleLogsResult> {
-  const session = sessionManager.getSession();
+  const session = sessionManager.getSession(params.session);
 
   // Get all messages
   let messages = session.consoleMessages;
@@ -35,7 +35,7 @@ export async function getConsoleLogs(
   }
 
   // Touch session to reset idle timer
-  sessionManager.touchSession();
+  sessionManager.touchSession(params.session);
 
   return {
     messages,
@@ -1,13 +1,28 @@
 import type {
+  FrameDocument,
   GetCssProvenanceParams,
   GetCssProvenanceResult,
   CssProvenanceInfo,
+  CssDeclarationSource,
 } from "../types.js";
-import { ErrorCode, createError } from "../errors.js";
+import type { CDPSession } from "playwright";
+import { ErrorCode, createError, isDevToolsError } from "../errors.js";
 import { sessionManager } from "../session/manager.js";
-import { resolveElementTargets } from "../cdp/dom.js";
-import { getComputedStyles } from "../cdp/css.js";
-import { isShorthand, findWinningDeclaration } from "../cdp/cascade.js";
+import { resolveFrameDocument } from "../cdp/frames.js";
+import { resolveTargetNodeIds } from "../cdp/targets.js";
+import {
+  assertStatesPersist,
+  restorePseudoStates,
+  forcePseudoStates,
+} from "../cdp/pseudo-states.js";
+import { getComputedPropertyValue, getComputedStyles } from "../cdp/css.js";
+import { getLonghands, findWinningDeclaration } from "../cdp/cascade.js";
+import { resolveVariableReferences } from "../cdp/variables.js";
+import { findInactiveDeclarations } from "../cdp/at-rules.js";
+import {
+  createSourceMapResolver,
+  type SourceMapResolver,
+} from "../cdp/source-maps.js";
 
 /**
  * Get CSS provenance for a property
@@ -15,26 +30,21 @@ import { isShorthand, findWinningDeclaration } from "../cdp/cascade.js";
 export async function getCssProvenance(
   params: GetCssProvenanceParams,
 ): Promise<GetCssProvenanceResult> {
-  const session = sessionManager.getSession();
+  const session = sessionManager.getSession(params.session);
   const maxResults = Math.min(params.maxResults ?? 10, 50); // Cap at 50
 
-  // Check if property is a shorthand
-  if (isShorthand(params.property)) {
-    throw createError(
-      ErrorCode.UNEXPECTED_ERROR,
-      `Property '${params.property}' is a CSS shorthand. Please use the longhand property instead.`,
-      {
-        property: params.property,
-        suggestion:
-          "Use specific longhand properties like border-top-width, margin-left, etc.",
-      },
-    );
-  }
+  let frameDocument: FrameDocument | undefined;
+  let forcedNodeIds: number[] = [];
 
   try {
+    // Resolve the document to search (the top document or an iframe's)
+    frameDocument = await resolveFrameDocument(session, params.target.frame);
+    const { cdpSession } = frameDocument;
+
     // Resolve element targets
-    const nodeIds = await resolveElementTargets(
-      session.cdpSession,
+    const nodeIds = await resolveTargetNodeIds(
+      session,
+      frameDocument,
       params.target,
       maxResults,
     );
@@ -48,44 +58,64 @@ export async function getCssProvenance(
     }
 
     // Touch session to reset idle timer
-    sessionManager.touchSession();
+    sessionManager.touchSession(params.session);
+
+    // Force pseudo-classes (e.g. :hover) so styles reflect that state
+    if (params.forceStates?.length) {
+      if (params.persistStates) {
+        assertStatesPersist(session, frameDocument);
+      }
+      // Set before forcing, so nodes forced before a failure are restored too
+      if (!params.persistStates) {
+        forcedNodeIds = nodeIds;
+      }
+      await forcePseudoStates(
+        cdpSession,
+        nodeIds,
+        params.forceStates,
+        params.persistStates,
+      );
+    }
+
+    // Report original source locations for source-mapped stylesheets
+    const sourceMaps = createSourceMapResolver(session, cdpSession);
+
+    // Shorthands (e.g. margin, gap, transition) are traced per longhand
+    const longhands = await getLonghands(cdpSession, params.property);
 
     // Collect provenance for each matched element
     const results: CssProvenanceInfo[] = [];
 
     for (const nodeId of nodeIds) {
-      // Get computed value
-      const computed = await getComputedStyles(session.cdpSession, nodeId, [
-        params.property,
-      ]);
-
-      const computedValue = computed[params.property] || null;
-
-      // Find winning declaration
-      const { winner, contributors } = await findWinningDeclaration(
-        session.cdpSession,
-        nodeId,
-        params.property,
-      );
-
-      const info: CssProvenanceInfo = {
-        property: params.property,
-        computedValue,
-      };
-
-      if (winner) {
-        info.winner = winner;
+      if (longhands.length === 0) {
+        results.push(
+          await traceProperty(
+            cdpSession,
+            nodeId,
+            params.property,
+            params,
+            sourceMaps,
+          ),
+        );
+        continue;
       }
 
-      if (
-        params.includeContributors &&
-        contributors &&
-        contributors.length > 0
-      ) {
-        info.contributors = contributors;
+      const longhandResults: CssProvenanceInfo[] = [];
+      for (const longhand of longhands) {
+        longhandResults.push(
+          await traceProperty(cdpSession, nodeId, longhand, params, sourceMaps),
+        );
       }
 
-      results.push(info);
+      results.push({
+        property: params.property,
+        computedValue: await getComputedPropertyValue(
+          cdpSession,
+          nodeId,
+          params.property,
+        ),
+        longhands: longhandResults,
+      });
     }
 
     return {
@@ -93,14 +123,7 @@ export async function getCssProvenance(
       results,
     };
   } catch (err) {
-    if (
-      typeof err === "object" &&
-      err !== null &&
-      "error" in err &&
-      typeof (err as { error: unknown }).error === "object" &&
-      (err as { error: unknown }).error !== null &&
-      "code" in (err as { error: { code: unknown } }).error
-    ) {
+    if (isDevToolsError(err)) {
       throw err;
     }
 
@@ -118,5 +141,82 @@ export async function getCssProvenance(
       `Failed to get CSS provenance: ${err}`,
       { originalError: String(err) },
     );
+  } finally {
+    if (frameDocument && forcedNodeIds.length > 0) {
+      await restorePseudoStates(frameDocument.cdpSession, forcedNodeIds);
+    }
+    await frameDocument?.detach();
   }
 }
+
+/**
+ * Trace the computed value and winning declaration of one property
+ */
+async function traceProperty(
+  cdpSession: CDPSession,
+  nodeId: number,
+  property: string,
+  params: GetCssProvenanceParams,
+  sourceMaps?: SourceMapResolver,
+): Promise<CssProvenanceInfo> {
+  // Get computed value
+  const computed = await getComputedStyles(cdpSession, nodeId, [property]);
+
+  const computedValue = computed[property] || null;
+
+  // Find winning declaration
+  const { winner, contributors, inheritance, declaringNodeId } =
+    await findWinningDeclaration(cdpSession, nodeId, property, sourceMaps);
+
+  const info: CssProvenanceInfo = {
+    property,
+    computedValue,
+  };
+
+  if (winner) {
+    info.winner = winner;
+  }
+
+  if (inheritance) {
+    info.inheritance = inheritance;
+  }
+
+  if (params.includeContributors) {
+    const filter = params.contributorFilter ?? "active";
+    const listed: CssDeclarationSource[] = [];
+
+    if (filter !== "inactive") {
+      listed.push(...(contributors ?? []));
+    }
+
+    // Rules for other breakpoints, unsupported features or other containers
+    if (filter !== "active") {
+      listed.push(
+        ...(await findInactiveDeclarations(cdpSession, nodeId, property, [
+          ...(winner ? [winner] : []),
+          ...(contributors ?? []),
+        ])),
+      );
+    }
+
+    if (listed.length > 0) {
+      info.contributors = listed;
+    }
+  }
+
+  // Follow design tokens: var() references resolve where the value is declared
+  const declaredValue = winner?.shorthand?.value ?? winner?.value;
+  if (params.resolveVariables && declaredValue) {
+    const variables = await resolveVariableReferences(
+      cdpSession,
+      declaringNodeId ?? nodeId,
+      declaredValue,
+      sourceMaps,
+    );
+    if (variables.length > 0) {
+      info.variables = variables;
+    }
+  }
+
+  return info;
+}
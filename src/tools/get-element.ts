@@ -1,15 +1,23 @@
 import type {
+  FrameDocument,
   GetElementParams,
   GetElementResult,
   ElementInfo,
 } from "../types.js";
 import { ErrorCode, createError } from "../errors.js";
 import { sessionManager } from "../session/manager.js";
+import { resolveFrameDocument } from "../cdp/frames.js";
+import { resolveTargetNodeIds } from "../cdp/targets.js";
+import {
+  assertStatesPersist,
+  restorePseudoStates,
+  forcePseudoStates,
+} from "../cdp/pseudo-states.js";
 import {
-  resolveElementTargets,
   getElementAttributes,
   getElementBoxModel,
   getNodeName,
+  getPseudoOrigin,
 } from "../cdp/dom.js";
 import { getComputedStyles, DEFAULT_COMPUTED_PROPERTIES } from "../cdp/css.js";
 
@@ -19,13 +27,21 @@ import { getComputedStyles, DEFAULT_COMPUTED_PROPERTIES } from "../cdp/css.js";
 export async function getElement(
   params: GetElementParams,
 ): Promise<GetElementResult> {
-  const session = sessionManager.getSession();
+  const session = sessionManager.getSession(params.session);
   const maxResults = Math.min(params.maxResults ?? 10, 50); // Cap at 50
 
+  let frameDocument: FrameDocument | undefined;
+  let forcedNodeIds: number[] = [];
+
   try {
+    // Resolve the document to search (the top document or an iframe's)
+    frameDocument = await resolveFrameDocument(session, params.target.frame);
+    const { cdpSession } = frameDocument;
+
     // Resolve element targets
-    const nodeIds = await resolveElementTargets(
-      session.cdpSession,
+    const nodeIds = await resolveTargetNodeIds(
+      session,
+      frameDocument,
       params.target,
       maxResults,
     );
@@ -39,7 +55,24 @@ export async function getElement(
     }
 
     // Touch session to reset idle timer
-    sessionManager.touchSession();
+    sessionManager.touchSession(params.session);
+
+    // Force pseudo-classes (e.g. :hover) so styles reflect that state
+    if (params.forceStates?.length) {
+      if (params.persistStates) {
+        assertStatesPersist(session, frameDocument);
+      }
+      // Set before forcing, so nodes forced before a failure are restored too
+      if (!params.persistStates) {
+        forcedNodeIds = nodeIds;
+      }
+      await forcePseudoStates(
+        cdpSession,
+        nodeIds,
+        params.forceStates,
+        params.persistStates,
+      );
+    }
 
     // Collect info for each matched element
     const results: ElementInfo[] = [];
@@ -49,21 +82,25 @@ export async function getElement(
         exists: true,
       };
 
+      // Pseudo-elements are named after their originating element
+      const origin = getPseudoOrigin(cdpSession, nodeId);
+      const elementId = origin?.nodeId ?? nodeId;
+      if (origin) {
+        info.pseudo = origin.pseudo;
+      }
+
       // Get node name
-      info.nodeName = await getNodeName(session.cdpSession, nodeId);
+      info.nodeName = await getNodeName(cdpSession, elementId);
 
       // Get requested facts
       const include = params.include || {};
 
       if (include.attributes) {
-        info.attributes = await getElementAttributes(
-          session.cdpSession,
-          nodeId,
-        );
+        info.attributes = await getElementAttributes(cdpSession, elementId);
       }
 
       if (include.boxModel) {
-        info.boxModel = await getElementBoxModel(session.cdpSession, nodeId);
+        info.boxModel = await getElementBoxModel(cdpSession, nodeId);
       }
 
       if (include.computed) {
@@ -77,11 +114,7 @@ export async function getElement(
           }
         }
 
-        info.computed = await getComputedStyles(
-          session.cdpSession,
-          nodeId,
-          properties,
-        );
+        info.computed = await getComputedStyles(cdpSession, nodeId, properties);
       }
 
       if (include.role) {
@@ -127,6 +160,11 @@ export async function getElement(
       `Failed to get element: ${err}`,
       { originalError: String(err) },
     );
+  } finally {
+    if (frameDocument && forcedNodeIds.length > 0) {
+      await restorePseudoStates(frameDocument.cdpSession, forcedNodeIds);
+    }
+    await frameDocument?.detach();
   }
 }
 
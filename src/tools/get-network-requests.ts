@@ -0,0 +1,81 @@
+import type {
+  GetNetworkRequestsParams,
+  GetNetworkRequestsResult,
+} from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+
+/**
+ * Get captured network requests from the current session
+ */
+export async function getNetworkRequests(
+  params: GetNetworkRequestsParams,
+): Promise<GetNetworkRequestsResult> {
+  const session = sessionManager.getSession(params.session);
+
+  // Get all requests
+  let requests = session.networkRequests;
+
+  // Filter by URL substring if specified
+  if (params.url) {
+    const urlLower = params.url.toLowerCase();
+    requests = requests.filter((req) =>
+      req.url.toLowerCase().includes(urlLower),
+    );
+  }
+
+  // Filter by URL regex if specified
+  if (params.urlPattern) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(params.urlPattern);
+    } catch (err) {
+      throw createError(
+        ErrorCode.UNEXPECTED_ERROR,
+        `Invalid URL pattern: ${params.urlPattern}`,
+        { originalError: String(err) },
+      );
+    }
+    requests = requests.filter((req) => pattern.test(req.url));
+  }
+
+  // Filter by status range if specified (requests without a response are excluded)
+  if (params.statusMin !== undefined || params.statusMax !== undefined) {
+    const min = params.statusMin ?? 0;
+    const max = params.statusMax ?? Number.MAX_SAFE_INTEGER;
+    requests = requests.filter(
+      (req) =>
+        req.status !== undefined && req.status >= min && req.status <= max,
+    );
+  }
+
+  // Filter by resource type if specified
+  if (params.resourceType) {
+    const types = Array.isArray(params.resourceType)
+      ? params.resourceType
+      : [params.resourceType];
+    requests = requests.filter((req) => types.includes(req.resourceType));
+  }
+
+  // Filter to failed requests if specified
+  if (params.failedOnly) {
+    requests = requests.filter((req) => req.failed);
+  }
+
+  // Get total before applying limit
+  const totalRequests = requests.length;
+
+  // Apply limit if specified
+  if (params.limit && params.limit > 0) {
+    // Get the most recent requests up to the limit
+    requests = requests.slice(-params.limit);
+  }
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  return {
+    requests,
+    totalRequests,
+  };
+}
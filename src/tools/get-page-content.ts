@@ -8,7 +8,7 @@ import { sessionManager } from "../session/manager.js";
 export async function getPageContent(
   params: GetPageContentParams,
 ): Promise<GetPageContentResult> {
-  const session = sessionManager.getSession();
+  const session = sessionManager.getSession(params.session);
 
   try {
     // Get full HTML content
@@ -30,7 +30,7 @@ export async function getPageContent(
     }
 
     // Touch session to reset idle timer
-    sessionManager.touchSession();
+    sessionManager.touchSession(params.session);
 
     return {
       html,
@@ -0,0 +1,167 @@
+import { tmpdir } from "os";
+import { join } from "path";
+import { writeFileSync } from "fs";
+import type { GetResponseBodyParams, GetResponseBodyResult } from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+
+/**
+ * Text bodies longer than this (in characters) are written to a file
+ * unless an explicit length is requested
+ */
+const MAX_INLINE_BODY_LENGTH = 100_000;
+
+/**
+ * Get the response body for a captured network request.
+ * Text bodies are returned inline (optionally sliced); binary or large
+ * bodies are written to a temporary file.
+ */
+export async function getResponseBody(
+  params: GetResponseBodyParams,
+): Promise<GetResponseBodyResult> {
+  const session = sessionManager.getSession(params.session);
+
+  const entry = session.networkRequests.find(
+    (req) => req.id === params.requestId,
+  );
+  const request = session.networkRequestHandles.get(params.requestId);
+
+  if (!entry || !request) {
+    throw createError(
+      ErrorCode.REQUEST_NOT_FOUND,
+      `No captured request with id '${params.requestId}'`,
+      {
+        requestId: params.requestId,
+        suggestion:
+          "Use devtools.network.getRequests to list captured request ids. " +
+          "Old requests are dropped when the capture buffer is full.",
+      },
+    );
+  }
+
+  let body: Buffer;
+  let status: number;
+  try {
+    const response = await request.response();
+    if (!response) {
+      throw new Error(
+        entry.failureText
+          ? `Request failed: ${entry.failureText}`
+          : "Request has no response",
+      );
+    }
+    status = response.status();
+    body = await response.body();
+  } catch (err) {
+    throw createError(
+      ErrorCode.RESPONSE_BODY_UNAVAILABLE,
+      `Response body for request '${params.requestId}' is not available: ${err}`,
+      {
+        requestId: params.requestId,
+        url: entry.url,
+        originalError: String(err),
+      },
+    );
+  }
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  const result: GetResponseBodyResult = {
+    requestId: entry.id,
+    url: entry.url,
+    status,
+    mimeType: entry.mimeType,
+    bodySize: body.length,
+  };
+
+  const isText = isTextMimeType(entry.mimeType);
+
+  if (isText && !params.saveToFile) {
+    const text = body.toString("utf8");
+    const fullLength = text.length;
+
+    // Handle parameters with defaults
+    const start = params.start ?? 0;
+    const length = params.length ?? -1;
+
+    // Only fall back to a file when the caller asked for everything
+    // and it is too large to return inline
+    if (length !== -1 || fullLength - start <= MAX_INLINE_BODY_LENGTH) {
+      result.body =
+        length === -1 ? text.slice(start) : text.slice(start, start + length);
+      result.fullLength = fullLength;
+      return result;
+    }
+  }
+
+  // Write body to a temp file
+  try {
+    const timestamp = Date.now();
+    const extension = fileExtensionFor(entry.mimeType);
+    const filename = `mcp-browser-response-${entry.id}-${timestamp}.${extension}`;
+    const bodyPath = join(tmpdir(), filename);
+
+    writeFileSync(bodyPath, body);
+
+    result.bodyPath = bodyPath;
+    return result;
+  } catch (err) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to write response body: ${err}`,
+      { originalError: String(err) },
+    );
+  }
+}
+
+/**
+ * Check whether a MIME type is textual and safe to return inline
+ */
+function isTextMimeType(mimeType?: string): boolean {
+  if (!mimeType) {
+    return false;
+  }
+
+  const type = mimeType.toLowerCase();
+  return (
+    type.startsWith("text/") ||
+    type.endsWith("+json") ||
+    type.endsWith("+xml") ||
+    [
+      "application/json",
+      "application/javascript",
+      "application/ecmascript",
+      "application/xml",
+      "application/x-www-form-urlencoded",
+      "application/graphql",
+      "image/svg+xml",
+    ].includes(type)
+  );
+}
+
+/**
+ * Pick a file extension for a saved response body
+ */
+function fileExtensionFor(mimeType?: string): string {
+  const extensionMap: Record<string, string> = {
+    "application/json": "json",
+    "application/javascript": "js",
+    "text/javascript": "js",
+    "text/html": "html",
+    "text/css": "css",
+    "text/plain": "txt",
+    "application/xml": "xml",
+    "text/xml": "xml",
+    "image/svg+xml": "svg",
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/gif": "gif",
+    "image/webp": "webp",
+    "font/woff": "woff",
+    "font/woff2": "woff2",
+    "application/pdf": "pdf",
+  };
+
+  return (mimeType && extensionMap[mimeType.toLowerCase()]) || "bin";
+}
@@ -0,0 +1,240 @@
+import { tmpdir } from "os";
+import { join } from "path";
+import { writeFileSync } from "fs";
+import type {
+  FrameDocument,
+  LayoutSweepElement,
+  LayoutSweepParams,
+  LayoutSweepResult,
+  LayoutSweepRow,
+} from "../types.js";
+import { ErrorCode, createError, isDevToolsError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { setEmulation } from "../session/emulation.js";
+import { resolveFrameDocument } from "../cdp/frames.js";
+import { resolveTargetNodeIds } from "../cdp/targets.js";
+import { describeElement, getElementBoxModel } from "../cdp/dom.js";
+import { getComputedStyles } from "../cdp/css.js";
+
+/**
+ * Most widths a single sweep may visit
+ */
+const MAX_SWEEP_WIDTHS = 50;
+
+/**
+ * Resize the page to each width and read the box models and computed
+ * values of the target elements, flagging widths where a value changes.
+ * The viewport is restored afterwards.
+ */
+export async function layoutSweep(
+  params: LayoutSweepParams,
+): Promise<LayoutSweepResult> {
+  const session = sessionManager.getSession(params.session);
+  const maxResults = Math.min(params.maxResults ?? 10, 50); // Cap at 50
+  const properties = params.properties ?? [];
+
+  let frameDocument: FrameDocument | undefined;
+  let resized = false;
+  const previousViewport = session.emulation.viewport;
+
+  try {
+    const widths = resolveWidths(params);
+    const height = params.height ?? session.page.viewportSize()?.height ?? 720;
+
+    // Resolve the document to search (the top document or an iframe's)
+    frameDocument = await resolveFrameDocument(session, params.target.frame);
+    const { cdpSession } = frameDocument;
+
+    // Resolve element targets once; the same elements are measured at
+    // every width
+    const nodeIds = await resolveTargetNodeIds(
+      session,
+      frameDocument,
+      params.target,
+      maxResults,
+    );
+
+    if (nodeIds.length === 0) {
+      throw createError(
+        ErrorCode.ELEMENT_NOT_FOUND,
+        `No elements found matching target`,
+        { target: params.target },
+      );
+    }
+
+    const elements: string[] = [];
+    for (const nodeId of nodeIds) {
+      elements.push(await describeElement(cdpSession, nodeId));
+    }
+
+    const rows: LayoutSweepRow[] = [];
+    const changedAt: number[] = [];
+    const timestamp = Date.now();
+
+    for (const width of widths) {
+      // Resize through emulation, so a pixel ratio override is kept
+      resized = true;
+      await setEmulation(session, { viewport: { width, height } });
+      await session.page.evaluate(WAIT_FOR_LAYOUT);
+
+      const results: LayoutSweepElement[] = [];
+      for (const nodeId of nodeIds) {
+        const result: LayoutSweepElement = {};
+
+        const boxModel = await getElementBoxModel(cdpSession, nodeId);
+        if (boxModel) {
+          result.boxModel = boxModel;
+        }
+        if (properties.length > 0) {
+          result.computed = await getComputedStyles(
+            cdpSession,
+            nodeId,
+            properties,
+          );
+        }
+
+        results.push(result);
+      }
+
+      const row: LayoutSweepRow = { width, results };
+
+      const previous = rows[rows.length - 1];
+      if (previous) {
+        const changed = properties.filter((property) =>
+          results.some(
+            (result, i) =>
+              result.computed?.[property] !==
+              previous.results[i].computed?.[property],
+          ),
+        );
+        if (changed.length > 0) {
+          row.changed = changed;
+          changedAt.push(width);
+        }
+      }
+
+      if (params.screenshots) {
+        const screenshotPath = join(
+          tmpdir(),
+          `mcp-browser-devtools-sweep-${timestamp}-${width}.png`,
+        );
+        writeFileSync(screenshotPath, await session.page.screenshot());
+        row.screenshotPath = screenshotPath;
+      }
+
+      rows.push(row);
+    }
+
+    // Touch session to reset idle timer
+    sessionManager.touchSession(params.session);
+
+    return {
+      matchCount: nodeIds.length,
+      elements,
+      rows,
+      changedAt,
+    };
+  } catch (err) {
+    if (isDevToolsError(err)) {
+      throw err;
+    }
+
+    // Check for timeout
+    if (String(err).includes("Timeout") || String(err).includes("timeout")) {
+      throw createError(
+        ErrorCode.QUERY_TIMEOUT,
+        `Query timed out after ${session.config.timeouts.queryMs}ms`,
+        { originalError: String(err) },
+      );
+    }
+
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to sweep layout: ${err}`,
+      { originalError: String(err) },
+    );
+  } finally {
+    if (resized) {
+      try {
+        await setEmulation(session, { viewport: previousViewport ?? null });
+      } catch {
+        // Page may have closed; keep the sweep's own error
+      }
+    }
+    await frameDocument?.detach();
+  }
+}
+
+/**
+ * List the widths to visit, narrowest first
+ */
+function resolveWidths(params: LayoutSweepParams): number[] {
+  const { widths, range, height } = params;
+
+  if (!widths === !range) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "Give either widths or range",
+      { widths, range },
+    );
+  }
+
+  if (height !== undefined && !(Number.isInteger(height) && height > 0)) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "height must be a positive integer",
+      { height },
+    );
+  }
+
+  let list: number[];
+  if (range) {
+    const { min, max, step } = range;
+    if (!(step > 0 && min <= max)) {
+      throw createError(
+        ErrorCode.UNEXPECTED_ERROR,
+        "range needs min <= max and a positive step",
+        { range },
+      );
+    }
+    list = [];
+    for (
+      let width = min;
+      width <= max && list.length <= MAX_SWEEP_WIDTHS;
+      width += step
+    ) {
+      list.push(width);
+    }
+  } else {
+    list = widths!;
+  }
+
+  if (list.some((width) => !(Number.isInteger(width) && width > 0))) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "Widths must be positive integers",
+      { widths: list },
+    );
+  }
+
+  const sorted = [...new Set(list)].sort((a, b) => a - b);
+  if (sorted.length === 0 || sorted.length > MAX_SWEEP_WIDTHS) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `A sweep visits 1 to ${MAX_SWEEP_WIDTHS} widths`,
+      { widthCount: sorted.length },
+    );
+  }
+
+  return sorted;
+}
+
+/**
+ * Page expression resolving after the next frame, so resize listeners and
+ * layout have caught up with the new viewport. Background tabs get no
+ * frames, so it also resolves after a short timeout.
+ */
+const WAIT_FOR_LAYOUT = `new Promise((resolve) => {
+  requestAnimationFrame(() => requestAnimationFrame(resolve));
+  setTimeout(resolve, 100);
+})`;
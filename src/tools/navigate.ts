@@ -1,7 +1,8 @@
 import type { NavigateParams, NavigateResult } from "../types.js";
 import { ErrorCode, createError } from "../errors.js";
 import { sessionManager } from "../session/manager.js";
-import { isOriginAllowed } from "../config.js";
+import { assertNavigationAllowed, gotoWithPolicy } from "../session/policy.js";
+import { revertStyleEdits } from "../cdp/style-edits.js";
 
 /**
  * Navigate the page to a URL
@@ -9,7 +10,7 @@ import { isOriginAllowed } from "../config.js";
 export async function navigate(
   params: NavigateParams,
 ): Promise<NavigateResult> {
-  const session = sessionManager.getSession();
+  const session = sessionManager.getSession(params.session);
 
   // Resolve URL (may be relative to baseURL)
   let resolvedUrl: string;
@@ -29,44 +30,21 @@ export async function navigate(
     );
   }
 
-  // Check allowed origins
-  if (!isOriginAllowed(resolvedUrl, session.config.policy.allowedOrigins)) {
-    throw createError(
-      ErrorCode.NAVIGATION_BLOCKED_BY_POLICY,
-      `Navigation to ${resolvedUrl} is blocked by policy`,
-      {
-        url: resolvedUrl,
-        allowedOrigins: session.config.policy.allowedOrigins,
-      },
-    );
-  }
+  // Check origin policy
+  assertNavigationAllowed(resolvedUrl, session.config);
 
-  // Navigate with timeout
-  try {
-    const waitUntil = params.wait || "networkidle";
-    await session.page.goto(resolvedUrl, {
-      waitUntil,
-      timeout: session.config.timeouts.navigationMs,
-    });
+  // Revert live style edits before leaving the document
+  await revertStyleEdits(session);
 
-    // Touch session to reset idle timer
-    sessionManager.touchSession();
+  // Navigate with timeout
+  const finalUrl = await gotoWithPolicy(session, session.page, resolvedUrl, {
+    waitUntil: params.wait || "networkidle",
+  });
 
-    return {
-      finalUrl: session.page.url(),
-    };
-  } catch (err) {
-    // Check if it's a timeout error
-    if (String(err).includes("Timeout") || String(err).includes("timeout")) {
-      throw createError(
-        ErrorCode.NAVIGATION_TIMEOUT,
-        `Navigation to ${resolvedUrl} timed out after ${session.config.timeouts.navigationMs}ms`,
-        { originalError: String(err) },
-      );
-    }
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
 
-    throw createError(ErrorCode.UNEXPECTED_ERROR, `Navigation failed: ${err}`, {
-      originalError: String(err),
-    });
-  }
+  return {
+    finalUrl,
+  };
 }
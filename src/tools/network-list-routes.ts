@@ -0,0 +1,21 @@
+import type {
+  NetworkListRoutesParams,
+  NetworkListRoutesResult,
+} from "../types.js";
+import { sessionManager } from "../session/manager.js";
+
+/**
+ * List the request interception rules installed on the current session
+ */
+export async function networkListRoutes(
+  params: NetworkListRoutesParams = {},
+): Promise<NetworkListRoutesResult> {
+  const session = sessionManager.getSession(params.session);
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  return {
+    routes: session.routes.map((r) => r.info),
+  };
+}
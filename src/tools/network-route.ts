@@ -0,0 +1,19 @@
+import type { NetworkRouteParams, NetworkRouteResult } from "../types.js";
+import { sessionManager } from "../session/manager.js";
+import { installRoute } from "../session/routes.js";
+
+/**
+ * Install a request interception rule on the current session
+ */
+export async function networkRoute(
+  params: NetworkRouteParams,
+): Promise<NetworkRouteResult> {
+  const session = sessionManager.getSession(params.session);
+
+  const route = await installRoute(session, params);
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  return { route };
+}
@@ -0,0 +1,30 @@
+import type { NetworkUnrouteParams, NetworkUnrouteResult } from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { removeRoutes } from "../session/routes.js";
+
+/**
+ * Remove request interception rules from the current session
+ */
+export async function networkUnroute(
+  params: NetworkUnrouteParams,
+): Promise<NetworkUnrouteResult> {
+  const session = sessionManager.getSession(params.session);
+
+  if (!params.all && !params.id) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "Specify a route id to remove, or all=true to remove every route",
+    );
+  }
+
+  const removed = await removeRoutes(
+    session,
+    params.all ? "all" : [params.id as string],
+  );
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  return { removed };
+}
@@ -2,10 +2,14 @@ import type {
   PageInteractParams,
   PageInteractResult,
   PageAction,
+  ElementActionTarget,
+  SessionState,
 } from "../types.js";
-import type { Page } from "playwright";
-import { ErrorCode, createError } from "../errors.js";
+import type { Frame, Locator } from "playwright";
+import { ErrorCode, createError, isDevToolsError } from "../errors.js";
 import { sessionManager } from "../session/manager.js";
+import { resolveFrame } from "../cdp/frames.js";
+import { targetLocator } from "../cdp/targets.js";
 
 /**
  * Execute a sequence of page interactions
@@ -13,7 +17,7 @@ import { sessionManager } from "../session/manager.js";
 export async function pageInteract(
   params: PageInteractParams,
 ): Promise<PageInteractResult> {
-  const session = sessionManager.getSession();
+  const session = sessionManager.getSession(params.session);
 
   if (!session) {
     throw createError(
@@ -22,82 +26,111 @@ export async function pageInteract(
     );
   }
 
-  const { page } = session;
+  // Actions run in the page's main frame unless a frame chain is given
+  const frame = await resolveFrame(session.page, params.frame);
+
+  // Remember where the audit list ends so navigations blocked by policy
+  // during these actions (e.g. clicking an external link) can be reported
+  const blockedBefore = session.blockedRequests.length;
+  const withBlockedNavigations = (
+    result: PageInteractResult,
+  ): PageInteractResult => {
+    const blockedNavigations = session.blockedRequests
+      .slice(blockedBefore)
+      .filter((req) => req.reason !== "subresource");
+    return blockedNavigations.length > 0
+      ? { ...result, blockedNavigations }
+      : result;
+  };
 
   // Execute each action sequentially
   for (let i = 0; i < params.actions.length; i++) {
     const action = params.actions[i];
 
     try {
-      await executeAction(page, action);
+      await executeAction(session, frame, action);
     } catch (err) {
       // Return detailed error information
-      return {
+      return withBlockedNavigations({
         ok: false,
         failedAtIndex: i,
-        error: err instanceof Error ? err.message : String(err),
+        error: isDevToolsError(err)
+          ? err.error.message
+          : err instanceof Error
+            ? err.message
+            : String(err),
         action: action,
-      };
+      });
     }
   }
 
-  return { ok: true };
+  return withBlockedNavigations({ ok: true });
 }
 
 /**
  * Execute a single page action
  */
-async function executeAction(page: Page, action: PageAction): Promise<void> {
+async function executeAction(
+  session: SessionState,
+  frame: Frame,
+  action: PageAction,
+): Promise<void> {
   // Default timeout for actions (5 seconds)
   const DEFAULT_TIMEOUT = 5000;
 
   switch (action.type) {
     case "click":
-      await page.click(action.selector, {
+      await (await actionLocator(session, frame, action)).click({
         timeout: DEFAULT_TIMEOUT,
         ...action.options,
       });
       break;
 
     case "fill":
-      await page.fill(action.selector, action.value, {
+      await (await actionLocator(session, frame, action)).fill(action.value, {
         timeout: DEFAULT_TIMEOUT,
       });
       break;
 
     case "type":
-      await page.type(action.selector, action.text, {
-        timeout: DEFAULT_TIMEOUT,
-        ...action.options,
-      });
+      await (await actionLocator(session, frame, action)).pressSequentially(
+        action.text,
+        {
+          timeout: DEFAULT_TIMEOUT,
+          ...action.options,
+        },
+      );
       break;
 
     case "press":
-      await page.press(action.selector, action.key, {
+      await (await actionLocator(session, frame, action)).press(action.key, {
         timeout: DEFAULT_TIMEOUT,
         ...action.options,
       });
       break;
 
     case "select":
-      await page.selectOption(action.selector, action.values, {
-        timeout: DEFAULT_TIMEOUT,
-      });
+      await (await actionLocator(session, frame, action)).selectOption(
+        action.values,
+        {
+          timeout: DEFAULT_TIMEOUT,
+        },
+      );
       break;
 
     case "wait":
-      await page.waitForTimeout(action.delay);
+      await frame.waitForTimeout(action.delay);
       break;
 
     case "waitForSelector":
-      await page.waitForSelector(action.selector, {
+      await (await actionLocator(session, frame, action)).waitFor({
         timeout: DEFAULT_TIMEOUT,
         ...action.options,
       });
       break;
 
     case "waitForNavigation":
-      await page.waitForLoadState(action.options?.waitUntil || "networkidle", {
+      await frame.waitForLoadState(action.options?.waitUntil || "networkidle", {
         timeout: action.options?.timeout || DEFAULT_TIMEOUT,
       });
       break;
@@ -109,3 +142,51 @@ async function executeAction(page: Page, action: PageAction): Promise<void> {
       );
   }
 }
+
+/**
+ * Build the locator for the element an action addresses. A selector uses
+ * its first match, like the selector-based Playwright calls; a target must
+ * match at most one element, and cannot address a pseudo-element.
+ *
+ * A target's own frame chain starts from the top document, as in
+ * `devtools.getElement`; otherwise the action's frame is searched.
+ */
+async function actionLocator(
+  session: SessionState,
+  frame: Frame,
+  action: ElementActionTarget,
+): Promise<Locator> {
+  if ((action.selector === undefined) === (action.target === undefined)) {
+    throw new Error(
+      "Each element action requires exactly one of selector or target",
+    );
+  }
+
+  if (action.target) {
+    if (action.target.pseudo) {
+      throw new Error(
+        `Element actions cannot target a pseudo-element (${action.target.pseudo})`,
+      );
+    }
+
+    const targetFrame = action.target.frame
+      ? await resolveFrame(session.page, action.target.frame)
+      : frame;
+    const locator = targetLocator(
+      targetFrame,
+      action.target,
+      session.config.playwright.testIdAttribute,
+    );
+
+    // No match yet is fine: the action waits for the element to appear
+    const matchCount = await locator.count();
+    if (matchCount > 1) {
+      throw new Error(
+        `Target is ambiguous: it matches ${matchCount} elements. Narrow it (e.g. with name or exact) so it matches one.`,
+      );
+    }
+    return locator;
+  }
+
+  return frame.locator(action.selector as string).first();
+}
@@ -0,0 +1,38 @@
+import type { PagesCloseParams, PagesCloseResult } from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { activatePage, findPage, pickFallbackPage } from "../session/pages.js";
+
+/**
+ * Close a page. Closing the active page activates its opener
+ * (or the most recently opened page).
+ */
+export async function pagesClose(
+  params: PagesCloseParams,
+): Promise<PagesCloseResult> {
+  const session = sessionManager.getSession(params.session);
+  const tracked = findPage(session, params.id);
+
+  if (session.pages.length === 1) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      "Cannot close the last open page. Use devtools.session.stop to end the session.",
+      { id: params.id },
+    );
+  }
+
+  // Switch away first so the CDP session never points at a closed page
+  if (tracked.id === session.activePageId) {
+    await activatePage(session, pickFallbackPage(session, tracked));
+  }
+
+  await tracked.page.close();
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  return {
+    closed: tracked.id,
+    activePageId: session.activePageId,
+  };
+}
@@ -0,0 +1,25 @@
+import type { PagesListParams, PagesListResult } from "../types.js";
+import { sessionManager } from "../session/manager.js";
+import { describePage } from "../session/pages.js";
+
+/**
+ * List all open pages (tabs and popups) in the current session
+ */
+export async function pagesList(
+  params: PagesListParams = {},
+): Promise<PagesListResult> {
+  const session = sessionManager.getSession(params.session);
+
+  const pages = [];
+  for (const tracked of session.pages) {
+    pages.push(await describePage(session, tracked));
+  }
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  return {
+    pages,
+    activePageId: session.activePageId,
+  };
+}
@@ -0,0 +1,55 @@
+import type { PagesNewParams, PagesNewResult } from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { activatePage, describePage, registerPage } from "../session/pages.js";
+import { assertNavigationAllowed, gotoWithPolicy } from "../session/policy.js";
+
+/**
+ * Open a new page (tab) in the current session, optionally navigating it
+ */
+export async function pagesNew(
+  params: PagesNewParams,
+): Promise<PagesNewResult> {
+  const session = sessionManager.getSession(params.session);
+
+  // Resolve URL (may be relative to baseURL)
+  let resolvedUrl: string | undefined;
+  if (params.url) {
+    try {
+      resolvedUrl = new URL(params.url, session.config.playwright.baseURL).href;
+    } catch (err) {
+      throw createError(
+        ErrorCode.UNEXPECTED_ERROR,
+        `Invalid URL: ${params.url}`,
+        { originalError: String(err) },
+      );
+    }
+
+    // Check origin policy
+    assertNavigationAllowed(resolvedUrl, session.config);
+  }
+
+  const page = await session.context.newPage();
+  const tracked = registerPage(session, page);
+
+  if (resolvedUrl) {
+    try {
+      await gotoWithPolicy(session, page, resolvedUrl, {
+        waitUntil: "networkidle",
+      });
+    } catch (err) {
+      // Do not leave a page behind that failed to load or was blocked
+      await page.close();
+      throw err;
+    }
+  }
+
+  if (params.select ?? true) {
+    await activatePage(session, tracked);
+  }
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  return { page: await describePage(session, tracked) };
+}
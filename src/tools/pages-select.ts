@@ -0,0 +1,34 @@
+import type { PagesSelectParams, PagesSelectResult } from "../types.js";
+import { sessionManager } from "../session/manager.js";
+import { activatePage, describePage, findPage } from "../session/pages.js";
+
+/**
+ * Make a page the active one for page and element tools. Live style edits
+ * of the previously active page are reverted.
+ */
+export async function pagesSelect(
+  params: PagesSelectParams,
+): Promise<PagesSelectResult> {
+  const session = sessionManager.getSession(params.session);
+  const tracked = findPage(session, params.id);
+
+  const revertedEdits = await activatePage(session, tracked);
+
+  // Bring the page to the front in headed mode
+  try {
+    await tracked.page.bringToFront();
+  } catch {
+    // Ignore if the page cannot be focused
+  }
+
+  // Touch session to reset idle timer
+  sessionManager.touchSession(params.session);
+
+  const result: PagesSelectResult = {
+    page: await describePage(session, tracked),
+  };
+  if (revertedEdits.length > 0) {
+    result.revertedEdits = revertedEdits;
+  }
+  return result;
+}
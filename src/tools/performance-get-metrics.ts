@@ -0,0 +1,32 @@
+import type {
+  PerformanceGetMetricsParams,
+  PerformanceMetricsResult,
+} from "../types.js";
+import { ErrorCode, createError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { getPerformanceMetrics } from "../session/performance.js";
+
+/**
+ * Report navigation and paint timing, Core Web Vitals, long tasks and CDP
+ * performance counters for the active page
+ */
+export async function performanceGetMetrics(
+  params: PerformanceGetMetricsParams,
+): Promise<PerformanceMetricsResult> {
+  const session = sessionManager.getSession(params.session);
+
+  try {
+    const metrics = await getPerformanceMetrics(session);
+
+    // Touch session to reset idle timer
+    sessionManager.touchSession(params.session);
+
+    return metrics;
+  } catch (err) {
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to read performance metrics: ${err}`,
+      { originalError: String(err) },
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import type {
+  PerformanceStartTraceParams,
+  PerformanceStartTraceResult,
+} from "../types.js";
+import { ErrorCode, createError, isDevToolsError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { startCapture } from "../session/trace.js";
+
+/**
+ * Start recording a performance trace or JS CPU profile of the active page
+ */
+export async function performanceStartTrace(
+  params: PerformanceStartTraceParams,
+): Promise<PerformanceStartTraceResult> {
+  const session = sessionManager.getSession(params.session);
+
+  try {
+    const mode = await startCapture(session, params);
+
+    // Touch session to reset idle timer
+    sessionManager.touchSession(params.session);
+
+    return { ok: true, mode };
+  } catch (err) {
+    if (isDevToolsError(err)) {
+      throw err;
+    }
+
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to start trace: ${err}`,
+      { originalError: String(err) },
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import type {
+  PerformanceStopTraceParams,
+  PerformanceStopTraceResult,
+} from "../types.js";
+import { ErrorCode, createError, isDevToolsError } from "../errors.js";
+import { sessionManager } from "../session/manager.js";
+import { stopCapture } from "../session/trace.js";
+
+/**
+ * Stop the trace or CPU profile, save it to a file and summarize its
+ * hottest functions and longest tasks
+ */
+export async function performanceStopTrace(
+  params: PerformanceStopTraceParams,
+): Promise<PerformanceStopTraceResult> {
+  const session = sessionManager.getSession(params.session);
+  const topN = Math.min(params.topN ?? 10, 50); // Cap at 50
+
+  // Generate temp file path unless one was given
+  const extension =
+    session.performanceCapture?.mode === "profile" ? "cpuprofile" : "json";
+  const tracePath = params.path
+    ? resolve(params.path)
+    : join(tmpdir(), `mcp-browser-devtools-trace-${Date.now()}.${extension}`);
+
+  try {
+    const result = await stopCapture(session, tracePath, topN);
+
+    // Touch session to reset idle timer
+    sessionManager.touchSession(params.session);
+
+    return result;
+  } catch (err) {
+    if (isDevToolsError(err)) {
+      throw err;
+    }
+
+    throw createError(
+      ErrorCode.UNEXPECTED_ERROR,
+      `Failed to stop trace: ${err}`,
+      { originalError: String(err) },
+    );
+  }
+}
@@ -11,7 +11,7 @@ import { sessionManager } from "../session/manager.js";
 export async function screenshot(
   params: ScreenshotParams,
 ): Promise<ScreenshotResult> {
-  const session = sessionManager.getSession();
+  const session = sessionManager.getSession(params.session);
 
   try {
     // Generate temp file path
@@ -31,7 +31,7 @@ export async function screenshot(
     writeFileSync(screenshotPath, buffer);
 
     // Touch session to reset idle timer
-    sessionManager.touchSession();
+    sessionManager.touchSession(params.session);
 
     return {
       screenshotPath,
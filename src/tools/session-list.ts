@@ -0,0 +1,32 @@
+import type { SessionInfo, SessionListResult } from "../types.js";
+import { sessionManager } from "../session/manager.js";
+
+/**
+ * List active sessions in start order
+ */
+export async function sessionList(): Promise<SessionListResult> {
+  const sessions = sessionManager.listSessions();
+  const current = sessions[sessions.length - 1];
+
+  return {
+    sessions: sessions.map((session) => {
+      const info: SessionInfo = {
+        name: session.name,
+        url: session.page.url(),
+        pageCount: session.pages.length,
+        startedAt: session.startedAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session === current,
+      };
+
+      if (session.scenario) {
+        info.scenario = session.scenario;
+      }
+      if (session.device) {
+        info.device = session.device;
+      }
+
+      return info;
+    }),
+  };
+}
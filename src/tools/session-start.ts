@@ -1,8 +1,14 @@
-import type { SessionStartParams, SessionStartResult } from "../types.js";
+import type {
+  SessionStartParams,
+  SessionStartResult,
+  SessionState,
+} from "../types.js";
 import type { LoadedConfig } from "../config.js";
 import { ErrorCode, createError, isDevToolsError } from "../errors.js";
-import { sessionManager } from "../session/manager.js";
+import { DEFAULT_SESSION_NAME, sessionManager } from "../session/manager.js";
 import { loadHooksModule, executeHook } from "../session/hooks.js";
+import { installRoute } from "../session/routes.js";
+import { assertNavigationAllowed, gotoWithPolicy } from "../session/policy.js";
 
 /**
  * Start a new Playwright session
@@ -11,16 +17,21 @@ export async function sessionStart(
   params: SessionStartParams,
   loadedConfig: LoadedConfig | null,
 ): Promise<SessionStartResult> {
+  const sessionName = params.session ?? DEFAULT_SESSION_NAME;
+
   // Check if start is in progress
-  if (sessionManager.isStarting()) {
+  if (sessionManager.isStarting(sessionName)) {
     throw createError(
       ErrorCode.SESSION_START_IN_PROGRESS,
-      "Session start is already in progress",
+      `Start of session '${sessionName}' is already in progress`,
     );
   }
 
   // Mark start as in progress
-  sessionManager.markStartInProgress();
+  sessionManager.markStartInProgress(sessionName);
+
+  // Set once the browser is launched, until the session is registered
+  let unregistered: SessionState | undefined;
 
   try {
     // Get scenario config if specified
@@ -61,11 +72,15 @@ export async function sessionStart(
             headless: true,
             storageStatePath: undefined,
             traceOutputPath: undefined,
+            harOutputPath: undefined,
+            testIdAttribute: "data-testid",
           },
           policy: {
             singleInstance: true,
             idleMs: 300_000,
             allowedOrigins: undefined,
+            blockedOrigins: undefined,
+            enforceSubresources: false,
           },
           timeouts: {
             navigationMs: 15_000,
@@ -75,8 +90,28 @@ export async function sessionStart(
             enabled: true,
             maxMessages: 1000,
           },
+          network: {
+            enabled: true,
+            maxRequests: 500,
+          },
+          sourceMaps: {
+            enabled: true,
+            pathMappings: {},
+          },
         };
 
+    // The scenario's base URL and storage state replace the configured ones,
+    // so navigation, hooks and the origin policy see them too
+    const { baseURL, storageStatePath, ...scenarioOptions } =
+      scenarioConfig?.contextOptions ?? {};
+    if (baseURL || storageStatePath) {
+      resolvedConfig.playwright = {
+        ...resolvedConfig.playwright,
+        ...(baseURL && { baseURL }),
+        ...(storageStatePath && { storageStatePath }),
+      };
+    }
+
     // Override headless setting if interactive mode is requested
     if (params.interactive) {
       resolvedConfig.playwright = {
@@ -85,13 +120,36 @@ export async function sessionStart(
       };
     }
 
+    // Check the start URL against the origin policy before launching anything
+    let startUrl: string | undefined;
+    if (params.url) {
+      try {
+        startUrl = new URL(params.url, resolvedConfig.playwright.baseURL).href;
+      } catch {
+        // Unresolvable URL; navigation below will fail with a warning
+      }
+
+      if (startUrl) {
+        assertNavigationAllowed(startUrl, resolvedConfig);
+      }
+    }
+
     // Create Playwright session with optional device emulation
     const session = await sessionManager.createPlaywrightSession(
       resolvedConfig,
       undefined,
       deviceName,
       params.fullscreen,
+      sessionName,
+      scenarioOptions,
     );
+    unregistered = session;
+    session.scenario = params.scenario;
+
+    // Install scenario request mocks before the hook can trigger any traffic
+    for (const rule of scenarioConfig?.routes ?? []) {
+      await installRoute(session, rule);
+    }
 
     // Execute scenario hook if configured
     if (scenarioConfig && loadedConfig?.hooks) {
@@ -118,13 +176,13 @@ export async function sessionStart(
 
     // Set session as active (this also clears startInProgress flag)
     sessionManager.setSession(session);
+    unregistered = undefined;
 
     // Navigate to URL if provided
     if (params.url) {
       try {
-        await session.page.goto(params.url, {
+        await gotoWithPolicy(session, session.page, startUrl ?? params.url, {
           waitUntil: "networkidle",
-          timeout: resolvedConfig.timeouts.navigationMs,
         });
       } catch (err) {
         // Don't fail the session start if navigation fails
@@ -133,10 +191,19 @@ export async function sessionStart(
       }
     }
 
-    return { ok: true };
+    return { ok: true, session: sessionName };
   } catch (err) {
     // Clear start in progress flag on error
-    sessionManager.clearStartInProgress();
+    sessionManager.clearStartInProgress(sessionName);
+
+    // Don't leave a browser running for a session that never started
+    if (unregistered) {
+      try {
+        await sessionManager.closeSession(unregistered);
+      } catch {
+        // Report the start error instead
+      }
+    }
 
     if (isDevToolsError(err)) {
       throw err;
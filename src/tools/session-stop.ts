@@ -1,10 +1,12 @@
-import type { SessionStopResult } from "../types.js";
+import type { SessionStopParams, SessionStopResult } from "../types.js";
 import { sessionManager } from "../session/manager.js";
 
 /**
- * Stop the current session
+ * Stop a session (by name, or the most recently started one)
  */
-export async function sessionStop(): Promise<SessionStopResult> {
-  await sessionManager.stop();
+export async function sessionStop(
+  params: SessionStopParams = {},
+): Promise<SessionStopResult> {
+  await sessionManager.stop(params.session);
   return { ok: true };
 }
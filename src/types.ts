@@ -1,4 +1,11 @@
-import type { Browser, BrowserContext, Page, CDPSession } from "playwright";
+import type {
+  Browser,
+  BrowserContext,
+  Page,
+  CDPSession,
+  Request,
+  Route,
+} from "playwright";
 
 // ============================================================================
 // Configuration Types
@@ -10,6 +17,8 @@ export interface Config {
   policy?: PolicyConfig;
   timeouts?: TimeoutsConfig;
   console?: ConsoleConfig;
+  network?: NetworkConfig;
+  sourceMaps?: SourceMapsConfig;
 }
 
 export interface PlaywrightConfig {
@@ -17,6 +26,8 @@ export interface PlaywrightConfig {
   headless?: boolean;
   storageStatePath?: string;
   traceOutputPath?: string;
+  harOutputPath?: string;
+  testIdAttribute?: string; // Attribute matched by `testId` element targets (default: "data-testid")
 }
 
 export interface ConsoleConfig {
@@ -24,6 +35,16 @@ export interface ConsoleConfig {
   maxMessages?: number;
 }
 
+export interface NetworkConfig {
+  enabled?: boolean;
+  maxRequests?: number;
+}
+
+export interface SourceMapsConfig {
+  enabled?: boolean;
+  pathMappings?: Record<string, string>; // URL prefix -> local directory to read source maps and sources from
+}
+
 export interface HooksConfig {
   modulePath: string;
   envPath?: string;
@@ -34,12 +55,33 @@ export interface ScenarioConfig {
   use: string; // Function name to call from hooks module
   description?: string; // Optional description to help LLM choose which scenario to use
   device?: string; // Optional Playwright device name (e.g., "iPhone 13", "Pixel 7")
+  routes?: RouteRule[]; // Optional request mocking rules installed before the hook runs
+  contextOptions?: ScenarioContextOptions; // Optional browser context options, merged over the device descriptor
+}
+
+/**
+ * Browser context options a scenario can set (a subset of Playwright's)
+ */
+export interface ScenarioContextOptions {
+  locale?: string; // e.g. "de-DE"
+  timezoneId?: string; // IANA time zone, e.g. "Europe/Berlin"
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  permissions?: string[]; // Permissions granted to every origin, e.g. ["geolocation"]
+  colorScheme?: "light" | "dark" | "no-preference";
+  extraHTTPHeaders?: Record<string, string>;
+  httpCredentials?: { username: string; password: string; origin?: string };
+  javaScriptEnabled?: boolean;
+  offline?: boolean;
+  storageStatePath?: string; // Replaces playwright.storageStatePath (relative to config file)
+  baseURL?: string; // Replaces playwright.baseURL
 }
 
 export interface PolicyConfig {
   singleInstance?: boolean;
   idleMs?: number;
   allowedOrigins?: string[];
+  blockedOrigins?: string[];
+  enforceSubresources?: boolean;
 }
 
 export interface TimeoutsConfig {
@@ -79,15 +121,173 @@ export interface ConsoleMessage {
   args?: string[];
 }
 
+export interface NetworkRequest {
+  id: string;
+  url: string;
+  method: string;
+  resourceType: string;
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  failed: boolean;
+  failureText?: string;
+  startTime: number; // Epoch milliseconds when the request was issued
+  duration?: number; // Milliseconds until the response finished or the request failed
+  timing?: NetworkTiming;
+  sizes?: NetworkSizes;
+  redirectedFrom?: string;
+}
+
+export interface NetworkTiming {
+  // All values are milliseconds relative to startTime, -1 if not available
+  domainLookupStart: number;
+  domainLookupEnd: number;
+  connectStart: number;
+  secureConnectionStart: number;
+  connectEnd: number;
+  requestStart: number;
+  responseStart: number;
+  responseEnd: number;
+}
+
+export interface NetworkSizes {
+  requestBodySize: number;
+  requestHeadersSize: number;
+  responseBodySize: number;
+  responseHeadersSize: number;
+}
+
+export interface RouteRule {
+  url: string; // URL glob (e.g. "**/api/users*") or regular expression source
+  urlType?: "glob" | "regex";
+  action: RouteAction;
+}
+
+export type RouteAction =
+  | FulfillRouteAction
+  | AbortRouteAction
+  | DelayRouteAction
+  | ModifyHeadersRouteAction;
+
+export interface FulfillRouteAction {
+  type: "fulfill";
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  body?: string;
+  bodyPath?: string; // File whose contents are used as the body
+}
+
+export interface AbortRouteAction {
+  type: "abort";
+  errorCode?: string; // Playwright abort error code (default: "failed")
+}
+
+export interface DelayRouteAction {
+  type: "delay";
+  delayMs: number; // Request continues (to other rules or the network) after the delay
+}
+
+export interface ModifyHeadersRouteAction {
+  type: "modifyHeaders";
+  requestHeaders?: Record<string, string | null>; // null removes the header
+  responseHeaders?: Record<string, string | null>; // null removes the header
+}
+
+export interface RouteInfo extends RouteRule {
+  id: string;
+  hitCount: number;
+  lastError?: string; // Last failure applying the action; the request was aborted
+}
+
+export interface ActiveRoute {
+  info: RouteInfo;
+  matcher: string | RegExp;
+  handler: (route: Route) => Promise<void>;
+}
+
+/**
+ * Style edit made with `devtools.css.setProperty`, kept on the session's
+ * undo stack until reverted
+ */
+export interface StyleEdit {
+  id: string; // "edit-1", "edit-2", ...
+  cdpSession: CDPSession; // Session the style sheets belong to
+  sheets: { styleSheetId: string; text: string }[]; // Style sheet texts before the edit
+}
+
+/**
+ * Emulation overrides applied to the live session with
+ * `devtools.emulation.set`
+ */
+export interface EmulationSettings {
+  viewport?: { width: number; height: number };
+  deviceScaleFactor?: number;
+  colorScheme?: "light" | "dark" | "no-preference";
+  reducedMotion?: "reduce" | "no-preference";
+  forcedColors?: "active" | "none";
+  media?: "screen" | "print";
+  locale?: string; // e.g. "de-DE"
+  timezoneId?: string; // e.g. "Europe/Berlin"
+  userAgent?: string;
+}
+
+/**
+ * Performance trace or CPU profile being recorded with
+ * `devtools.performance.startTrace`
+ */
+export interface PerformanceCapture {
+  mode: "trace" | "profile";
+  cdpSession: CDPSession; // Dedicated CDP session, unaffected by page switching
+  page: Page; // Page being recorded
+  startedAt: number; // Epoch milliseconds
+}
+
+export interface OriginCheck {
+  allowed: boolean;
+  ruleList?: "allowedOrigins" | "blockedOrigins"; // List that decided the outcome
+  matchedRule?: string; // Pattern that matched, if any
+}
+
+export interface BlockedRequest {
+  url: string;
+  resourceType: string;
+  reason: "navigation" | "subresource" | "redirect";
+  ruleList?: "allowedOrigins" | "blockedOrigins";
+  matchedRule?: string;
+  frameUrl?: string; // URL of the frame that issued the request
+  timestamp: number;
+}
+
+export interface TrackedPage {
+  id: string; // Stable id, e.g. "page-1"
+  page: Page;
+  openerId?: string; // Id of the page that opened this one (popups)
+}
+
 export interface SessionState {
+  name: string;
+  scenario?: string;
+  device?: string;
+  startedAt: number;
   browser: Browser;
   context: BrowserContext;
-  page: Page;
-  cdpSession: CDPSession;
+  page: Page; // Active page used by page and element tools
+  cdpSession: CDPSession; // CDP session attached to the active page
+  pages: TrackedPage[]; // All open pages in the context, in creation order
+  activePageId: string;
   hookStopFn?: () => void | Promise<void>;
   config: ResolvedConfig;
   lastUsedAt: number;
   consoleMessages: ConsoleMessage[];
+  networkRequests: NetworkRequest[];
+  networkRequestHandles: Map<string, Request>; // Captured request id -> Playwright request
+  routes: ActiveRoute[];
+  blockedRequests: BlockedRequest[];
+  styleEdits: StyleEdit[]; // Undo stack of live style edits, oldest first
+  contextOptions?: Omit<ScenarioContextOptions, "baseURL" | "storageStatePath">; // Scenario options the browser context was created with
+  emulation: EmulationSettings; // Runtime emulation overrides, re-applied when another page is selected
+  performanceCapture?: PerformanceCapture; // Trace or CPU profile in progress
 }
 
 export interface ResolvedConfig {
@@ -96,11 +296,15 @@ export interface ResolvedConfig {
     headless: boolean;
     storageStatePath?: string;
     traceOutputPath?: string;
+    harOutputPath?: string;
+    testIdAttribute: string;
   };
   policy: {
     singleInstance: boolean;
     idleMs: number;
     allowedOrigins?: string[];
+    blockedOrigins?: string[];
+    enforceSubresources: boolean;
   };
   timeouts: {
     navigationMs: number;
@@ -110,30 +314,95 @@ export interface ResolvedConfig {
     enabled: boolean;
     maxMessages: number;
   };
+  network: {
+    enabled: boolean;
+    maxRequests: number;
+  };
+  sourceMaps: {
+    enabled: boolean;
+    pathMappings: Record<string, string>; // Local directories are absolute
+  };
 }
 
 // ============================================================================
 // Tool Parameter Types
 // ============================================================================
 
+export interface SessionScopedParams {
+  session?: string; // Session name (default: the most recently started session)
+}
+
 export interface SessionStartParams {
+  session?: string; // Name for the new session (default: "default")
   scenario?: string;
   interactive?: boolean;
   fullscreen?: boolean;
   url?: string;
 }
 
-export interface NavigateParams {
+export type SessionStopParams = SessionScopedParams;
+
+export type NetworkListRoutesParams = SessionScopedParams;
+
+export type PagesListParams = SessionScopedParams;
+
+export type CssRevertAllParams = SessionScopedParams;
+
+export type EmulationGetParams = SessionScopedParams;
+
+export type PerformanceGetMetricsParams = SessionScopedParams;
+
+export interface NavigateParams extends SessionScopedParams {
   url: string;
   wait?: "load" | "domcontentloaded" | "networkidle";
 }
 
 export interface ElementTarget {
-  kind: "id" | "selector";
-  value: string;
+  kind: "id" | "selector" | "text" | "role" | "testId" | "xpath" | "locator";
+  value: string; // ID, CSS selector, text, ARIA role, test id, XPath expression or Playwright selector
+  name?: string; // Accessible name to match (kind "role")
+  exact?: boolean; // Match text or accessible name exactly (default: case-insensitive substring)
+  frame?: FrameTarget[]; // Chain of iframes from the top document down to the one to search
+  pierce?: boolean; // Also search inside open shadow roots (kinds "id" and "selector")
+  pseudo?: TargetPseudoElement; // Inspect this pseudo-element of each matched element instead
 }
 
-export interface GetElementParams {
+/**
+ * Pseudo-element that can be targeted. `before`, `after`, `marker` and
+ * `backdrop` are pseudo-element nodes; `placeholder` is rendered by an
+ * element in the user-agent shadow tree of <input> and <textarea>.
+ */
+export type TargetPseudoElement =
+  | "before"
+  | "after"
+  | "marker"
+  | "backdrop"
+  | "placeholder";
+
+/**
+ * Pseudo-class state forced on an element with CDP `CSS.forcePseudoState`
+ */
+export type ForcedPseudoState =
+  | "hover"
+  | "focus"
+  | "active"
+  | "focus-visible"
+  | "focus-within"
+  | "visited"
+  | "target";
+
+/**
+ * One step of a frame chain. Exactly one field identifies the <iframe>
+ * (or <frame>) element in the parent document; the first match in
+ * document order is used.
+ */
+export interface FrameTarget {
+  selector?: string; // CSS selector of the iframe element
+  url?: string; // Substring of the frame's current URL
+  name?: string; // Value of the iframe's name attribute
+}
+
+export interface GetElementParams extends SessionScopedParams {
   target: ElementTarget;
   include?: {
     boxModel?: boolean;
@@ -141,43 +410,172 @@ export interface GetElementParams {
     role?: boolean;
     computed?: string[]; // Array of CSS property names. Use "ALL_DEFAULTS" to include default properties.
   };
+  forceStates?: ForcedPseudoState[]; // Pseudo-classes forced on the matched elements while inspecting
+  persistStates?: boolean; // Keep the forced states after the call (default: false)
   maxResults?: number;
 }
 
-export interface GetCssProvenanceParams {
+export interface GetCssProvenanceParams extends SessionScopedParams {
   target: ElementTarget;
   property: string;
   includeContributors?: boolean;
+  contributorFilter?: "active" | "inactive" | "all"; // Which contributors to list (default: active)
+  resolveVariables?: boolean; // Follow var() references in the winning value
+  forceStates?: ForcedPseudoState[]; // Pseudo-classes forced on the matched elements while inspecting
+  persistStates?: boolean; // Keep the forced states after the call (default: false)
+  maxResults?: number;
+}
+
+export interface CssForceStateParams extends SessionScopedParams {
+  target: ElementTarget;
+  states: ForcedPseudoState[]; // Empty to clear forced states
+  maxResults?: number;
+}
+
+export interface CssSetPropertyParams extends SessionScopedParams {
+  target: ElementTarget; // Elements to edit inline, or whose matched rule to edit
+  property: string;
+  value: string;
+  important?: boolean;
+  rule?: CssRuleTarget; // Edit this rule instead of the inline style
+  maxResults?: number;
+}
+
+/**
+ * A style rule matching the target element, as reported by
+ * `devtools.getCssProvenance`
+ */
+export interface CssRuleTarget {
+  selector: string; // Selector text, e.g. ".btn.primary"
+  stylesheetUrl?: string; // Served style sheet URL (the `generated` one for source-mapped style sheets)
+  line?: number; // 0-based line of a declaration in the rule, in the served style sheet
+}
+
+/**
+ * Emulation overrides to change. Omitted fields are left as they are; null
+ * removes an override, going back to the session's default.
+ */
+export interface EmulationSetParams extends SessionScopedParams {
+  viewport?: EmulationSettings["viewport"] | null;
+  deviceScaleFactor?: number | null;
+  colorScheme?: EmulationSettings["colorScheme"] | null;
+  reducedMotion?: EmulationSettings["reducedMotion"] | null;
+  forcedColors?: EmulationSettings["forcedColors"] | null;
+  media?: EmulationSettings["media"] | null;
+  locale?: string | null;
+  timezoneId?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Viewport widths to sweep: a list of `widths`, or every `step` pixels from
+ * `min` to `max` (inclusive)
+ */
+export interface LayoutSweepParams extends SessionScopedParams {
+  target: ElementTarget;
+  widths?: number[];
+  range?: { min: number; max: number; step: number };
+  height?: number; // Viewport height during the sweep (default: the current height)
+  properties?: string[]; // Computed properties to read at each width
+  screenshots?: boolean; // Save a viewport screenshot at each width (default: false)
   maxResults?: number;
 }
 
-export interface PageInteractParams {
+export interface PerformanceStartTraceParams extends SessionScopedParams {
+  mode?: "trace" | "profile"; // Performance trace (default) or JS CPU profile
+  categories?: string[]; // Trace categories; "-name" excludes one (trace mode)
+  samplingIntervalUs?: number; // Sampling interval in microseconds (profile mode)
+}
+
+export interface PerformanceStopTraceParams extends SessionScopedParams {
+  path?: string; // File to write (default: a temp file)
+  topN?: number; // Hot functions and long tasks to list (default: 10, max: 50)
+}
+
+export interface PageInteractParams extends SessionScopedParams {
   actions: PageAction[];
+  frame?: FrameTarget[]; // Run the actions inside this iframe
 }
 
-export interface GetPageContentParams {
+export interface GetPageContentParams extends SessionScopedParams {
   start?: number;
   length?: number;
 }
 
-export interface ScreenshotParams {
+export interface ScreenshotParams extends SessionScopedParams {
   fullPage?: boolean;
   quality?: number;
   type?: "png" | "jpeg";
 }
 
-export interface EvaluateJavaScriptParams {
+export interface EvaluateJavaScriptParams extends SessionScopedParams {
   code: string;
+  frame?: FrameTarget[]; // Evaluate inside this iframe
   timeout?: number;
   saveToFile?: boolean;
 }
 
-export interface GetConsoleLogsParams {
+export interface GetConsoleLogsParams extends SessionScopedParams {
   level?: "log" | "warn" | "error" | "info" | "debug";
   limit?: number;
   search?: string;
 }
 
+export interface GetNetworkRequestsParams extends SessionScopedParams {
+  url?: string;
+  urlPattern?: string;
+  statusMin?: number;
+  statusMax?: number;
+  resourceType?: string | string[];
+  failedOnly?: boolean;
+  limit?: number;
+}
+
+export interface GetResponseBodyParams extends SessionScopedParams {
+  requestId: string;
+  start?: number;
+  length?: number;
+  saveToFile?: boolean;
+}
+
+export interface ExportHarParams extends SessionScopedParams {
+  path?: string;
+  includeContent?: boolean;
+}
+
+export type NetworkRouteParams = RouteRule & SessionScopedParams;
+
+export interface NetworkUnrouteParams extends SessionScopedParams {
+  id?: string;
+  all?: boolean;
+}
+
+export interface GetBlockedRequestsParams extends SessionScopedParams {
+  limit?: number;
+}
+
+export interface PagesSelectParams extends SessionScopedParams {
+  id: string;
+}
+
+export interface PagesNewParams extends SessionScopedParams {
+  url?: string;
+  select?: boolean; // Make the new page active (default: true)
+}
+
+export interface PagesCloseParams extends SessionScopedParams {
+  id: string;
+}
+
+/**
+ * Element addressed by a page action: either a `selector` (Playwright
+ * selector, as before) or an element `target`. Exactly one is required.
+ */
+export interface ElementActionTarget {
+  selector?: string;
+  target?: ElementTarget;
+}
+
 export type PageAction =
   | ClickAction
   | FillAction
@@ -188,9 +586,8 @@ export type PageAction =
   | WaitForSelectorAction
   | WaitForNavigationAction;
 
-export interface ClickAction {
+export interface ClickAction extends ElementActionTarget {
   type: "click";
-  selector: string;
   options?: {
     button?: "left" | "right" | "middle";
     clickCount?: number;
@@ -198,33 +595,29 @@ export interface ClickAction {
   };
 }
 
-export interface FillAction {
+export interface FillAction extends ElementActionTarget {
   type: "fill";
-  selector: string;
   value: string;
 }
 
-export interface TypeAction {
+export interface TypeAction extends ElementActionTarget {
   type: "type";
-  selector: string;
   text: string;
   options?: {
     delay?: number;
   };
 }
 
-export interface PressAction {
+export interface PressAction extends ElementActionTarget {
   type: "press";
-  selector: string;
   key: string;
   options?: {
     delay?: number;
   };
 }
 
-export interface SelectAction {
+export interface SelectAction extends ElementActionTarget {
   type: "select";
-  selector: string;
   values: string | string[];
 }
 
@@ -233,9 +626,8 @@ export interface WaitAction {
   delay: number;
 }
 
-export interface WaitForSelectorAction {
+export interface WaitForSelectorAction extends ElementActionTarget {
   type: "waitForSelector";
-  selector: string;
   options?: {
     state?: "attached" | "detached" | "visible" | "hidden";
     timeout?: number;
@@ -256,12 +648,28 @@ export interface WaitForNavigationAction {
 
 export interface SessionStartResult {
   ok: boolean;
+  session: string;
 }
 
 export interface SessionStopResult {
   ok: boolean;
 }
 
+export interface SessionInfo {
+  name: string;
+  scenario?: string;
+  device?: string;
+  url: string; // URL of the active page
+  pageCount: number;
+  startedAt: number;
+  lastUsedAt: number;
+  current: boolean; // Used by tool calls that do not name a session
+}
+
+export interface SessionListResult {
+  sessions: SessionInfo[];
+}
+
 export interface NavigateResult {
   finalUrl: string;
 }
@@ -274,6 +682,7 @@ export interface GetElementResult {
 export interface ElementInfo {
   exists: boolean;
   nodeName?: string;
+  pseudo?: TargetPseudoElement; // Set for pseudo-element targets; nodeName, attributes and role are the originating element's
   attributes?: Record<string, string>;
   role?: string;
   boxModel?: BoxModel;
@@ -303,11 +712,168 @@ export interface GetCssProvenanceResult {
   results: CssProvenanceInfo[];
 }
 
+export interface CssForceStateResult {
+  matchCount: number;
+  states: ForcedPseudoState[];
+}
+
+export interface CssSetPropertyResult {
+  id: string; // Edit id on the undo stack
+  declaration: string; // Declaration added, e.g. "color: red !important;"
+  rule?: { selector: string; stylesheetUrl?: string }; // Edited rule (inline styles otherwise)
+  results: { element: string; value: string | null }[]; // New computed value per edited element
+  editCount: number; // Edits on the undo stack
+}
+
+export interface CssRevertAllResult {
+  revertedCount: number; // Edits reverted
+}
+
+/**
+ * Emulation in effect on the active page, as seen by the page
+ */
+export interface EmulationState {
+  device?: string; // Device preset the session started with
+  viewport: { width: number; height: number } | null;
+  deviceScaleFactor: number;
+  colorScheme: "light" | "dark" | "no-preference";
+  reducedMotion: "reduce" | "no-preference";
+  forcedColors: "active" | "none";
+  media: "screen" | "print";
+  locale: string;
+  timezoneId: string;
+  userAgent: string;
+  overrides: EmulationSettings; // Overrides set with devtools.emulation.set
+}
+
+/**
+ * Performance of the active page. Times are milliseconds since the start
+ * of the navigation; elements are CSS selectors recorded when the entry
+ * was observed.
+ */
+export interface PerformanceMetricsResult {
+  url: string;
+  navigation?: NavigationTiming; // Absent for pages without a navigation entry (e.g. about:blank)
+  paint: {
+    firstPaintMs?: number;
+    firstContentfulPaintMs?: number;
+  };
+  lcp?: {
+    timeMs: number;
+    size: number; // Rendered area in CSS pixels
+    element?: string;
+    url?: string; // Image URL for image candidates
+  };
+  cls: {
+    value: number; // Largest session window of unexpected layout shifts
+    shifts: LayoutShiftInfo[]; // The shifts in that window
+  };
+  inp?: InteractionInfo; // Absent until the page has had an interaction
+  longTasks: {
+    count: number;
+    totalBlockingTimeMs: number; // Time beyond 50ms of each long task after FCP
+    longestMs: number;
+    recent: { startMs: number; durationMs: number; attribution: string }[]; // Last 10
+  };
+  counters: Record<string, number>; // CDP Performance.getMetrics, e.g. JSHeapUsedSize, LayoutCount
+}
+
+export interface NavigationTiming {
+  type: string; // "navigate", "reload", "back_forward" or "prerender"
+  redirectMs: number;
+  dnsMs: number;
+  connectMs: number;
+  ttfbMs: number; // Time to the first response byte
+  responseEndMs: number;
+  domInteractiveMs: number;
+  domContentLoadedMs: number;
+  loadMs: number; // 0 until the load event has finished
+  transferSize: number;
+  encodedBodySize: number;
+  decodedBodySize: number;
+}
+
+export interface LayoutShiftInfo {
+  timeMs: number;
+  value: number;
+  sources: {
+    element?: string;
+    previousRect: { x: number; y: number; width: number; height: number };
+    currentRect: { x: number; y: number; width: number; height: number };
+  }[];
+}
+
+/**
+ * The interaction that sets INP (the slowest one, ignoring one outlier
+ * per 50 interactions)
+ */
+export interface InteractionInfo {
+  valueMs: number;
+  interactionCount: number;
+  type: string; // Event type, e.g. "pointerup", "keydown"
+  element?: string;
+  timeMs: number;
+  inputDelayMs: number;
+  processingMs: number;
+  presentationDelayMs: number;
+}
+
+export interface PerformanceStartTraceResult {
+  ok: boolean;
+  mode: "trace" | "profile";
+}
+
+export interface PerformanceStopTraceResult {
+  mode: "trace" | "profile";
+  tracePath: string; // Loadable in the Chrome DevTools Performance panel
+  durationMs: number;
+  hotFunctions: HotFunction[]; // Most self time first
+  longTasks: TraceTask[]; // Tasks of 50ms or more, longest first
+}
+
+/**
+ * JS function aggregated over the sampled CPU profile
+ */
+export interface HotFunction {
+  functionName: string; // "(anonymous)" for unnamed functions
+  url?: string;
+  line?: number; // 0-based
+  column?: number;
+  selfMs: number; // Time spent in the function itself
+  totalMs: number; // Time spent in the function and its callees
+}
+
+export interface TraceTask {
+  startMs: number; // Since the start of the recording
+  durationMs: number;
+  breakdown: { name: string; durationMs: number }[]; // Longest trace events (trace mode) or functions by self time (profile mode) in the task
+}
+
+export interface LayoutSweepResult {
+  matchCount: number;
+  elements: string[]; // Matched elements, in the order of each row's results
+  rows: LayoutSweepRow[]; // One per width, narrowest first
+  changedAt: number[]; // Widths where a computed value differs from the previous width
+}
+
+export interface LayoutSweepRow {
+  width: number;
+  results: LayoutSweepElement[];
+  changed?: string[]; // Properties whose computed value differs from the previous width, on any element
+  screenshotPath?: string;
+}
+
+export interface LayoutSweepElement {
+  boxModel?: BoxModel; // Absent when the element is not rendered at this width
+  computed?: Record<string, string>;
+}
+
 export interface PageInteractResult {
   ok: boolean;
   failedAtIndex?: number;
   error?: string;
   action?: PageAction;
+  blockedNavigations?: BlockedRequest[];
 }
 
 export interface GetPageContentResult {
@@ -331,11 +897,114 @@ export interface GetConsoleLogsResult {
   totalMessages: number;
 }
 
+export interface GetNetworkRequestsResult {
+  requests: NetworkRequest[];
+  totalRequests: number;
+}
+
+export interface GetResponseBodyResult {
+  requestId: string;
+  url: string;
+  status: number;
+  mimeType?: string;
+  body?: string;
+  fullLength?: number;
+  bodyPath?: string;
+  bodySize: number;
+}
+
+export interface ExportHarResult {
+  harPath: string;
+  entryCount: number;
+}
+
+export interface NetworkRouteResult {
+  route: RouteInfo;
+}
+
+export interface NetworkUnrouteResult {
+  removed: string[];
+}
+
+export interface NetworkListRoutesResult {
+  routes: RouteInfo[];
+}
+
+export interface GetBlockedRequestsResult {
+  blockedRequests: BlockedRequest[];
+  totalBlocked: number;
+}
+
+export interface PageInfo {
+  id: string;
+  url: string;
+  title: string;
+  openerId?: string;
+  active: boolean;
+}
+
+export interface PagesListResult {
+  pages: PageInfo[];
+  activePageId: string;
+}
+
+export interface PagesSelectResult {
+  page: PageInfo;
+  revertedEdits?: string[]; // Live style edits of the previous page that were reverted
+}
+
+export interface PagesNewResult {
+  page: PageInfo;
+}
+
+export interface PagesCloseResult {
+  closed: string;
+  activePageId: string;
+}
+
 export interface CssProvenanceInfo {
   property: string;
   computedValue: string | null;
   winner?: CssDeclarationSource;
   contributors?: CssDeclarationSource[];
+  inheritance?: CssInheritance; // Set when the value is inherited from an ancestor
+  longhands?: CssProvenanceInfo[]; // Per-longhand provenance when the property is a shorthand
+  variables?: CssVariableReference[]; // var() references in the winning value (with resolveVariables)
+}
+
+export interface CssVariableReference {
+  name: string; // Custom property referenced (e.g. "--text-primary")
+  element: string; // Element the reference is resolved on
+  value: string | null; // Computed value of the custom property, null when unset
+  fallback?: string; // Fallback argument of var(), as written
+  usedFallback: boolean; // The custom property is unset, so the fallback applies
+  declaration?: CssDeclarationSource; // Winning declaration of the custom property
+  inheritance?: CssInheritance; // Set when the declaration is on an ancestor
+  registration?: CssPropertyRegistration; // Set for registered custom properties
+  references?: CssVariableReference[]; // var() references in the declaration's value (or in the fallback when usedFallback)
+  cycle?: boolean; // The reference is part of a dependency cycle and was not followed
+}
+
+export interface CssPropertyRegistration {
+  source: "at-rule" | "script"; // @property rule or CSS.registerProperty()
+  syntax: string;
+  inherits: boolean;
+  initialValue?: string;
+  line?: number; // Location of the @property rule
+  column?: number;
+  snippet?: string;
+}
+
+export interface CssInheritance {
+  from: string; // Ancestor whose declaration the value comes from (e.g. "div#app.layout")
+  depth: number; // Levels above the target (1 = parent)
+  path: InheritanceStep[]; // From the target (depth 0) up to the declaring ancestor
+}
+
+export interface InheritanceStep {
+  element: string;
+  depth: number;
+  declaration?: CssDeclarationSource; // Winning declaration at this level (e.g. an `inherit` keyword), absent when implicitly inherited
 }
 
 export interface CssDeclarationSource {
@@ -347,6 +1016,120 @@ export interface CssDeclarationSource {
   important?: boolean;
   snippet?: string;
   value?: string;
+  shadowContext?: "host" | "slotted" | "part"; // Rule matched through :host, ::slotted() or ::part()
+  origin?: "user-agent" | "user" | "author"; // Cascade origin
+  layer?: string; // Cascade layer (dot-separated for nested layers), absent when unlayered
+  specificity?: Specificity; // Specificity of the selector that matched (stylesheet rules)
+  overriddenBy?: CascadeReason; // Why this declaration lost to the winner (contributors only)
+  shorthand?: { name: string; value: string }; // Shorthand declaration the value comes from (e.g. margin: 0 auto)
+  generated?: CssGeneratedLocation; // Location in the served stylesheet, set when the location above comes from a source map
+  atRules?: CssAtRule[]; // Enclosing at-rules, outermost first
+  active?: boolean; // False for declarations in conditional rules that do not currently apply (contributors only)
+}
+
+export interface CssGeneratedLocation {
+  stylesheetUrl?: string;
+  line: number;
+  column: number;
+  snippet?: string;
+}
+
+export interface CssAtRule {
+  type:
+    | "media"
+    | "supports"
+    | "container"
+    | "layer"
+    | "scope"
+    | "starting-style";
+  text: string; // Condition, layer name or scope as written
+  name?: string; // Container name
+  active?: boolean; // Whether the condition currently holds (media, supports, container)
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Selector specificity (https://drafts.csswg.org/selectors/#specificity-rules)
+ */
+export interface Specificity {
+  a: number; // ID selectors
+  b: number; // Class, attribute and pseudo-class selectors
+  c: number; // Type selectors and pseudo-elements
+}
+
+/**
+ * Cascade step that decided between two declarations, in cascade order
+ */
+export type CascadeReason =
+  | "importance" // !important against normal
+  | "origin" // User-agent, user and author origins
+  | "shadow-context" // Shadow DOM encapsulation context
+  | "inline" // Style attribute against rules
+  | "layer" // Cascade layer order
+  | "specificity" // Selector specificity
+  | "order"; // Source order
+
+// ============================================================================
+// HAR 1.2 Types (subset we write)
+// ============================================================================
+
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    pages: [];
+    entries: HarEntry[];
+  };
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarNameValue[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: "base64";
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  _resourceType: string;
+  _failureText?: string;
+}
+
+export interface HarNameValue {
+  name: string;
+  value: string;
 }
 
 // ============================================================================
@@ -355,17 +1138,29 @@ export interface CssDeclarationSource {
 
 export interface CDPNode {
   nodeId: number;
+  backendNodeId: number;
   nodeType: number;
   nodeName: string;
   localName: string;
   nodeValue: string;
   attributes?: string[];
+  children?: CDPNode[];
+  shadowRoots?: CDPNode[];
+  shadowRootType?: "user-agent" | "open" | "closed";
+  pseudoType?: string;
+  pseudoElements?: CDPNode[];
 }
 
 export interface CDPDocument {
   nodeId: number;
 }
 
+export interface FrameDocument {
+  cdpSession: CDPSession; // Session that owns the frame (a separate one for out-of-process iframes)
+  nodeId: number; // Document node of the frame in that session
+  detach: () => Promise<void>; // Release the session if it was attached for this lookup
+}
+
 export interface CDPComputedStyle {
   name: string;
   value: string;
@@ -379,10 +1174,51 @@ export interface CDPMatchedRule {
 export interface CDPRule {
   selectorList: CDPSelectorList;
   style: CDPStyle;
-  origin: "user-agent" | "user" | "inspector" | "regular";
+  origin: "user-agent" | "user" | "injected" | "inspector" | "regular";
+  styleSheetId?: string;
+  layers?: CDPAtRule[]; // Innermost first
+  media?: CDPMedia[]; // Innermost first
+  supports?: CDPSupports[]; // Innermost first
+  containerQueries?: CDPContainerQuery[]; // Innermost first
+  scopes?: CDPAtRule[]; // Innermost first
+  startingStyles?: CDPAtRule[]; // Innermost first
+  ruleTypes?: CDPRuleType[]; // Kinds of the enclosing rules, innermost first
+}
+
+export type CDPRuleType =
+  | "MediaRule"
+  | "SupportsRule"
+  | "ContainerRule"
+  | "LayerRule"
+  | "ScopeRule"
+  | "StyleRule"
+  | "StartingStyleRule";
+
+export interface CDPAtRule {
+  text: string;
+  range?: CDPSourceRange;
   styleSheetId?: string;
 }
 
+export interface CDPMedia extends CDPAtRule {
+  source: "mediaRule" | "importRule" | "linkedSheet" | "inlineSheet";
+  mediaList?: { active: boolean }[];
+}
+
+export interface CDPSupports extends CDPAtRule {
+  active: boolean;
+}
+
+export interface CDPContainerQuery extends CDPAtRule {
+  name?: string;
+}
+
+export interface CDPLayerData {
+  name: string;
+  subLayers?: CDPLayerData[];
+  order: number; // Higher wins for normal declarations
+}
+
 export interface CDPSelectorList {
   selectors: CDPSelector[];
   text: string;
@@ -390,12 +1226,14 @@ export interface CDPSelectorList {
 
 export interface CDPSelector {
   text: string;
+  specificity?: Specificity;
 }
 
 export interface CDPStyle {
   cssProperties: CDPProperty[];
   shorthandEntries: CDPShorthandEntry[];
   styleSheetId?: string;
+  cssText?: string; // Text between the braces (or of the style attribute)
   range?: CDPSourceRange;
 }
 
@@ -408,6 +1246,7 @@ export interface CDPProperty {
   parsedOk?: boolean;
   disabled?: boolean;
   range?: CDPSourceRange;
+  longhandProperties?: CDPProperty[]; // Set on shorthands
 }
 
 export interface CDPShorthandEntry {
@@ -426,6 +1265,7 @@ export interface CDPSourceRange {
 export interface CDPStyleSheetHeader {
   styleSheetId: string;
   sourceURL: string;
+  sourceMapURL?: string;
   origin: string;
   title: string;
   disabled: boolean;
@@ -441,5 +1281,33 @@ export interface CDPStyleSheetHeader {
 
 export interface CDPMatchedStyles {
   inlineStyle?: CDPStyle;
+  attributesStyle?: CDPStyle; // Presentational hints (e.g. width="100")
   matchedCSSRules?: CDPMatchedRule[];
+  inherited?: CDPInheritedStyleEntry[]; // One entry per flat tree ancestor, parent first
+  cssPropertyRules?: CDPPropertyRule[]; // @property rules
+  cssPropertyRegistrations?: CDPPropertyRegistration[]; // CSS.registerProperty() calls
+}
+
+export interface CDPValue {
+  text: string;
+  range?: CDPSourceRange;
+}
+
+export interface CDPPropertyRule {
+  styleSheetId?: string;
+  origin: CDPRule["origin"];
+  propertyName: CDPValue;
+  style: CDPStyle; // syntax, inherits and initial-value descriptors
+}
+
+export interface CDPPropertyRegistration {
+  propertyName: string;
+  initialValue?: CDPValue;
+  inherits: boolean;
+  syntax: string;
+}
+
+export interface CDPInheritedStyleEntry {
+  inlineStyle?: CDPStyle;
+  matchedCSSRules: CDPMatchedRule[];
 }
@@ -34,109 +34,109 @@ describe("CSS Provenance and Cascade", () => {
     }
   });
 
-  describe("Shorthand Property Rejection", () => {
-    it("should reject shorthand property 'margin'", async () => {
+  describe("Shorthand Properties", () => {
+    it("should trace 'margin' per longhand", async () => {
       await sessionStart({}, loadedConfig);
       await navigate({ url: "/shorthand-test.html" });
 
-      try {
-        await getCssProvenance({
-          target: { kind: "selector", value: ".margin-box" },
-          property: "margin",
-        });
-        expect.fail("Should have thrown an error for shorthand property");
-      } catch (err: any) {
-        expect(err.error.message).toMatch(/shorthand/i);
-      }
-    });
-
-    it("should reject shorthand property 'border'", async () => {
-      await sessionStart({}, loadedConfig);
-      await navigate({ url: "/shorthand-test.html" });
+      const result = await getCssProvenance({
+        target: { kind: "selector", value: ".margin-box" },
+        property: "margin",
+      });
 
-      try {
-        await getCssProvenance({
-          target: { kind: "selector", value: ".border-box" },
-          property: "border",
-        });
-        expect.fail("Should have thrown an error for shorthand property");
-      } catch (err: any) {
-        expect(err.error.message).toMatch(/shorthand/i);
-      }
+      const info = result.results[0];
+      expect(info.property).toBe("margin");
+      expect(info.computedValue).toBe("10px 15px 20px 25px");
+      expect(info.winner).toBeUndefined();
+      expect(info.longhands?.map((l) => l.property)).toEqual([
+        "margin-top",
+        "margin-right",
+        "margin-bottom",
+        "margin-left",
+      ]);
+      expect(info.longhands?.map((l) => l.winner?.value)).toEqual([
+        "10px",
+        "15px",
+        "20px",
+        "25px",
+      ]);
+      expect(info.longhands?.[0].winner?.selector).toBe(".margin-box");
     });
 
-    it("should reject shorthand property 'padding'", async () => {
+    it("should trace nested shorthands such as 'border-top'", async () => {
       await sessionStart({}, loadedConfig);
       await navigate({ url: "/shorthand-test.html" });
 
-      try {
-        await getCssProvenance({
-          target: { kind: "selector", value: ".margin-box" },
-          property: "padding",
-        });
-        expect.fail("Should have thrown an error for shorthand property");
-      } catch (err: any) {
-        expect(err.error.message).toMatch(/shorthand/i);
-      }
-    });
-
-    it("should reject shorthand property 'background'", async () => {
-      await sessionStart({}, loadedConfig);
-      await navigate({ url: "/shorthand-test.html" });
+      const result = await getCssProvenance({
+        target: { kind: "selector", value: ".border-box" },
+        property: "border-top",
+      });
 
-      try {
-        await getCssProvenance({
-          target: { kind: "selector", value: ".background-box" },
-          property: "background",
-        });
-        expect.fail("Should have thrown an error for shorthand property");
-      } catch (err: any) {
-        expect(err.error.message).toMatch(/shorthand/i);
-      }
+      const longhands = result.results[0].longhands ?? [];
+      expect(longhands.map((l) => l.property)).toEqual(
+        expect.arrayContaining([
+          "border-top-width",
+          "border-top-style",
+          "border-top-color",
+        ]),
+      );
+      const color = longhands.find((l) => l.property === "border-top-color");
+      expect(color?.winner?.value).toBe("rgb(255, 0, 0)");
     });
 
-    it("should reject shorthand property 'font'", async () => {
+    it("should report the originating shorthand declaration", async () => {
       await sessionStart({}, loadedConfig);
       await navigate({ url: "/shorthand-test.html" });
 
-      try {
-        await getCssProvenance({
-          target: { kind: "selector", value: ".font-box" },
-          property: "font",
-        });
-        expect.fail("Should have thrown an error for shorthand property");
-      } catch (err: any) {
-        expect(err.error.message).toMatch(/shorthand/i);
-      }
+      const result = await getCssProvenance({
+        target: { kind: "selector", value: ".centered-box" },
+        property: "margin-left",
+      });
+
+      const winner = result.results[0].winner;
+      expect(winner?.selector).toBe(".centered-box");
+      expect(winner?.value).toBe("auto");
+      expect(winner?.shorthand).toEqual({ name: "margin", value: "0 auto" });
+      expect(winner?.line).toBeDefined();
+      expect(winner?.snippet).toContain("margin: 0 auto");
     });
 
-    it("should reject shorthand property 'flex'", async () => {
+    it("should report the shorthand for every longhand it sets", async () => {
       await sessionStart({}, loadedConfig);
       await navigate({ url: "/shorthand-test.html" });
 
-      try {
-        await getCssProvenance({
-          target: { kind: "selector", value: ".flex-box" },
-          property: "flex",
+      const result = await getCssProvenance({
+        target: { kind: "selector", value: ".gap-grid" },
+        property: "gap",
+      });
+
+      const longhands = result.results[0].longhands ?? [];
+      expect(longhands.map((l) => l.property)).toEqual([
+        "row-gap",
+        "column-gap",
+      ]);
+      expect(longhands.map((l) => l.winner?.value)).toEqual(["10px", "20px"]);
+      for (const longhand of longhands) {
+        expect(longhand.winner?.shorthand).toEqual({
+          name: "gap",
+          value: "10px 20px",
         });
-        expect.fail("Should have thrown an error for shorthand property");
-      } catch (err: any) {
-        expect(err.error.message).toMatch(/shorthand/i);
       }
     });
 
-    it("should reject shorthand property 'border-top'", async () => {
+    it("should not report a shorthand for longhand declarations", async () => {
       await sessionStart({}, loadedConfig);
       await navigate({ url: "/shorthand-test.html" });
 
-      try {
-        await getCssProvenance({
-          target: { kind: "selector", value: ".border-box" },
-          property: "border-top",
-        });
-        expect.fail("Should have thrown an error for shorthand property");
-      } catch (err: any) {
-        expect(err.error.message).toMatch(/shorthand/i);
+      const result = await getCssProvenance({
+        target: { kind: "selector", value: ".flex-box" },
+        property: "flex",
+      });
+
+      const longhands = result.results[0].longhands ?? [];
+      expect(longhands).toHaveLength(3);
+      for (const longhand of longhands) {
+        expect(longhand.winner?.shorthand).toBeUndefined();
       }
     });
   });
@@ -250,6 +250,437 @@ describe("CSS Provenance and Cascade", () => {
     });
   });
 
+  describe("Cascade Ordering", () => {
+    it("should let higher specificity beat later rules", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/cascade-order.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "featured-card" },
+        property: "padding-left",
+        includeContributors: true,
+      });
+
+      expect(result.results[0].winner?.selector).toBe(".card.featured");
+      expect(result.results[0].winner?.specificity).toEqual({
+        a: 0,
+        b: 2,
+        c: 0,
+      });
+      expect(result.results[0].contributors?.[0].selector).toBe(".card");
+      expect(result.results[0].contributors?.[0].overriddenBy).toBe(
+        "specificity",
+      );
+    });
+
+    it("should order normal declarations by cascade layer", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/cascade-order.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "layered" },
+        property: "color",
+        includeContributors: true,
+      });
+
+      // Unlayered beats layered, even against an ID selector
+      expect(result.results[0].winner?.selector).toBe(".layered");
+      expect(result.results[0].winner?.layer).toBeUndefined();
+      expect(
+        result.results[0].contributors?.map((c) => [c.layer, c.overriddenBy]),
+      ).toEqual([
+        ["theme", "layer"],
+        ["base", "layer"],
+      ]);
+    });
+
+    it("should reverse layer order for !important declarations", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/cascade-order.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "layered" },
+        property: "background-color",
+        includeContributors: true,
+      });
+
+      expect(result.results[0].computedValue).toBe("rgb(255, 0, 0)");
+      expect(result.results[0].winner?.layer).toBe("base");
+      expect(result.results[0].contributors?.[0].layer).toBe("theme");
+    });
+
+    it("should report origin for user-agent declarations", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/cascade-order.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "plain-button" },
+        property: "display",
+        includeContributors: true,
+      });
+
+      expect(result.results[0].winner?.origin).toBe("author");
+      const userAgent = result.results[0].contributors?.find(
+        (c) => c.origin === "user-agent",
+      );
+      expect(userAgent?.overriddenBy).toBe("origin");
+    });
+
+    it("should report importance as the reason for losing to !important", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-cascade.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "selector", value: ".important-test" },
+        property: "background-color",
+        includeContributors: true,
+      });
+
+      expect(result.results[0].contributors?.[0].overriddenBy).toBe(
+        "importance",
+      );
+    });
+  });
+
+  describe("Inheritance", () => {
+    it("should trace an inherited value to the declaring ancestor", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-cascade.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "deep-child" },
+        property: "color",
+      });
+
+      const info = result.results[0];
+      expect(info.computedValue).toBe("rgb(128, 0, 128)");
+      expect(info.winner?.selector).toBe(".theme");
+      expect(info.inheritance?.from).toBe("section#theme-root.theme");
+      expect(info.inheritance?.depth).toBe(2);
+      expect(info.inheritance?.path.map((step) => step.element)).toEqual([
+        "p#deep-child.note",
+        "div.panel",
+        "section#theme-root.theme",
+      ]);
+    });
+
+    it("should follow explicit inherit and unset keywords", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-cascade.html" });
+
+      const width = await getCssProvenance({
+        target: { kind: "id", value: "inherit-box" },
+        property: "border-top-width",
+      });
+      expect(width.results[0].computedValue).toBe("3px");
+      expect(width.results[0].winner?.selector).toBe(".theme");
+      expect(width.results[0].inheritance?.path[0].declaration?.value).toBe(
+        "inherit",
+      );
+
+      const color = await getCssProvenance({
+        target: { kind: "id", value: "inherit-box" },
+        property: "color",
+      });
+      expect(color.results[0].winner?.selector).toBe(".theme");
+      expect(color.results[0].inheritance?.depth).toBe(1);
+    });
+
+    it("should not report inheritance for non-inherited properties", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-cascade.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "deep-child" },
+        property: "border-top-width",
+      });
+
+      expect(result.results[0].inheritance).toBeUndefined();
+    });
+  });
+
+  describe("At-rule Context", () => {
+    it("should report the enclosing @media rule", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/conditional-rules.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "responsive" },
+        property: "padding-top",
+      });
+
+      const winner = result.results[0].winner;
+      expect(winner?.value).toBe("16px");
+      expect(winner?.atRules).toEqual([
+        expect.objectContaining({
+          type: "media",
+          text: "(min-width: 768px)",
+          active: true,
+        }),
+      ]);
+      expect(winner?.atRules?.[0].line).toBeDefined();
+    });
+
+    it("should list nested at-rules outermost first", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/conditional-rules.html" });
+
+      const color = await getCssProvenance({
+        target: { kind: "id", value: "responsive" },
+        property: "color",
+      });
+      expect(
+        color.results[0].winner?.atRules?.map((atRule) => atRule.type),
+      ).toEqual(["supports", "media"]);
+
+      const margin = await getCssProvenance({
+        target: { kind: "id", value: "responsive" },
+        property: "margin-top",
+      });
+      expect(margin.results[0].winner?.layer).toBe("base");
+      expect(
+        margin.results[0].winner?.atRules?.map((atRule) => atRule.type),
+      ).toEqual(["layer", "media"]);
+    });
+
+    it("should report container queries", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/conditional-rules.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "card-title" },
+        property: "font-size",
+      });
+
+      const [container] = result.results[0].winner?.atRules ?? [];
+      expect(result.results[0].winner?.value).toBe("14px");
+      expect(container.type).toBe("container");
+      expect(container.name).toBe("card");
+      expect(container.text).toContain("min-width: 100px");
+    });
+
+    it("should not list inactive rules by default", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/conditional-rules.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "responsive" },
+        property: "padding-top",
+        includeContributors: true,
+      });
+
+      const contributors = result.results[0].contributors ?? [];
+      expect(contributors.map((c) => c.value)).toEqual(["4px"]);
+      expect(contributors.every((c) => c.active !== false)).toBe(true);
+    });
+
+    it("should list rules for other breakpoints as inactive", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/conditional-rules.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "responsive" },
+        property: "padding-top",
+        includeContributors: true,
+        contributorFilter: "inactive",
+      });
+
+      const contributors = result.results[0].contributors ?? [];
+      expect(contributors).toHaveLength(1);
+      expect(contributors[0].value).toBe("2px");
+      expect(contributors[0].active).toBe(false);
+      expect(contributors[0].atRules).toEqual([
+        { type: "media", text: "(max-width: 480px)", active: false },
+      ]);
+    });
+
+    it("should flip active rules under a narrower viewport", async () => {
+      await sessionStart({ scenario: "iphone" }, loadedConfig);
+      await navigate({ url: "/conditional-rules.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "responsive" },
+        property: "padding-top",
+        includeContributors: true,
+        contributorFilter: "all",
+      });
+
+      const info = result.results[0];
+      expect(info.winner?.value).toBe("2px");
+      const inactive = info.contributors?.filter((c) => c.active === false);
+      expect(inactive?.map((c) => c.value)).toEqual(["16px"]);
+    });
+
+    it("should list unsupported features and other container sizes", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/conditional-rules.html" });
+
+      const color = await getCssProvenance({
+        target: { kind: "id", value: "responsive" },
+        property: "color",
+        includeContributors: true,
+        contributorFilter: "inactive",
+      });
+      expect(color.results[0].contributors?.[0].atRules?.[0]).toMatchObject({
+        type: "supports",
+        active: false,
+      });
+
+      const fontSize = await getCssProvenance({
+        target: { kind: "id", value: "card-title" },
+        property: "font-size",
+        includeContributors: true,
+        contributorFilter: "inactive",
+      });
+      const [inactive] = fontSize.results[0].contributors ?? [];
+      expect(inactive.value).toBe("24px");
+      expect(inactive.atRules?.[0]).toMatchObject({
+        type: "container",
+        name: "card",
+        active: false,
+      });
+    });
+  });
+
+  describe("Custom Property Resolution", () => {
+    it("should not follow var() references unless requested", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-variables.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "token" },
+        property: "color",
+      });
+
+      expect(result.results[0].winner?.value).toBe("var(--text-primary)");
+      expect(result.results[0].variables).toBeUndefined();
+    });
+
+    it("should follow a chain of design tokens", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-variables.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "token" },
+        property: "color",
+        resolveVariables: true,
+      });
+
+      const info = result.results[0];
+      expect(info.computedValue).toBe("rgb(37, 99, 235)");
+
+      const [textPrimary] = info.variables ?? [];
+      expect(textPrimary.name).toBe("--text-primary");
+      expect(textPrimary.value).toBe("rgb(37, 99, 235)");
+      expect(textPrimary.usedFallback).toBe(false);
+      expect(textPrimary.declaration?.selector).toBe(":root");
+      expect(textPrimary.declaration?.value).toBe("var(--blue-600)");
+      expect(textPrimary.declaration?.line).toBeDefined();
+      expect(textPrimary.inheritance?.from).toBe("html");
+
+      const [blue] = textPrimary.references ?? [];
+      expect(blue.name).toBe("--blue-600");
+      expect(blue.element).toBe("html");
+      expect(blue.declaration?.value).toBe("rgb(37, 99, 235)");
+      expect(blue.references).toBeUndefined();
+    });
+
+    it("should resolve tokens where they are declared", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-variables.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "dark-token" },
+        property: "color",
+        resolveVariables: true,
+      });
+
+      // --text-primary is substituted on :root, before the theme overrides
+      // --blue-600, so the dark theme does not reach it
+      const [textPrimary] = result.results[0].variables ?? [];
+      expect(textPrimary.value).toBe("rgb(37, 99, 235)");
+      expect(textPrimary.references?.[0].declaration?.selector).toBe(":root");
+    });
+
+    it("should report fallback usage", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-variables.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "fallback" },
+        property: "color",
+        resolveVariables: true,
+      });
+
+      const [missing] = result.results[0].variables ?? [];
+      expect(missing.name).toBe("--missing-token");
+      expect(missing.value).toBeNull();
+      expect(missing.fallback).toBe("var(--blue-600)");
+      expect(missing.usedFallback).toBe(true);
+      expect(missing.declaration).toBeUndefined();
+      expect(missing.references?.[0].name).toBe("--blue-600");
+      expect(missing.references?.[0].value).toBe("rgb(37, 99, 235)");
+    });
+
+    it("should follow references inside other functions", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-variables.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "spaced" },
+        property: "padding-top",
+        resolveVariables: true,
+      });
+
+      expect(result.results[0].computedValue).toBe("16px");
+      expect(result.results[0].variables?.[0].name).toBe("--spacing-unit");
+      expect(result.results[0].variables?.[0].value).toBe("8px");
+    });
+
+    it("should include @property registrations", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-variables.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "accent-child" },
+        property: "border-top-width",
+        resolveVariables: true,
+      });
+
+      const [accent] = result.results[0].variables ?? [];
+      expect(accent.registration).toMatchObject({
+        source: "at-rule",
+        syntax: "<length>",
+        inherits: false,
+        initialValue: "4px",
+      });
+      expect(accent.registration?.line).toBeDefined();
+
+      // Not inherited from .accent: the initial value applies
+      expect(accent.value).toBe("4px");
+      expect(accent.declaration).toBeUndefined();
+      expect(accent.inheritance).toBeUndefined();
+    });
+
+    it("should stop at reference cycles", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/css-variables.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "cycle" },
+        property: "color",
+        resolveVariables: true,
+      });
+
+      const [loopA] = result.results[0].variables ?? [];
+      expect(loopA.value).toBeNull();
+      const [loopB] = loopA.references ?? [];
+      expect(loopB.name).toBe("--loop-b");
+      expect(loopB.references?.[0].name).toBe("--loop-a");
+      expect(loopB.references?.[0].cycle).toBe(true);
+    });
+  });
+
   describe("Inline Style Provenance", () => {
     it("should identify inline styles as source", async () => {
       await sessionStart({}, loadedConfig);
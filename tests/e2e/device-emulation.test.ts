@@ -1,9 +1,15 @@
 import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
-import { resolve } from "path";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
 import { loadConfig } from "../../src/config.js";
 import { sessionStart } from "../../src/tools/session-start.js";
 import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
 import { getElement } from "../../src/tools/get-element.js";
+import { emulationSet } from "../../src/tools/emulation-set.js";
+import { emulationGet } from "../../src/tools/emulation-get.js";
+import { sessionManager } from "../../src/session/manager.js";
 import { TestServer } from "./fixtures/server.js";
 
 describe("Device Emulation", () => {
@@ -155,6 +161,229 @@ describe("Device Emulation", () => {
     });
   });
 
+  describe("Runtime Emulation", () => {
+    async function computed(id: string, property: string) {
+      const result = await getElement({
+        target: { kind: "id", value: id },
+        include: { computed: [property] },
+      });
+      return result.results[0].computed?.[property];
+    }
+
+    it("should report the default emulation state", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/emulation-test.html" });
+
+      const state = await emulationGet({});
+
+      expect(state.device).toBeUndefined();
+      expect(state.viewport).toEqual({ width: 1280, height: 720 });
+      expect(state.deviceScaleFactor).toBe(1);
+      expect(state.colorScheme).toBe("light");
+      expect(state.media).toBe("screen");
+      expect(state.overrides).toEqual({});
+    });
+
+    it("should report the device the session started with", async () => {
+      await sessionStart({ scenario: "iphone" }, loadedConfig);
+
+      const state = await emulationGet({});
+
+      expect(state.device).toBe("iPhone 13");
+      expect(state.viewport?.width).toBe(390);
+      expect(state.deviceScaleFactor).toBe(3);
+      expect(state.userAgent).toContain("iPhone");
+    });
+
+    it("should change media features and clear them with null", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/emulation-test.html" });
+
+      const dark = await emulationSet({
+        colorScheme: "dark",
+        reducedMotion: "reduce",
+      });
+      expect(dark.colorScheme).toBe("dark");
+      expect(dark.reducedMotion).toBe("reduce");
+      expect(dark.overrides).toEqual({
+        colorScheme: "dark",
+        reducedMotion: "reduce",
+      });
+      expect(await computed("banner", "transition-duration")).toBe("0s");
+
+      const body = await getElement({
+        target: { kind: "selector", value: "body" },
+        include: { computed: ["background-color"] },
+      });
+      expect(body.results[0].computed?.["background-color"]).toBe(
+        "rgb(0, 0, 0)",
+      );
+
+      const reset = await emulationSet({ colorScheme: null });
+      expect(reset.colorScheme).toBe("light");
+      expect(reset.overrides).toEqual({ reducedMotion: "reduce" });
+    });
+
+    it("should emulate print media", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/emulation-test.html" });
+
+      const state = await emulationSet({ media: "print" });
+
+      expect(state.media).toBe("print");
+      expect(await computed("screen-only", "display")).toBe("none");
+    });
+
+    it("should change the viewport and pixel ratio", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/emulation-test.html" });
+
+      const state = await emulationSet({
+        viewport: { width: 390, height: 844 },
+        deviceScaleFactor: 3,
+      });
+
+      expect(state.viewport).toEqual({ width: 390, height: 844 });
+      expect(state.deviceScaleFactor).toBe(3);
+      expect(await computed("nav", "display")).toBe("none");
+
+      const reset = await emulationSet({
+        viewport: null,
+        deviceScaleFactor: null,
+      });
+      expect(reset.viewport).toEqual({ width: 1280, height: 720 });
+      expect(reset.deviceScaleFactor).toBe(1);
+      expect(await computed("nav", "display")).toBe("block");
+    });
+
+    it("should override locale, time zone and user agent", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/emulation-test.html" });
+
+      const state = await emulationSet({
+        locale: "de-DE",
+        timezoneId: "Europe/Berlin",
+        userAgent: "TestAgent/1.0",
+      });
+
+      expect(state.locale).toBe("de-DE");
+      expect(state.timezoneId).toBe("Europe/Berlin");
+      expect(state.userAgent).toBe("TestAgent/1.0");
+    });
+
+    it("should reject invalid viewports", async () => {
+      await sessionStart({}, loadedConfig);
+
+      try {
+        await emulationSet({ viewport: { width: 0, height: 600 } });
+        expect.fail("Should have thrown");
+      } catch (err: any) {
+        expect(err.error.code).toBe("UNEXPECTED_ERROR");
+      }
+    });
+  });
+
+  describe("Scenario Context Options", () => {
+    async function loadConfigWith(contextOptions: unknown) {
+      const dir = mkdtempSync(join(tmpdir(), "mcp-context-options-"));
+      const configPath = join(dir, "config.json");
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          hooks: {
+            modulePath: "./hooks.js",
+            scenarios: { custom: { use: "custom", contextOptions } },
+          },
+        }),
+      );
+      return loadConfig({ configPath });
+    }
+
+    it("should apply context options over the device descriptor", async () => {
+      await sessionStart({ scenario: "berlin" }, loadedConfig);
+      await navigate({ url: "/emulation-test.html" });
+
+      const state = await emulationGet({});
+
+      // Device settings are kept
+      expect(state.device).toBe("iPhone 13");
+      expect(state.viewport?.width).toBe(390);
+      expect(state.userAgent).toContain("iPhone");
+
+      // Context options are applied, without being runtime overrides
+      expect(state.locale).toBe("de-DE");
+      expect(state.timezoneId).toBe("Europe/Berlin");
+      expect(state.colorScheme).toBe("dark");
+      expect(state.overrides).toEqual({});
+    });
+
+    it("should send extra HTTP headers", async () => {
+      await sessionStart({ scenario: "berlin" }, loadedConfig);
+      await navigate({ url: "/emulation-test.html" });
+
+      const headers = await sessionManager
+        .getSession()
+        .page.evaluate<Record<string, string>>(
+          "fetch('/api/headers').then((response) => response.json())",
+        );
+
+      expect(headers["x-test-scenario"]).toBe("berlin");
+    });
+
+    it("should reject locale and time zone overrides set by the scenario", async () => {
+      await sessionStart({ scenario: "berlin" }, loadedConfig);
+      await navigate({ url: "/emulation-test.html" });
+
+      for (const params of [
+        { locale: "en-US" },
+        { timezoneId: "America/New_York" },
+      ]) {
+        try {
+          await emulationSet(params);
+          expect.fail("Should have thrown");
+        } catch (err: any) {
+          expect(err.error.code).toBe("UNEXPECTED_ERROR");
+          expect(err.error.message).toContain("scenario's contextOptions");
+        }
+      }
+
+      // Other overrides still apply
+      const state = await emulationSet({ userAgent: "TestAgent/1.0" });
+      expect(state.userAgent).toBe("TestAgent/1.0");
+      expect(state.locale).toBe("de-DE");
+      expect(state.timezoneId).toBe("Europe/Berlin");
+    });
+
+    it("should reject invalid options when loading config", async () => {
+      await expect(
+        loadConfigWith({ timezoneId: "Mars/Olympus_Mons" }),
+      ).rejects.toThrow(/contextOptions\.timezoneId in scenario "custom"/);
+
+      await expect(
+        loadConfigWith({ geolocation: { latitude: 95, longitude: 0 } }),
+      ).rejects.toThrow(/contextOptions\.geolocation/);
+
+      await expect(loadConfigWith({ colorScheme: "sepia" })).rejects.toThrow(
+        /contextOptions\.colorScheme/,
+      );
+    });
+
+    it("should reject unknown options when loading config", async () => {
+      await expect(
+        loadConfigWith({ viewport: { width: 320 } }),
+      ).rejects.toThrow(/Unknown option contextOptions\.viewport/);
+    });
+
+    it("should resolve the storage state path relative to the config file", async () => {
+      const config = await loadConfigWith({ storageStatePath: "./auth.json" });
+
+      const scenario = config.hooks?.scenarios?.custom;
+      expect(scenario?.contextOptions?.storageStatePath).toBe(
+        join(config.configDir, "auth.json"),
+      );
+    });
+  });
+
   describe("Device Emulation Error Handling", () => {
     it("should throw error for unknown device name", async () => {
       // Create a temporary config with invalid device
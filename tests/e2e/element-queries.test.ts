@@ -6,6 +6,7 @@ import { sessionStop } from "../../src/tools/session-stop.js";
 import { navigate } from "../../src/tools/navigate.js";
 import { getElement } from "../../src/tools/get-element.js";
 import { getCssProvenance } from "../../src/tools/get-css-provenance.js";
+import { evaluateJavaScript } from "../../src/tools/evaluate-javascript.js";
 import { TestServer } from "./fixtures/server.js";
 
 describe("Element Queries and Multiple Results", () => {
@@ -526,4 +527,108 @@ describe("Element Queries and Multiple Results", () => {
       expect(typeof result.results[0].boxModel!.margin.y).toBe("number");
     });
   });
+
+  describe("Target Kinds", () => {
+    it("should find elements by text", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/interaction-test.html" });
+
+      const substring = await getElement({
+        target: { kind: "text", value: "show delayed" },
+        include: { attributes: true },
+      });
+      expect(substring.results[0].attributes?.id).toBe("show-delayed");
+
+      try {
+        await getElement({
+          target: { kind: "text", value: "show delayed", exact: true },
+        });
+        expect.fail("Should have thrown ELEMENT_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("ELEMENT_NOT_FOUND");
+      }
+    });
+
+    it("should find elements by role and accessible name", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/interaction-test.html" });
+
+      const result = await getElement({
+        target: { kind: "role", value: "button", name: "Submit" },
+        include: { attributes: true },
+      });
+
+      expect(result.matchCount).toBe(1);
+      expect(result.results[0].attributes?.id).toBe("submit-button");
+
+      // Nothing is left on the page's window
+      const leftover = await evaluateJavaScript({
+        code: "return Object.keys(window).filter((key) => key.startsWith('__mcpDevtools'));",
+      });
+      expect(leftover.result).toEqual([]);
+    });
+
+    it("should find elements by test id with a configurable attribute", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/interaction-test.html" });
+
+      const byDefault = await getElement({
+        target: { kind: "testId", value: "submit" },
+        include: { attributes: true },
+      });
+      expect(byDefault.results[0].attributes?.id).toBe("submit-button");
+
+      await sessionStop();
+      await sessionStart(
+        {},
+        {
+          ...loadedConfig,
+          resolved: {
+            ...loadedConfig.resolved,
+            playwright: {
+              ...loadedConfig.resolved.playwright,
+              testIdAttribute: "name",
+            },
+          },
+        },
+      );
+      await navigate({ url: "/interaction-test.html" });
+
+      const custom = await getElement({
+        target: { kind: "testId", value: "email-input" },
+        include: { attributes: true },
+      });
+      expect(custom.results[0].attributes?.type).toBe("email");
+    });
+
+    it("should find elements by XPath and Playwright selector", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/multiple-elements.html" });
+
+      const xpath = await getElement({
+        target: { kind: "xpath", value: "//div[@id='first']" },
+        include: { attributes: true },
+      });
+      expect(xpath.results[0].attributes?.id).toBe("first");
+
+      const locator = await getElement({
+        target: { kind: "locator", value: ".item >> nth=1" },
+        include: { attributes: true },
+      });
+      expect(locator.matchCount).toBe(1);
+      expect(locator.results[0].attributes?.id).toBe("second");
+    });
+
+    it("should trace CSS provenance for a role target", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/interaction-test.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "role", value: "button", name: "Submit" },
+        property: "padding-top",
+      });
+
+      expect(result.results[0].winner?.selector).toBe("input, select, button");
+    });
+  });
 });
@@ -21,6 +21,30 @@ export class TestServer {
     this.app.get("/health", (req, res) => {
       res.json({ ok: true });
     });
+
+    // JSON API endpoints used by network capture tests
+    this.app.get("/api/items", (req, res) => {
+      res.json({
+        items: [
+          { id: 1, name: "First" },
+          { id: 2, name: "Second" },
+        ],
+      });
+    });
+
+    this.app.get("/api/missing", (req, res) => {
+      res.status(404).json({ error: "Not found" });
+    });
+
+    // Echo request headers for scenario context option tests
+    this.app.get("/api/headers", (req, res) => {
+      res.json(req.headers);
+    });
+
+    // Redirect to a different origin (127.0.0.1 vs localhost) for policy tests
+    this.app.get("/redirect-external", (req, res) => {
+      res.redirect(`http://127.0.0.1:${this.port}/multiple-elements.html`);
+    });
   }
 
   async start(): Promise<void> {
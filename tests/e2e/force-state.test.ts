@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { getElement } from "../../src/tools/get-element.js";
+import { getCssProvenance } from "../../src/tools/get-css-provenance.js";
+import { cssForceState } from "../../src/tools/css-force-state.js";
+import type { ForcedPseudoState } from "../../src/types.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Forced Element States", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  async function ctaColor() {
+    const result = await getElement({
+      target: { kind: "id", value: "cta" },
+      include: { computed: ["color"] },
+    });
+    return result.results[0].computed?.color;
+  }
+
+  describe("forceStates option", () => {
+    it("should compute styles in the forced state", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-states.html" });
+
+      expect(await ctaColor()).toBe("rgb(0, 0, 255)");
+
+      const result = await getElement({
+        target: { kind: "id", value: "cta" },
+        include: { computed: ["color", "background-color"] },
+        forceStates: ["hover", "active"],
+      });
+
+      expect(result.results[0].computed?.color).toBe("rgb(255, 0, 0)");
+      expect(result.results[0].computed?.["background-color"]).toBe(
+        "rgb(200, 200, 200)",
+      );
+    });
+
+    it("should trace provenance in the forced state", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-states.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "cta" },
+        property: "outline-color",
+        forceStates: ["focus", "focus-visible"],
+      });
+
+      expect(result.results[0].computedValue).toBe("rgb(0, 128, 0)");
+      expect(result.results[0].winner?.selector).toBe(
+        ".link-button:focus-visible",
+      );
+    });
+
+    it("should support :focus-within", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-states.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "field-group" },
+        property: "border-top-color",
+        forceStates: ["focus-within"],
+      });
+
+      expect(result.results[0].winner?.selector).toBe(
+        ".field-group:focus-within",
+      );
+    });
+
+    it("should clear forced states after the call", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-states.html" });
+
+      await getElement({
+        target: { kind: "id", value: "cta" },
+        forceStates: ["hover"],
+      });
+
+      expect(await ctaColor()).toBe("rgb(0, 0, 255)");
+    });
+
+    it("should keep forced states with persistStates", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-states.html" });
+
+      await getCssProvenance({
+        target: { kind: "id", value: "cta" },
+        property: "color",
+        forceStates: ["hover"],
+        persistStates: true,
+      });
+      expect(await ctaColor()).toBe("rgb(255, 0, 0)");
+
+      await cssForceState({
+        target: { kind: "id", value: "cta" },
+        states: [],
+      });
+      expect(await ctaColor()).toBe("rgb(0, 0, 255)");
+    });
+
+    it("should keep persisted states after a one-off query", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-states.html" });
+
+      await cssForceState({
+        target: { kind: "id", value: "cta" },
+        states: ["hover"],
+      });
+
+      const focused = await getElement({
+        target: { kind: "id", value: "cta" },
+        include: { computed: ["outline-color"] },
+        forceStates: ["focus", "focus-visible"],
+      });
+      expect(focused.results[0].computed?.["outline-color"]).toBe(
+        "rgb(0, 128, 0)",
+      );
+
+      // The persisted :hover is back after the call
+      expect(await ctaColor()).toBe("rgb(255, 0, 0)");
+    });
+  });
+
+  describe("devtools.css.forceState", () => {
+    it("should force states until cleared", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-states.html" });
+
+      const result = await cssForceState({
+        target: { kind: "selector", value: ".link-button" },
+        states: ["hover"],
+        maxResults: 10,
+      });
+      expect(result.matchCount).toBe(2);
+      expect(result.states).toEqual(["hover"]);
+
+      const secondary = await getElement({
+        target: { kind: "id", value: "secondary" },
+        include: { computed: ["color"] },
+      });
+      expect(secondary.results[0].computed?.color).toBe("rgb(255, 0, 0)");
+
+      await cssForceState({
+        target: { kind: "selector", value: ".link-button" },
+        states: [],
+        maxResults: 10,
+      });
+      expect(await ctaColor()).toBe("rgb(0, 0, 255)");
+    });
+
+    it("should reject unknown states", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-states.html" });
+
+      try {
+        await cssForceState({
+          target: { kind: "id", value: "cta" },
+          states: ["hovered" as ForcedPseudoState],
+        });
+        expect.fail("Should have thrown");
+      } catch (err: any) {
+        expect(err.error.code).toBe("UNEXPECTED_ERROR");
+        expect(err.error.message).toContain("hovered");
+      }
+    });
+
+    it("should throw ELEMENT_NOT_FOUND for unmatched targets", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-states.html" });
+
+      try {
+        await cssForceState({
+          target: { kind: "id", value: "missing" },
+          states: ["hover"],
+        });
+        expect.fail("Should have thrown ELEMENT_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("ELEMENT_NOT_FOUND");
+      }
+    });
+  });
+});
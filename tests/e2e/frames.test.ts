@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { getElement } from "../../src/tools/get-element.js";
+import { getCssProvenance } from "../../src/tools/get-css-provenance.js";
+import { pageInteract } from "../../src/tools/page-interact.js";
+import { evaluateJavaScript } from "../../src/tools/evaluate-javascript.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Frame-aware Targeting", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  describe("Same-origin iframes", () => {
+    it("should not find iframe content without a frame chain", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/frames-test.html" });
+
+      try {
+        await getElement({ target: { kind: "id", value: "first" } });
+        expect.fail("Should have thrown ELEMENT_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("ELEMENT_NOT_FOUND");
+      }
+    });
+
+    it("should find elements inside an iframe by selector", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/frames-test.html" });
+
+      const result = await getElement({
+        target: {
+          kind: "id",
+          value: "first",
+          frame: [{ selector: "#same-origin-frame" }],
+        },
+        include: { attributes: true, computed: ["background-color"] },
+      });
+
+      expect(result.matchCount).toBe(1);
+      expect(result.results[0].attributes?.id).toBe("first");
+      expect(result.results[0].computed?.["background-color"]).toBe(
+        "rgb(173, 216, 230)",
+      );
+    });
+
+    it("should find elements inside an iframe by name", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/frames-test.html" });
+
+      const result = await getElement({
+        target: {
+          kind: "selector",
+          value: ".item",
+          frame: [{ name: "widget" }],
+        },
+        maxResults: 50,
+      });
+
+      expect(result.matchCount).toBeGreaterThan(1);
+    });
+
+    it("should trace CSS provenance inside an iframe", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/frames-test.html" });
+
+      const result = await getCssProvenance({
+        target: {
+          kind: "id",
+          value: "first",
+          frame: [{ url: "/multiple-elements.html" }],
+        },
+        property: "background-color",
+      });
+
+      expect(result.results[0].winner?.selector).toBe(".item");
+    });
+  });
+
+  describe("Out-of-process iframes", () => {
+    it("should find elements inside a cross-site iframe", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/frames-test.html" });
+
+      const result = await getElement({
+        target: {
+          kind: "id",
+          value: "text-input",
+          frame: [{ url: "127.0.0.1" }],
+        },
+        include: { attributes: true },
+      });
+
+      expect(result.results[0].attributes?.type).toBe("text");
+    });
+
+    it("should interact and evaluate inside a cross-site iframe", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/frames-test.html" });
+
+      const frame = [{ selector: "#cross-origin-frame" }];
+
+      const interact = await pageInteract({
+        frame,
+        actions: [{ type: "fill", selector: "#text-input", value: "hello" }],
+      });
+      expect(interact.ok).toBe(true);
+
+      const result = await evaluateJavaScript({
+        frame,
+        code: "return document.querySelector('#text-input').value;",
+      });
+      expect(result.result).toBe("hello");
+    });
+  });
+
+  describe("Errors", () => {
+    it("should throw FRAME_NOT_FOUND for an unmatched step", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/frames-test.html" });
+
+      try {
+        await getElement({
+          target: {
+            kind: "id",
+            value: "first",
+            frame: [{ name: "missing" }],
+          },
+        });
+        expect.fail("Should have thrown FRAME_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("FRAME_NOT_FOUND");
+        expect(err.error.details.failedAtIndex).toBe(0);
+      }
+
+      try {
+        await evaluateJavaScript({
+          frame: [{ selector: "#top-heading" }],
+          code: "return 1;",
+        });
+        expect.fail("Should have thrown FRAME_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("FRAME_NOT_FOUND");
+      }
+    });
+
+    it("should reject frame steps with more than one field", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/frames-test.html" });
+
+      try {
+        await getElement({
+          target: {
+            kind: "id",
+            value: "first",
+            frame: [{ name: "widget", url: "/multiple-elements.html" }],
+          },
+        });
+        expect.fail("Should have thrown");
+      } catch (err: any) {
+        expect(err.error.code).toBe("UNEXPECTED_ERROR");
+      }
+    });
+  });
+});
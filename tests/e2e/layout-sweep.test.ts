@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { layoutSweep } from "../../src/tools/layout-sweep.js";
+import { emulationGet } from "../../src/tools/emulation-get.js";
+import { emulationSet } from "../../src/tools/emulation-set.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Layout Sweep", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  it("should report computed values and box models per width", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/layout-sweep.html" });
+
+    const result = await layoutSweep({
+      target: { kind: "id", value: "cards" },
+      widths: [1000, 500, 700],
+      properties: ["grid-template-columns"],
+    });
+
+    expect(result.matchCount).toBe(1);
+    expect(result.elements).toEqual(["div#cards.cards"]);
+
+    // Rows are sorted by width
+    expect(result.rows.map((row) => row.width)).toEqual([500, 700, 1000]);
+    expect(result.rows[0].results[0].boxModel?.width).toBe(500);
+    expect(result.rows[2].results[0].boxModel?.width).toBe(1000);
+
+    const columns = result.rows.map(
+      (row) =>
+        row.results[0].computed?.["grid-template-columns"].split(" ").length,
+    );
+    expect(columns).toEqual([1, 2, 3]);
+  });
+
+  it("should flag the widths where values change", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/layout-sweep.html" });
+
+    const result = await layoutSweep({
+      target: { kind: "id", value: "sidebar" },
+      range: { min: 800, max: 1000, step: 50 },
+      properties: ["display", "width"],
+    });
+
+    expect(result.rows.map((row) => row.width)).toEqual([
+      800, 850, 900, 950, 1000,
+    ]);
+    expect(result.changedAt).toEqual([900]);
+    // The specified width applies whether or not the sidebar is rendered
+    expect(result.rows[2].changed).toEqual(["display"]);
+    expect(result.rows[1].changed).toBeUndefined();
+
+    // No box model while the element is not rendered
+    expect(result.rows[0].results[0].boxModel).toBeUndefined();
+    expect(result.rows[2].results[0].boxModel?.width).toBe(200);
+  });
+
+  it("should measure every matched element", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/layout-sweep.html" });
+
+    const result = await layoutSweep({
+      target: { kind: "selector", value: ".card" },
+      widths: [500, 700],
+    });
+
+    expect(result.matchCount).toBe(3);
+    expect(result.rows[0].results).toHaveLength(3);
+
+    // One column stacks the cards; two columns put the second card beside
+    // the first
+    const [narrow, wide] = result.rows;
+    expect(narrow.results[1].boxModel?.y).toBe(100);
+    expect(wide.results[1].boxModel?.y).toBe(0);
+    expect(narrow.results[0].computed).toBeUndefined();
+  });
+
+  it("should save a screenshot per width", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/layout-sweep.html" });
+
+    const result = await layoutSweep({
+      target: { kind: "id", value: "cards" },
+      widths: [480, 960],
+      screenshots: true,
+    });
+
+    for (const row of result.rows) {
+      expect(row.screenshotPath).toMatch(/\.png$/);
+      expect(existsSync(row.screenshotPath!)).toBe(true);
+    }
+  });
+
+  it("should restore the viewport afterwards", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/layout-sweep.html" });
+    await emulationSet({ viewport: { width: 1100, height: 800 } });
+
+    const result = await layoutSweep({
+      target: { kind: "id", value: "cards" },
+      widths: [500],
+    });
+    expect(result.rows[0].results[0].boxModel?.height).toBe(300);
+
+    const state = await emulationGet({});
+    expect(state.viewport).toEqual({ width: 1100, height: 800 });
+    expect(state.overrides.viewport).toEqual({ width: 1100, height: 800 });
+  });
+
+  it("should reject invalid widths", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/layout-sweep.html" });
+
+    for (const params of [
+      { widths: [] },
+      { widths: [0, 500] },
+      { range: { min: 900, max: 600, step: 50 } },
+      { range: { min: 300, max: 3000, step: 10 } },
+      { widths: [500], range: { min: 600, max: 900, step: 100 } },
+    ]) {
+      try {
+        await layoutSweep({
+          target: { kind: "id", value: "cards" },
+          ...params,
+        });
+        expect.fail("Should have thrown for invalid widths");
+      } catch (err: any) {
+        expect(err.error.code).toBe("UNEXPECTED_ERROR");
+      }
+    }
+  });
+});
@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { getNetworkRequests } from "../../src/tools/get-network-requests.js";
+import { getResponseBody } from "../../src/tools/get-response-body.js";
+import { evaluateJavaScript } from "../../src/tools/evaluate-javascript.js";
+import { networkRoute } from "../../src/tools/network-route.js";
+import { networkUnroute } from "../../src/tools/network-unroute.js";
+import { networkListRoutes } from "../../src/tools/network-list-routes.js";
+import { sessionManager } from "../../src/session/manager.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Network Request Interception", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  async function fetchItems() {
+    const result = await evaluateJavaScript({
+      code: "const res = await fetch('/api/items'); return { status: res.status, text: await res.text(), header: res.headers.get('x-mocked') };",
+    });
+    return result.result as { status: number; text: string; header: string };
+  }
+
+  describe("fulfill", () => {
+    it("should mock a response with status and body", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/multiple-elements.html" });
+
+      const { route } = await networkRoute({
+        url: "**/api/items",
+        action: {
+          type: "fulfill",
+          status: 500,
+          contentType: "application/json",
+          body: '{"error":"boom"}',
+        },
+      });
+
+      expect(route.id).toMatch(/^route-\d+$/);
+
+      const response = await fetchItems();
+      expect(response.status).toBe(500);
+      expect(JSON.parse(response.text)).toEqual({ error: "boom" });
+    });
+
+    it("should match URLs with a regular expression", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/multiple-elements.html" });
+
+      await networkRoute({
+        url: "/api/(items|other)$",
+        urlType: "regex",
+        action: { type: "fulfill", body: "mocked" },
+      });
+
+      const response = await fetchItems();
+      expect(response.text).toBe("mocked");
+    });
+
+    it("should reject a missing body file", async () => {
+      await sessionStart({}, loadedConfig);
+
+      try {
+        await networkRoute({
+          url: "**/api/items",
+          action: { type: "fulfill", bodyPath: "/does/not/exist.json" },
+        });
+        expect.fail("Should have thrown for missing body file");
+      } catch (err: any) {
+        expect(err.error.message).toContain("Failed to read route body file");
+      }
+    });
+  });
+
+  describe("abort", () => {
+    it("should fail matching requests with the given error", async () => {
+      await sessionStart({}, loadedConfig);
+
+      await networkRoute({
+        url: "**/api/items",
+        action: { type: "abort", errorCode: "connectionrefused" },
+      });
+      await navigate({ url: "/network-test.html" });
+
+      const { requests } = await getNetworkRequests({
+        url: "/api/items",
+        failedOnly: true,
+      });
+      expect(requests.length).toBe(1);
+      expect(requests[0].failureText).toBeDefined();
+    });
+
+    it("should reject an unknown error code", async () => {
+      await sessionStart({}, loadedConfig);
+
+      try {
+        await networkRoute({
+          url: "**/api/items",
+          action: { type: "abort", errorCode: "not-a-real-code" },
+        });
+        expect.fail("Should have thrown for unknown error code");
+      } catch (err: any) {
+        expect(err.error.message).toContain("Unknown abort error code");
+      }
+    });
+  });
+
+  describe("delay", () => {
+    it("should delay matching requests", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/multiple-elements.html" });
+
+      await networkRoute({
+        url: "**/api/items",
+        action: { type: "delay", delayMs: 500 },
+      });
+
+      const started = Date.now();
+      const response = await fetchItems();
+      expect(Date.now() - started).toBeGreaterThanOrEqual(500);
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe("modifyHeaders", () => {
+    it("should set response headers on the real response", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/multiple-elements.html" });
+
+      await networkRoute({
+        url: "**/api/items",
+        action: {
+          type: "modifyHeaders",
+          responseHeaders: { "X-Mocked": "yes" },
+        },
+      });
+
+      const response = await fetchItems();
+      expect(response.status).toBe(200);
+      expect(response.header).toBe("yes");
+      expect(JSON.parse(response.text).items).toHaveLength(2);
+    });
+
+    it("should fail the request and record the error when the upstream is unreachable", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/multiple-elements.html" });
+
+      // Nothing listens on the discard port, so fetching the real response fails
+      const { route } = await networkRoute({
+        url: "http://127.0.0.1:9/**",
+        action: {
+          type: "modifyHeaders",
+          responseHeaders: { "X-Mocked": "yes" },
+        },
+      });
+
+      const result = await evaluateJavaScript({
+        code: "try { await fetch('http://127.0.0.1:9/api/items'); return 'loaded'; } catch { return 'failed'; }",
+      });
+      expect(result.result).toBe("failed");
+
+      const { routes } = await networkListRoutes();
+      expect(routes[0].id).toBe(route.id);
+      expect(routes[0].hitCount).toBe(1);
+      expect(routes[0].lastError).toBeDefined();
+
+      // The session keeps working
+      const response = await fetchItems();
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe("list and unroute", () => {
+    it("should list installed routes with hit counts", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/multiple-elements.html" });
+
+      const { route } = await networkRoute({
+        url: "**/api/items",
+        action: { type: "fulfill", body: "mocked" },
+      });
+      await fetchItems();
+
+      const { routes } = await networkListRoutes();
+      expect(routes).toHaveLength(1);
+      expect(routes[0].id).toBe(route.id);
+      expect(routes[0].hitCount).toBe(1);
+    });
+
+    it("should remove a route by id", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/multiple-elements.html" });
+
+      const { route } = await networkRoute({
+        url: "**/api/items",
+        action: { type: "fulfill", body: "mocked" },
+      });
+      const result = await networkUnroute({ id: route.id });
+
+      expect(result.removed).toEqual([route.id]);
+      expect((await networkListRoutes()).routes).toHaveLength(0);
+
+      const response = await fetchItems();
+      expect(JSON.parse(response.text).items).toHaveLength(2);
+    });
+
+    it("should remove all routes", async () => {
+      await sessionStart({}, loadedConfig);
+
+      await networkRoute({ url: "**/a", action: { type: "abort" } });
+      await networkRoute({ url: "**/b", action: { type: "abort" } });
+      const result = await networkUnroute({ all: true });
+
+      expect(result.removed).toHaveLength(2);
+      expect((await networkListRoutes()).routes).toHaveLength(0);
+    });
+
+    it("should throw ROUTE_NOT_FOUND for an unknown id", async () => {
+      await sessionStart({}, loadedConfig);
+
+      try {
+        await networkUnroute({ id: "route-999" });
+        expect.fail("Should have thrown ROUTE_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("ROUTE_NOT_FOUND");
+      }
+    });
+  });
+
+  describe("Scenario routes", () => {
+    it("should install routes declared in the scenario config", async () => {
+      await sessionStart({ scenario: "emptyItems" }, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const { routes } = await networkListRoutes();
+      expect(routes).toHaveLength(1);
+
+      const { requests } = await getNetworkRequests({ url: "/api/items" });
+      const body = await getResponseBody({ requestId: requests[0].id });
+      expect(JSON.parse(body.body!)).toEqual({ items: [] });
+    });
+
+    it("should close the browser when a scenario route is invalid", async () => {
+      try {
+        await sessionStart({ scenario: "brokenRoute" }, loadedConfig);
+        expect.fail("Should have thrown for the missing body file");
+      } catch (err: any) {
+        expect(err.error.message).toContain("missing.json");
+      }
+
+      expect(sessionManager.hasSession()).toBe(false);
+      expect(sessionManager.isStarting()).toBe(false);
+
+      // A new session can be started afterwards
+      await sessionStart({}, loadedConfig);
+      expect(sessionManager.hasSession()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,338 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { join, resolve } from "path";
+import { existsSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { getNetworkRequests } from "../../src/tools/get-network-requests.js";
+import { getResponseBody } from "../../src/tools/get-response-body.js";
+import { exportHar } from "../../src/tools/export-har.js";
+import type { Har } from "../../src/types.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Network Request Capture", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  describe("getRequests", () => {
+    it("should capture the document and fetch requests", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const result = await getNetworkRequests({});
+
+      expect(result.totalRequests).toBeGreaterThanOrEqual(3);
+
+      const document = result.requests.find((r) =>
+        r.url.endsWith("/network-test.html"),
+      );
+      expect(document).toBeDefined();
+      expect(document!.method).toBe("GET");
+      expect(document!.resourceType).toBe("document");
+      expect(document!.status).toBe(200);
+      expect(document!.id).toMatch(/^req-\d+$/);
+
+      const api = result.requests.find((r) => r.url.endsWith("/api/items"));
+      expect(api).toBeDefined();
+      expect(api!.resourceType).toBe("fetch");
+      expect(api!.status).toBe(200);
+      expect(api!.mimeType).toBe("application/json");
+      expect(api!.duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should filter by URL substring", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const result = await getNetworkRequests({ url: "/API/" });
+
+      expect(result.requests.length).toBe(2);
+      for (const req of result.requests) {
+        expect(req.url).toContain("/api/");
+      }
+    });
+
+    it("should filter by URL regex", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const result = await getNetworkRequests({ urlPattern: "/api/(items)$" });
+
+      expect(result.requests.length).toBe(1);
+      expect(result.requests[0].url).toMatch(/\/api\/items$/);
+    });
+
+    it("should reject an invalid URL regex", async () => {
+      await sessionStart({}, loadedConfig);
+
+      try {
+        await getNetworkRequests({ urlPattern: "([unclosed" });
+        expect.fail("Should have thrown an error for invalid regex");
+      } catch (err: any) {
+        expect(err.error.message).toContain("Invalid URL pattern");
+      }
+    });
+
+    it("should filter by status range", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const result = await getNetworkRequests({
+        statusMin: 400,
+        statusMax: 499,
+      });
+
+      expect(result.requests.length).toBe(1);
+      expect(result.requests[0].url).toContain("/api/missing");
+      expect(result.requests[0].status).toBe(404);
+    });
+
+    it("should filter by resource type", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const result = await getNetworkRequests({ resourceType: ["document"] });
+
+      expect(result.requests.length).toBeGreaterThan(0);
+      for (const req of result.requests) {
+        expect(req.resourceType).toBe("document");
+      }
+    });
+
+    it("should return only failed requests when failedOnly is set", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const result = await getNetworkRequests({ failedOnly: true });
+
+      expect(result.requests.length).toBe(1);
+      expect(result.requests[0].url).toContain("/unreachable");
+      expect(result.requests[0].failed).toBe(true);
+      expect(result.requests[0].failureText).toBeDefined();
+    });
+
+    it("should return the most recent requests up to the limit", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const all = await getNetworkRequests({});
+      const limited = await getNetworkRequests({ limit: 1 });
+
+      expect(limited.requests.length).toBe(1);
+      expect(limited.totalRequests).toBe(all.totalRequests);
+      expect(limited.requests[0].id).toBe(
+        all.requests[all.requests.length - 1].id,
+      );
+    });
+  });
+
+  describe("Circular buffer", () => {
+    it("should drop the oldest requests when maxRequests is exceeded", async () => {
+      await sessionStart(
+        {},
+        {
+          ...loadedConfig,
+          resolved: {
+            ...loadedConfig.resolved,
+            network: { enabled: true, maxRequests: 2 },
+          },
+        },
+      );
+      await navigate({ url: "/network-test.html" });
+
+      const result = await getNetworkRequests({});
+
+      expect(result.totalRequests).toBe(2);
+      expect(result.requests.some((r) => r.resourceType === "document")).toBe(
+        false,
+      );
+    });
+
+    it("should not capture requests when network capture is disabled", async () => {
+      await sessionStart(
+        {},
+        {
+          ...loadedConfig,
+          resolved: {
+            ...loadedConfig.resolved,
+            network: { enabled: false, maxRequests: 500 },
+          },
+        },
+      );
+      await navigate({ url: "/network-test.html" });
+
+      const result = await getNetworkRequests({});
+
+      expect(result.totalRequests).toBe(0);
+    });
+  });
+
+  describe("getResponseBody", () => {
+    it("should return a JSON body inline", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const { requests } = await getNetworkRequests({ url: "/api/items" });
+      const result = await getResponseBody({ requestId: requests[0].id });
+
+      expect(result.status).toBe(200);
+      expect(result.mimeType).toBe("application/json");
+      expect(result.bodyPath).toBeUndefined();
+      expect(JSON.parse(result.body!).items).toHaveLength(2);
+      expect(result.fullLength).toBe(result.body!.length);
+    });
+
+    it("should return a slice with start and length", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const { requests } = await getNetworkRequests({ url: "/api/items" });
+      const full = await getResponseBody({ requestId: requests[0].id });
+      const slice = await getResponseBody({
+        requestId: requests[0].id,
+        start: 2,
+        length: 5,
+      });
+
+      expect(slice.body).toBe(full.body!.slice(2, 7));
+      expect(slice.fullLength).toBe(full.fullLength);
+    });
+
+    it("should return the body of an error response", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const { requests } = await getNetworkRequests({ url: "/api/missing" });
+      const result = await getResponseBody({ requestId: requests[0].id });
+
+      expect(result.status).toBe(404);
+      expect(JSON.parse(result.body!)).toEqual({ error: "Not found" });
+    });
+
+    it("should write the body to a file when saveToFile is set", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const { requests } = await getNetworkRequests({ url: "/api/items" });
+      const result = await getResponseBody({
+        requestId: requests[0].id,
+        saveToFile: true,
+      });
+
+      expect(result.body).toBeUndefined();
+      expect(result.bodyPath).toMatch(/\.json$/);
+      expect(
+        JSON.parse(readFileSync(result.bodyPath!, "utf8")).items,
+      ).toHaveLength(2);
+      expect(result.bodySize).toBeGreaterThan(0);
+    });
+
+    it("should throw REQUEST_NOT_FOUND for an unknown id", async () => {
+      await sessionStart({}, loadedConfig);
+
+      try {
+        await getResponseBody({ requestId: "req-does-not-exist" });
+        expect.fail("Should have thrown REQUEST_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("REQUEST_NOT_FOUND");
+      }
+    });
+
+    it("should throw RESPONSE_BODY_UNAVAILABLE for a failed request", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const { requests } = await getNetworkRequests({ failedOnly: true });
+
+      try {
+        await getResponseBody({ requestId: requests[0].id });
+        expect.fail("Should have thrown RESPONSE_BODY_UNAVAILABLE");
+      } catch (err: any) {
+        expect(err.error.code).toBe("RESPONSE_BODY_UNAVAILABLE");
+      }
+    });
+  });
+
+  describe("exportHar", () => {
+    it("should write a HAR 1.2 file with captured entries", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const result = await exportHar({});
+
+      expect(result.harPath).toMatch(/\.har$/);
+      expect(result.entryCount).toBeGreaterThanOrEqual(3);
+
+      const har: Har = JSON.parse(readFileSync(result.harPath, "utf8"));
+      expect(har.log.version).toBe("1.2");
+      expect(har.log.entries).toHaveLength(result.entryCount);
+
+      const api = har.log.entries.find((e) =>
+        e.request.url.endsWith("/api/items"),
+      );
+      expect(api?.response.status).toBe(200);
+      expect(api?.response.content.mimeType).toBe("application/json");
+      expect(JSON.parse(api!.response.content.text!).items).toHaveLength(2);
+      expect(api?.timings.wait).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should omit bodies when includeContent is false", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/network-test.html" });
+
+      const result = await exportHar({ includeContent: false });
+      const har = JSON.parse(readFileSync(result.harPath, "utf8"));
+
+      for (const entry of har.log.entries) {
+        expect(entry.response.content.text).toBeUndefined();
+      }
+    });
+
+    it("should write the configured harOutputPath when the session stops", async () => {
+      const harOutputPath = join(tmpdir(), `network-test-${Date.now()}.har`);
+      await sessionStart(
+        {},
+        {
+          ...loadedConfig,
+          resolved: {
+            ...loadedConfig.resolved,
+            playwright: { ...loadedConfig.resolved.playwright, harOutputPath },
+          },
+        },
+      );
+      await navigate({ url: "/network-test.html" });
+      await sessionStop();
+
+      expect(existsSync(harOutputPath)).toBe(true);
+      const har: Har = JSON.parse(readFileSync(harOutputPath, "utf8"));
+      expect(
+        har.log.entries.some((e) => e.request.url.endsWith("/api/items")),
+      ).toBe(true);
+    });
+  });
+});
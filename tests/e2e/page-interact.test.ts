@@ -204,6 +204,77 @@ describe("Page Interact Tool", () => {
     });
   });
 
+  describe("Element Targets", () => {
+    it("should run actions on role, label and test id targets", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/interaction-test.html" });
+
+      const result = await pageInteract({
+        actions: [
+          {
+            type: "fill",
+            target: { kind: "role", value: "textbox", name: "Text Input" },
+            value: "Targeted",
+          },
+          { type: "click", target: { kind: "testId", value: "submit" } },
+          {
+            type: "waitForSelector",
+            target: { kind: "text", value: "Text: Targeted" },
+          },
+        ],
+      });
+
+      expect(result.ok).toBe(true);
+    });
+
+    it("should fail an action with both selector and target", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/interaction-test.html" });
+
+      const result = await pageInteract({
+        actions: [
+          {
+            type: "click",
+            selector: "#submit-button",
+            target: { kind: "testId", value: "submit" },
+          },
+        ],
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.failedAtIndex).toBe(0);
+    });
+
+    it("should fail an action whose target matches several elements", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/interaction-test.html" });
+
+      const result = await pageInteract({
+        actions: [{ type: "click", target: { kind: "role", value: "button" } }],
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toContain("matches 2 elements");
+    });
+
+    it("should fail an action whose target is a pseudo-element", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/interaction-test.html" });
+
+      const result = await pageInteract({
+        actions: [
+          {
+            type: "click",
+            target: { kind: "testId", value: "submit", pseudo: "before" },
+          },
+        ],
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toContain("pseudo-element");
+    });
+  });
+
   describe("Type and Press Actions", () => {
     it("should type text with delays", async () => {
       await sessionStart({}, loadedConfig);
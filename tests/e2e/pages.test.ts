@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { pageInteract } from "../../src/tools/page-interact.js";
+import { getElement } from "../../src/tools/get-element.js";
+import { pagesList } from "../../src/tools/pages-list.js";
+import { pagesSelect } from "../../src/tools/pages-select.js";
+import { pagesNew } from "../../src/tools/pages-new.js";
+import { pagesClose } from "../../src/tools/pages-close.js";
+import { sessionManager } from "../../src/session/manager.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Multi-page Management", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  async function openPopup(selector: string) {
+    const { context } = sessionManager.getSession();
+    await Promise.all([
+      context.waitForEvent("page"),
+      pageInteract({ actions: [{ type: "click", selector }] }),
+    ]);
+  }
+
+  describe("devtools.pages.list", () => {
+    it("should list the initial page as active", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/popup-test.html" });
+
+      const result = await pagesList();
+
+      expect(result.pages).toHaveLength(1);
+      expect(result.pages[0].id).toBe("page-1");
+      expect(result.pages[0].title).toBe("Popup Test Page");
+      expect(result.pages[0].active).toBe(true);
+      expect(result.activePageId).toBe("page-1");
+    });
+
+    it("should track popups with their opener", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/popup-test.html" });
+
+      await openPopup("#blank-link");
+      await openPopup("#open-window");
+
+      const result = await pagesList();
+
+      expect(result.pages.map((p) => p.id)).toEqual([
+        "page-1",
+        "page-2",
+        "page-3",
+      ]);
+      expect(result.pages[1].openerId).toBe("page-1");
+      expect(result.pages[1].url).toContain("/multiple-elements.html");
+      expect(result.pages[2].openerId).toBe("page-1");
+      expect(result.pages[2].url).toContain("/interaction-test.html");
+
+      // Opening popups does not change the active page
+      expect(result.activePageId).toBe("page-1");
+    });
+  });
+
+  describe("devtools.pages.select", () => {
+    it("should switch element tools to the selected page", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/popup-test.html" });
+      await openPopup("#blank-link");
+
+      const { pages } = await pagesList();
+      const popup = pages.find((p) => p.id !== "page-1")!;
+      await sessionManager
+        .getSession()
+        .pages.find((p) => p.id === popup.id)!
+        .page.waitForLoadState();
+
+      const result = await pagesSelect({ id: popup.id });
+      expect(result.page.active).toBe(true);
+
+      const element = await getElement({
+        target: { kind: "id", value: "first" },
+      });
+      expect(element.results[0].exists).toBe(true);
+
+      await pagesSelect({ id: "page-1" });
+      const heading = await getElement({
+        target: { kind: "id", value: "opener-heading" },
+      });
+      expect(heading.results[0].exists).toBe(true);
+    });
+
+    it("should throw PAGE_NOT_FOUND for an unknown id", async () => {
+      await sessionStart({}, loadedConfig);
+
+      try {
+        await pagesSelect({ id: "page-99" });
+        expect.fail("Should have thrown PAGE_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("PAGE_NOT_FOUND");
+        expect(err.error.details.openPages).toEqual(["page-1"]);
+      }
+    });
+  });
+
+  describe("devtools.pages.new", () => {
+    it("should open and select a new page", async () => {
+      await sessionStart({}, loadedConfig);
+
+      const result = await pagesNew({ url: "/multiple-elements.html" });
+
+      expect(result.page.id).toBe("page-2");
+      expect(result.page.active).toBe(true);
+      expect(result.page.title).toBe("Multiple Elements Test");
+      expect(sessionManager.getSession().activePageId).toBe("page-2");
+    });
+
+    it("should keep the active page when select is false", async () => {
+      await sessionStart({}, loadedConfig);
+
+      const result = await pagesNew({ select: false });
+
+      expect(result.page.active).toBe(false);
+      expect(result.page.url).toBe("about:blank");
+      expect(sessionManager.getSession().activePageId).toBe("page-1");
+    });
+  });
+
+  describe("devtools.pages.close", () => {
+    it("should fall back to the opener when closing the active page", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/popup-test.html" });
+      await openPopup("#blank-link");
+
+      await pagesSelect({ id: "page-2" });
+      const result = await pagesClose({ id: "page-2" });
+
+      expect(result.closed).toBe("page-2");
+      expect(result.activePageId).toBe("page-1");
+      expect((await pagesList()).pages).toHaveLength(1);
+
+      const heading = await getElement({
+        target: { kind: "id", value: "opener-heading" },
+      });
+      expect(heading.results[0].exists).toBe(true);
+    });
+
+    it("should refuse to close the last page", async () => {
+      await sessionStart({}, loadedConfig);
+
+      try {
+        await pagesClose({ id: "page-1" });
+        expect.fail("Should have thrown");
+      } catch (err: any) {
+        expect(err.error.code).toBe("UNEXPECTED_ERROR");
+      }
+
+      expect((await pagesList()).pages).toHaveLength(1);
+    });
+  });
+});
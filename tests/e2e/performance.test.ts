@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { pageInteract } from "../../src/tools/page-interact.js";
+import { performanceGetMetrics } from "../../src/tools/performance-get-metrics.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Performance Metrics", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  it("should report navigation and paint timing", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/performance-test.html" });
+
+    const metrics = await performanceGetMetrics({});
+
+    expect(metrics.url).toBe(server.getUrl("/performance-test.html"));
+    expect(metrics.navigation?.type).toBe("navigate");
+    expect(metrics.navigation?.ttfbMs).toBeGreaterThan(0);
+    expect(metrics.navigation?.loadMs).toBeGreaterThanOrEqual(
+      metrics.navigation!.domContentLoadedMs,
+    );
+    expect(metrics.paint.firstContentfulPaintMs).toBeGreaterThan(0);
+  });
+
+  it("should report LCP with its element", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/performance-test.html" });
+
+    const metrics = await performanceGetMetrics({});
+
+    expect(metrics.lcp?.element).toBe("#hero");
+    expect(metrics.lcp?.timeMs).toBeGreaterThan(0);
+    expect(metrics.lcp?.size).toBeGreaterThan(0);
+  });
+
+  it("should report CLS with the shifted elements", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/performance-test.html" });
+    await pageInteract({
+      actions: [
+        { type: "waitForSelector", selector: "#banner" },
+        { type: "wait", delay: 200 },
+      ],
+    });
+
+    const metrics = await performanceGetMetrics({});
+
+    expect(metrics.cls.value).toBeGreaterThan(0);
+    const elements = metrics.cls.shifts.flatMap((shift) =>
+      shift.sources.map((source) => source.element),
+    );
+    expect(elements).toContain("#content");
+
+    const source = metrics.cls.shifts[0].sources.find(
+      (s) => s.element === "#content",
+    );
+    expect(source!.currentRect.y - source!.previousRect.y).toBe(120);
+  });
+
+  it("should report long tasks and INP after an interaction", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/performance-test.html" });
+
+    const before = await performanceGetMetrics({});
+    expect(before.inp).toBeUndefined();
+
+    await pageInteract({
+      actions: [
+        { type: "click", selector: "#slow-button" },
+        { type: "wait", delay: 300 },
+      ],
+    });
+
+    const metrics = await performanceGetMetrics({});
+
+    expect(metrics.longTasks.count).toBeGreaterThanOrEqual(1);
+    expect(metrics.longTasks.longestMs).toBeGreaterThanOrEqual(200);
+    expect(metrics.longTasks.totalBlockingTimeMs).toBeGreaterThanOrEqual(150);
+
+    expect(metrics.inp?.interactionCount).toBeGreaterThanOrEqual(1);
+    expect(metrics.inp?.valueMs).toBeGreaterThanOrEqual(200);
+    expect(metrics.inp?.element).toBe("#slow-button");
+  });
+
+  it("should report CDP performance counters", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/performance-test.html" });
+
+    const metrics = await performanceGetMetrics({});
+
+    expect(metrics.counters.JSHeapUsedSize).toBeGreaterThan(0);
+    expect(metrics.counters.Nodes).toBeGreaterThan(0);
+    expect(metrics.counters).toHaveProperty("LayoutCount");
+  });
+});
@@ -0,0 +1,346 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { checkOrigin, loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { pageInteract } from "../../src/tools/page-interact.js";
+import { evaluateJavaScript } from "../../src/tools/evaluate-javascript.js";
+import { getBlockedRequests } from "../../src/tools/get-blocked-requests.js";
+import { networkRoute } from "../../src/tools/network-route.js";
+import { networkListRoutes } from "../../src/tools/network-list-routes.js";
+import { pagesList } from "../../src/tools/pages-list.js";
+import { sessionManager } from "../../src/session/manager.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Origin Policy Enforcement", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  function withPolicy(policy: Partial<typeof loadedConfig.resolved.policy>) {
+    return {
+      ...loadedConfig,
+      resolved: {
+        ...loadedConfig.resolved,
+        policy: {
+          ...loadedConfig.resolved.policy,
+          allowedOrigins: ["http://localhost:3456"],
+          ...policy,
+        },
+      },
+    };
+  }
+
+  describe("Main-frame navigations", () => {
+    it("should reject navigate to a disallowed origin", async () => {
+      await sessionStart({}, withPolicy({}));
+
+      try {
+        await navigate({ url: "http://127.0.0.1:3456/multiple-elements.html" });
+        expect.fail("Should have thrown NAVIGATION_BLOCKED_BY_POLICY");
+      } catch (err: any) {
+        expect(err.error.code).toBe("NAVIGATION_BLOCKED_BY_POLICY");
+      }
+    });
+
+    it("should reject a session.start url on a disallowed origin", async () => {
+      try {
+        await sessionStart(
+          { url: "http://127.0.0.1:3456/multiple-elements.html" },
+          withPolicy({}),
+        );
+        expect.fail("Should have thrown NAVIGATION_BLOCKED_BY_POLICY");
+      } catch (err: any) {
+        expect(err.error.code).toBe("NAVIGATION_BLOCKED_BY_POLICY");
+      }
+
+      expect(sessionManager.hasSession()).toBe(false);
+    });
+
+    it("should block and report clicks on external links", async () => {
+      await sessionStart({}, withPolicy({}));
+      await navigate({ url: "/policy-test.html" });
+
+      const result = await pageInteract({
+        actions: [{ type: "click", selector: "#external-link" }],
+      });
+
+      expect(result.blockedNavigations).toHaveLength(1);
+      expect(result.blockedNavigations![0].url).toContain("127.0.0.1");
+      expect(result.blockedNavigations![0].reason).toBe("navigation");
+      expect(sessionManager.getSession().page.url()).toContain(
+        "localhost:3456/policy-test.html",
+      );
+    });
+
+    it("should not report anything for allowed navigations", async () => {
+      await sessionStart({}, withPolicy({}));
+      await navigate({ url: "/policy-test.html" });
+
+      const result = await pageInteract({
+        actions: [{ type: "click", selector: "#internal-link" }],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(result.blockedNavigations).toBeUndefined();
+    });
+
+    it("should block script-initiated navigations", async () => {
+      await sessionStart({}, withPolicy({}));
+      await navigate({ url: "/policy-test.html" });
+
+      await evaluateJavaScript({
+        code: "location.href = 'http://127.0.0.1:3456/multiple-elements.html';",
+      });
+      await sessionManager.getSession().page.waitForTimeout(500);
+
+      const result = await getBlockedRequests({});
+      expect(result.totalBlocked).toBe(1);
+      expect(result.blockedRequests[0].reason).toBe("navigation");
+    });
+
+    it("should reject redirects to a disallowed origin", async () => {
+      await sessionStart({}, withPolicy({}));
+
+      try {
+        await navigate({ url: "/redirect-external" });
+        expect.fail("Should have thrown NAVIGATION_BLOCKED_BY_POLICY");
+      } catch (err: any) {
+        expect(err.error.code).toBe("NAVIGATION_BLOCKED_BY_POLICY");
+        expect(err.error.details.finalUrl).toContain("127.0.0.1");
+      }
+
+      expect(sessionManager.getSession().page.url()).toBe("about:blank");
+
+      const result = await getBlockedRequests({});
+      expect(result.blockedRequests.some((r) => r.reason === "redirect")).toBe(
+        true,
+      );
+    });
+
+    it("should abort redirects to a disallowed origin after a click", async () => {
+      await sessionStart({}, withPolicy({}));
+      await navigate({ url: "/policy-test.html" });
+
+      const result = await pageInteract({
+        actions: [{ type: "click", selector: "#redirect-link" }],
+      });
+      await sessionManager.getSession().page.waitForTimeout(500);
+
+      const { blockedRequests } = await getBlockedRequests({});
+      expect(blockedRequests).toHaveLength(1);
+      expect(blockedRequests[0].reason).toBe("redirect");
+      expect(blockedRequests[0].url).toContain("127.0.0.1");
+      expect(result.blockedNavigations?.[0].reason).toBe("redirect");
+
+      // The redirect target never loaded
+      expect(sessionManager.getSession().page.url()).not.toContain("127.0.0.1");
+    });
+
+    it("should not let a popup follow a redirect to a disallowed origin", async () => {
+      await sessionStart({}, withPolicy({}));
+      await navigate({ url: "/policy-test.html" });
+
+      await pageInteract({
+        actions: [{ type: "click", selector: "#redirect-popup-link" }],
+      });
+      await sessionManager.getSession().page.waitForTimeout(500);
+
+      const { pages } = await pagesList({});
+      expect(pages).toHaveLength(2);
+      expect(pages[1].url).not.toContain("127.0.0.1");
+
+      const { blockedRequests } = await getBlockedRequests({});
+      expect(blockedRequests.some((r) => r.reason === "redirect")).toBe(true);
+    });
+
+    it("should not let route rules fulfill blocked navigations", async () => {
+      await sessionStart({}, withPolicy({}));
+      await navigate({ url: "/policy-test.html" });
+
+      await networkRoute({
+        url: "http://127.0.0.1:3456/**",
+        action: { type: "fulfill", body: "mocked" },
+      });
+
+      const result = await pageInteract({
+        actions: [{ type: "click", selector: "#external-link" }],
+      });
+
+      expect(result.blockedNavigations).toHaveLength(1);
+      expect(sessionManager.getSession().page.url()).toContain(
+        "localhost:3456/policy-test.html",
+      );
+
+      const { routes } = await networkListRoutes();
+      expect(routes[0].hitCount).toBe(0);
+    });
+  });
+
+  describe("Subresources", () => {
+    it("should allow subresources by default", async () => {
+      await sessionStart({}, withPolicy({}));
+      await navigate({ url: "/policy-test.html" });
+
+      const result = await getBlockedRequests({});
+      expect(result.totalBlocked).toBe(0);
+    });
+
+    it("should block subresources when enforceSubresources is set", async () => {
+      await sessionStart({}, withPolicy({ enforceSubresources: true }));
+      await navigate({ url: "/policy-test.html" });
+
+      const result = await getBlockedRequests({});
+      expect(result.totalBlocked).toBe(1);
+      expect(result.blockedRequests[0].reason).toBe("subresource");
+      expect(result.blockedRequests[0].resourceType).toBe("image");
+    });
+  });
+
+  describe("Origin patterns", () => {
+    it("should match wildcard ports", () => {
+      const policy = { allowedOrigins: ["http://localhost:*"] };
+
+      expect(checkOrigin("http://localhost:3000/", policy)).toEqual({
+        allowed: true,
+        ruleList: "allowedOrigins",
+        matchedRule: "http://localhost:*",
+      });
+      expect(checkOrigin("http://localhost/", policy).allowed).toBe(true);
+      expect(checkOrigin("https://localhost:3000/", policy).allowed).toBe(
+        false,
+      );
+    });
+
+    it("should match subdomain and scheme wildcards", () => {
+      const policy = {
+        allowedOrigins: ["https://*.preview.example.com", "*://example.com"],
+      };
+
+      expect(
+        checkOrigin("https://pr-42.preview.example.com/a", policy).allowed,
+      ).toBe(true);
+      expect(checkOrigin("https://preview.example.com", policy).allowed).toBe(
+        false,
+      );
+      expect(checkOrigin("http://example.com", policy).allowed).toBe(true);
+      expect(checkOrigin("https://example.com:8443", policy).allowed).toBe(
+        false,
+      );
+    });
+
+    it("should treat an explicit default port like an omitted one", () => {
+      const policy = { allowedOrigins: ["https://example.com:443"] };
+
+      expect(checkOrigin("https://example.com/", policy).allowed).toBe(true);
+    });
+
+    it("should let blockedOrigins win over allowedOrigins", () => {
+      const policy = {
+        allowedOrigins: ["*"],
+        blockedOrigins: ["https://*.stripe.com"],
+      };
+
+      expect(checkOrigin("https://js.stripe.com/v3", policy)).toEqual({
+        allowed: false,
+        ruleList: "blockedOrigins",
+        matchedRule: "https://*.stripe.com",
+      });
+      expect(checkOrigin("https://example.com", policy).allowed).toBe(true);
+    });
+
+    it("should reject malformed patterns when loading config", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "mcp-policy-"));
+      const configPath = join(dir, "config.json");
+      writeFileSync(
+        configPath,
+        JSON.stringify({ policy: { allowedOrigins: ["example.com"] } }),
+      );
+
+      await expect(loadConfig({ configPath })).rejects.toThrow(
+        /policy\.allowedOrigins/,
+      );
+    });
+
+    it("should report the matched rule when navigation is blocked", async () => {
+      await sessionStart(
+        {},
+        withPolicy({
+          allowedOrigins: ["http://localhost:*", "http://127.0.0.1:*"],
+          blockedOrigins: ["http://127.0.0.1:*"],
+        }),
+      );
+
+      try {
+        await navigate({ url: "http://127.0.0.1:3456/multiple-elements.html" });
+        expect.fail("Should have thrown NAVIGATION_BLOCKED_BY_POLICY");
+      } catch (err: any) {
+        expect(err.error.code).toBe("NAVIGATION_BLOCKED_BY_POLICY");
+        expect(err.error.details.ruleList).toBe("blockedOrigins");
+        expect(err.error.details.matchedRule).toBe("http://127.0.0.1:*");
+      }
+    });
+
+    it("should record the matched rule for blocked requests", async () => {
+      await sessionStart(
+        {},
+        withPolicy({
+          allowedOrigins: undefined,
+          blockedOrigins: ["http://127.0.0.1:*"],
+        }),
+      );
+      await navigate({ url: "/policy-test.html" });
+
+      await pageInteract({
+        actions: [{ type: "click", selector: "#external-link" }],
+      });
+
+      const result = await getBlockedRequests({});
+      expect(result.totalBlocked).toBe(1);
+      expect(result.blockedRequests[0].ruleList).toBe("blockedOrigins");
+      expect(result.blockedRequests[0].matchedRule).toBe("http://127.0.0.1:*");
+    });
+  });
+
+  describe("Without allowedOrigins", () => {
+    it("should not block anything", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/policy-test.html" });
+
+      const result = await pageInteract({
+        actions: [
+          { type: "click", selector: "#external-link" },
+          { type: "waitForNavigation" },
+        ],
+      });
+
+      expect(result.blockedNavigations).toBeUndefined();
+      expect((await getBlockedRequests({})).totalBlocked).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { getElement } from "../../src/tools/get-element.js";
+import { getCssProvenance } from "../../src/tools/get-css-provenance.js";
+import type { TargetPseudoElement } from "../../src/types.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Pseudo-element Targets", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  describe("getElement", () => {
+    it("should get computed styles of ::before", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-elements.html" });
+
+      const result = await getElement({
+        target: { kind: "id", value: "home", pseudo: "before" },
+        include: { attributes: true, computed: ["color", "margin-right"] },
+      });
+
+      const info = result.results[0];
+      expect(info.pseudo).toBe("before");
+      expect(info.nodeName).toBe("A");
+      expect(info.attributes?.id).toBe("home");
+      expect(info.computed?.color).toBe("rgb(255, 0, 0)");
+      expect(info.computed?.["margin-right"]).toBe("4px");
+    });
+
+    it("should get the box model of ::after", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-elements.html" });
+
+      const result = await getElement({
+        target: { kind: "id", value: "badge", pseudo: "after" },
+        include: { boxModel: true },
+      });
+
+      const boxModel = result.results[0].boxModel;
+      expect(boxModel?.content.width).toBe(12);
+      expect(boxModel?.padding.width).toBe(18);
+    });
+
+    it("should get computed styles of ::placeholder", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-elements.html" });
+
+      const result = await getElement({
+        target: { kind: "id", value: "email", pseudo: "placeholder" },
+        include: { computed: ["color"] },
+      });
+
+      expect(result.results[0].nodeName).toBe("INPUT");
+      expect(result.results[0].computed?.color).toBe("rgb(120, 120, 120)");
+    });
+
+    it("should skip elements without the pseudo-element", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-elements.html" });
+
+      const result = await getElement({
+        target: { kind: "selector", value: "a", pseudo: "before" },
+      });
+      expect(result.matchCount).toBe(1);
+
+      try {
+        await getElement({
+          target: { kind: "id", value: "plain", pseudo: "before" },
+        });
+        expect.fail("Should have thrown ELEMENT_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("ELEMENT_NOT_FOUND");
+      }
+    });
+
+    it("should reject unknown pseudo-elements", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-elements.html" });
+
+      try {
+        await getElement({
+          target: {
+            kind: "id",
+            value: "home",
+            pseudo: "first-line" as TargetPseudoElement,
+          },
+        });
+        expect.fail("Should have thrown");
+      } catch (err: any) {
+        expect(err.error.code).toBe("UNEXPECTED_ERROR");
+      }
+    });
+  });
+
+  describe("getCssProvenance", () => {
+    it("should trace a ::before declaration", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-elements.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "home", pseudo: "before" },
+        property: "color",
+      });
+
+      expect(result.results[0].computedValue).toBe("rgb(255, 0, 0)");
+      expect(result.results[0].winner?.selector).toBe(".icon-link::before");
+      expect(result.results[0].winner?.value).toBe("rgb(255, 0, 0)");
+    });
+
+    it("should trace values inherited from the originating element", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-elements.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "quote", pseudo: "before" },
+        property: "font-style",
+      });
+
+      const info = result.results[0];
+      expect(info.computedValue).toBe("italic");
+      expect(info.winner?.selector).toBe(".quote");
+      expect(info.inheritance?.from).toBe("blockquote#quote.quote");
+      expect(info.inheritance?.depth).toBe(1);
+      expect(info.inheritance?.path[0].element).toBe(
+        "blockquote#quote.quote::before",
+      );
+    });
+
+    it("should apply states forced on the originating element", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-elements.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "home", pseudo: "before" },
+        property: "color",
+        forceStates: ["hover"],
+      });
+
+      expect(result.results[0].computedValue).toBe("rgb(0, 128, 0)");
+      expect(result.results[0].winner?.selector).toBe(
+        ".icon-link:hover::before",
+      );
+    });
+
+    it("should trace ::marker and ::placeholder declarations", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/pseudo-elements.html" });
+
+      const marker = await getCssProvenance({
+        target: { kind: "id", value: "step-one", pseudo: "marker" },
+        property: "color",
+      });
+      expect(marker.results[0].winner?.selector).toBe(".steps li::marker");
+
+      const placeholder = await getCssProvenance({
+        target: { kind: "id", value: "email", pseudo: "placeholder" },
+        property: "color",
+      });
+      expect(placeholder.results[0].winner?.selector).toBe(
+        "#email::placeholder",
+      );
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { existsSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { sessionList } from "../../src/tools/session-list.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { evaluateJavaScript } from "../../src/tools/evaluate-javascript.js";
+import { sessionManager } from "../../src/session/manager.js";
+import type { Har } from "../../src/types.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Named Sessions", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+  let multiConfig: typeof loadedConfig;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+    multiConfig = {
+      ...loadedConfig,
+      resolved: {
+        ...loadedConfig.resolved,
+        policy: { ...loadedConfig.resolved.policy, singleInstance: false },
+      },
+    };
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up every session after each test
+    try {
+      await sessionManager.stopAll();
+    } catch {
+      // Ignore stop errors
+    }
+  });
+
+  async function pageTitle(session?: string) {
+    const result = await evaluateJavaScript({
+      code: "return document.title;",
+      session,
+    });
+    return result.result;
+  }
+
+  it("should run named sessions side by side", async () => {
+    const guest = await sessionStart({ session: "guest" }, multiConfig);
+    const admin = await sessionStart(
+      { session: "admin", scenario: "iphone" },
+      multiConfig,
+    );
+
+    expect(guest.session).toBe("guest");
+    expect(admin.session).toBe("admin");
+
+    await navigate({ url: "/multiple-elements.html", session: "guest" });
+    await navigate({ url: "/interaction-test.html", session: "admin" });
+
+    expect(await pageTitle("guest")).toBe("Multiple Elements Test");
+    expect(await pageTitle("admin")).toBe("Interaction Test Page");
+  });
+
+  it("should write a HAR and trace per session", async () => {
+    const base = join(tmpdir(), `sessions-test-${Date.now()}`);
+    const config = {
+      ...multiConfig,
+      resolved: {
+        ...multiConfig.resolved,
+        playwright: {
+          ...multiConfig.resolved.playwright,
+          harOutputPath: `${base}.har`,
+          traceOutputPath: `${base}.zip`,
+        },
+      },
+    };
+
+    await sessionStart({}, config);
+    await sessionStart({ session: "admin" }, config);
+    await navigate({ url: "/multiple-elements.html", session: "default" });
+    await navigate({ url: "/interaction-test.html", session: "admin" });
+
+    await sessionStop({ session: "default" });
+    await sessionStop({ session: "admin" });
+
+    const urls = (path: string) =>
+      (JSON.parse(readFileSync(path, "utf8")) as Har).log.entries.map(
+        (entry) => entry.request.url,
+      );
+    expect(urls(`${base}.har`).join()).toContain("/multiple-elements.html");
+    expect(urls(`${base}.admin.har`).join()).toContain(
+      "/interaction-test.html",
+    );
+    expect(urls(`${base}.admin.har`).join()).not.toContain(
+      "/multiple-elements.html",
+    );
+
+    expect(existsSync(`${base}.zip`)).toBe(true);
+    expect(existsSync(`${base}.admin.zip`)).toBe(true);
+  });
+
+  it("should default to the most recently started session", async () => {
+    await sessionStart({ session: "first" }, multiConfig);
+    await sessionStart({ session: "second" }, multiConfig);
+
+    await navigate({ url: "/multiple-elements.html" });
+
+    expect(sessionManager.getSession().name).toBe("second");
+    expect(await pageTitle("second")).toBe("Multiple Elements Test");
+    expect(await pageTitle("first")).toBe("");
+  });
+
+  it("should list sessions with scenario and device", async () => {
+    await sessionStart({ session: "guest" }, multiConfig);
+    await sessionStart({ session: "phone", scenario: "iphone" }, multiConfig);
+
+    const result = await sessionList();
+
+    expect(result.sessions.map((s) => s.name)).toEqual(["guest", "phone"]);
+    expect(result.sessions[0].current).toBe(false);
+    expect(result.sessions[1].current).toBe(true);
+    expect(result.sessions[1].scenario).toBe("iphone");
+    expect(result.sessions[1].device).toBe("iPhone 13");
+    expect(result.sessions[1].pageCount).toBe(1);
+  });
+
+  it("should stop only the named session", async () => {
+    await sessionStart({ session: "guest" }, multiConfig);
+    await sessionStart({ session: "admin" }, multiConfig);
+
+    await sessionStop({ session: "guest" });
+
+    expect(sessionManager.hasSession("guest")).toBe(false);
+    expect(sessionManager.hasSession("admin")).toBe(true);
+  });
+
+  it("should throw NO_ACTIVE_SESSION for an unknown session name", async () => {
+    await sessionStart({ session: "guest" }, multiConfig);
+
+    try {
+      await navigate({ url: "/multiple-elements.html", session: "missing" });
+      expect.fail("Should have thrown NO_ACTIVE_SESSION");
+    } catch (err: any) {
+      expect(err.error.code).toBe("NO_ACTIVE_SESSION");
+      expect(err.error.details.activeSessions).toEqual(["guest"]);
+    }
+  });
+
+  it("should stop other sessions when singleInstance is enabled", async () => {
+    await sessionStart({ session: "guest" }, loadedConfig);
+    await sessionStart({ session: "admin" }, loadedConfig);
+
+    const result = await sessionList();
+    expect(result.sessions.map((s) => s.name)).toEqual(["admin"]);
+  });
+});
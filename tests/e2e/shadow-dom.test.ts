@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { getElement } from "../../src/tools/get-element.js";
+import { getCssProvenance } from "../../src/tools/get-css-provenance.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Shadow DOM Piercing", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  describe("Element targets", () => {
+    it("should not find shadow content without piercing", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/shadow-test.html" });
+
+      try {
+        await getElement({ target: { kind: "selector", value: ".title" } });
+        expect.fail("Should have thrown ELEMENT_NOT_FOUND");
+      } catch (err: any) {
+        expect(err.error.code).toBe("ELEMENT_NOT_FOUND");
+      }
+    });
+
+    it("should follow >>> chains into shadow roots", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/shadow-test.html" });
+
+      const result = await getElement({
+        target: { kind: "selector", value: "ds-card >>> ds-button >>> .label" },
+        include: { attributes: true },
+      });
+
+      expect(result.matchCount).toBe(1);
+      expect(result.results[0].attributes?.class).toBe("label");
+    });
+
+    it("should search nested shadow roots with pierce", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/shadow-test.html" });
+
+      const result = await getElement({
+        target: { kind: "selector", value: "button.label", pierce: true },
+      });
+
+      expect(result.matchCount).toBe(1);
+    });
+  });
+
+  describe("Cascade across shadow boundaries", () => {
+    it("should let outer normal rules beat :host rules", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/shadow-test.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "card" },
+        property: "color",
+        includeContributors: true,
+      });
+
+      expect(result.results[0].winner?.selector).toBe("ds-card");
+      expect(result.results[0].contributors?.[0].shadowContext).toBe("host");
+    });
+
+    it("should let important :host rules beat outer important rules", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/shadow-test.html" });
+
+      const result = await getCssProvenance({
+        target: { kind: "id", value: "card" },
+        property: "background-color",
+      });
+
+      expect(result.results[0].winner?.shadowContext).toBe("host");
+      expect(result.results[0].winner?.value).toBe("rgb(255, 255, 0)");
+    });
+
+    it("should report ::part and ::slotted rules", async () => {
+      await sessionStart({}, loadedConfig);
+      await navigate({ url: "/shadow-test.html" });
+
+      const part = await getCssProvenance({
+        target: { kind: "selector", value: "ds-card >>> .title" },
+        property: "color",
+      });
+      expect(part.results[0].winner?.shadowContext).toBe("part");
+      expect(part.results[0].winner?.selector).toBe("ds-card::part(title)");
+
+      const slotted = await getCssProvenance({
+        target: { kind: "id", value: "slotted-text" },
+        property: "font-weight",
+      });
+      expect(slotted.results[0].winner?.shadowContext).toBe("slotted");
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { getCssProvenance } from "../../src/tools/get-css-provenance.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Source-mapped CSS Provenance", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  function withSourceMaps(
+    sourceMaps: (typeof loadedConfig)["resolved"]["sourceMaps"],
+  ): typeof loadedConfig {
+    return {
+      ...loadedConfig,
+      resolved: { ...loadedConfig.resolved, sourceMaps },
+    };
+  }
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  it("should report the original source location", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/source-maps-test.html" });
+
+    const result = await getCssProvenance({
+      target: { kind: "id", value: "primary" },
+      property: "color",
+    });
+
+    const winner = result.results[0].winner;
+    expect(winner?.selector).toBe(".btn.primary");
+    expect(winner?.stylesheetUrl).toBe(server.getUrl("/styles/button.scss"));
+    expect(winner?.line).toBe(5);
+    expect(winner?.column).toBe(4);
+    expect(winner?.snippet).toBe("color: rgb(0, 0, 255);");
+  });
+
+  it("should keep the generated location", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/source-maps-test.html" });
+
+    const result = await getCssProvenance({
+      target: { kind: "id", value: "primary" },
+      property: "color",
+      includeContributors: true,
+    });
+
+    const info = result.results[0];
+    expect(info.winner?.generated).toMatchObject({
+      stylesheetUrl: server.getUrl("/styles/bundle.min.css"),
+      line: 0,
+      column: 53,
+    });
+    expect(info.winner?.generated?.snippet).toContain(".btn{color");
+
+    // Contributors are mapped too
+    expect(info.contributors?.[0].selector).toBe(".btn");
+    expect(info.contributors?.[0].line).toBe(1);
+    expect(info.contributors?.[0].generated?.column).toBe(5);
+  });
+
+  it("should not map locations when source maps are disabled", async () => {
+    await sessionStart(
+      {},
+      withSourceMaps({ enabled: false, pathMappings: {} }),
+    );
+    await navigate({ url: "/source-maps-test.html" });
+
+    const result = await getCssProvenance({
+      target: { kind: "id", value: "plain" },
+      property: "padding-top",
+    });
+
+    const winner = result.results[0].winner;
+    expect(winner?.stylesheetUrl).toBe(server.getUrl("/styles/bundle.min.css"));
+    expect(winner?.line).toBe(0);
+    expect(winner?.column).toBe(24);
+    expect(winner?.generated).toBeUndefined();
+  });
+
+  it("should read source maps from disk through path mappings", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/source-maps-test.html" });
+
+    // The source map is not served
+    const unmapped = await getCssProvenance({
+      target: { kind: "id", value: "local" },
+      property: "margin-top",
+    });
+    expect(unmapped.results[0].winner?.generated).toBeUndefined();
+
+    await sessionStop();
+    await sessionStart(
+      {},
+      withSourceMaps({
+        enabled: true,
+        pathMappings: {
+          [server.getUrl("/styles/")]: resolve(
+            import.meta.dirname,
+            "fixtures/sources",
+          ),
+        },
+      }),
+    );
+    await navigate({ url: "/source-maps-test.html" });
+
+    const mapped = await getCssProvenance({
+      target: { kind: "id", value: "local" },
+      property: "margin-top",
+    });
+
+    const winner = mapped.results[0].winner;
+    expect(winner?.stylesheetUrl).toBe(server.getUrl("/styles/local.scss"));
+    expect(winner?.line).toBe(1);
+    expect(winner?.snippet).toBe("margin-top: 4px;");
+    expect(winner?.generated?.line).toBe(0);
+  });
+
+  it("should not read source maps outside the mapped directory", async () => {
+    // The map exists one level above the mapped directory
+    await sessionStart(
+      {},
+      withSourceMaps({
+        enabled: true,
+        pathMappings: {
+          [server.getUrl("/styles/")]: resolve(
+            import.meta.dirname,
+            "fixtures/sources/nested",
+          ),
+        },
+      }),
+    );
+    await navigate({ url: "/source-maps-test.html" });
+
+    const result = await getCssProvenance({
+      target: { kind: "id", value: "escape" },
+      property: "margin-top",
+    });
+
+    const winner = result.results[0].winner;
+    expect(winner?.stylesheetUrl).toBe(server.getUrl("/styles/escape.min.css"));
+    expect(winner?.generated).toBeUndefined();
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { getElement } from "../../src/tools/get-element.js";
+import { getCssProvenance } from "../../src/tools/get-css-provenance.js";
+import { cssSetProperty } from "../../src/tools/css-set-property.js";
+import { cssRevertAll } from "../../src/tools/css-revert-all.js";
+import { evaluateJavaScript } from "../../src/tools/evaluate-javascript.js";
+import { pagesNew } from "../../src/tools/pages-new.js";
+import { pagesSelect } from "../../src/tools/pages-select.js";
+import { sessionManager } from "../../src/session/manager.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Live Style Editing", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  async function computed(id: string, property: string) {
+    const result = await getElement({
+      target: { kind: "id", value: id },
+      include: { computed: [property] },
+    });
+    return result.results[0].computed?.[property];
+  }
+
+  it("should edit a matched rule and revert it", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/style-edits.html" });
+
+    const result = await cssSetProperty({
+      target: { kind: "id", value: "card" },
+      rule: { selector: ".card" },
+      property: "margin-top",
+      value: "24px",
+    });
+
+    expect(result.id).toMatch(/^edit-\d+$/);
+    expect(result.declaration).toBe("margin-top: 24px;");
+    expect(result.rule?.selector).toBe(".card");
+    expect(result.results).toEqual([
+      { element: "div#card.card.featured", value: "24px" },
+    ]);
+    expect(result.editCount).toBe(1);
+
+    // The rule applies to every element it matches
+    expect(await computed("plain-card", "margin-top")).toBe("24px");
+
+    const reverted = await cssRevertAll({});
+    expect(reverted.revertedCount).toBe(1);
+    expect(await computed("card", "margin-top")).toBe("8px");
+    expect(await computed("plain-card", "margin-top")).toBe("8px");
+  });
+
+  it("should edit inline styles and keep existing declarations", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/style-edits.html" });
+
+    const result = await cssSetProperty({
+      target: { kind: "id", value: "card" },
+      property: "color",
+      value: "rgb(255, 0, 0)",
+    });
+    expect(result.rule).toBeUndefined();
+    expect(result.results[0].value).toBe("rgb(255, 0, 0)");
+    expect(await computed("card", "padding-top")).toBe("2px");
+
+    await cssRevertAll({});
+
+    const element = await getElement({
+      target: { kind: "id", value: "card" },
+      include: { attributes: true, computed: ["color"] },
+    });
+    expect(element.results[0].attributes?.style).toBe("padding-top: 2px");
+    expect(element.results[0].computed?.color).toBe("rgb(0, 0, 255)");
+  });
+
+  it("should show edits in provenance", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/style-edits.html" });
+
+    await cssSetProperty({
+      target: { kind: "id", value: "card" },
+      rule: { selector: ".card", line: 9 },
+      property: "color",
+      value: "rgb(255, 0, 0)",
+      important: true,
+    });
+
+    const provenance = await getCssProvenance({
+      target: { kind: "id", value: "card" },
+      property: "color",
+    });
+
+    const winner = provenance.results[0].winner;
+    expect(provenance.results[0].computedValue).toBe("rgb(255, 0, 0)");
+    expect(winner?.selector).toBe(".card");
+    expect(winner?.important).toBe(true);
+  });
+
+  it("should keep an undo stack of edits", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/style-edits.html" });
+
+    await cssSetProperty({
+      target: { kind: "id", value: "card" },
+      rule: { selector: ".card.featured" },
+      property: "color",
+      value: "rgb(0, 128, 0)",
+    });
+    const second = await cssSetProperty({
+      target: { kind: "id", value: "card" },
+      rule: { selector: ".card.featured" },
+      property: "color",
+      value: "rgb(128, 0, 128)",
+    });
+    expect(second.editCount).toBe(2);
+    expect(second.results[0].value).toBe("rgb(128, 0, 128)");
+
+    const reverted = await cssRevertAll({});
+    expect(reverted.revertedCount).toBe(2);
+    expect(await computed("card", "color")).toBe("rgb(0, 0, 255)");
+
+    // Nothing left to revert
+    expect((await cssRevertAll({})).revertedCount).toBe(0);
+  });
+
+  it("should revert edits on navigation", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/style-edits.html" });
+
+    await cssSetProperty({
+      target: { kind: "id", value: "card" },
+      rule: { selector: ".card" },
+      property: "margin-top",
+      value: "24px",
+    });
+
+    // Same-document navigation keeps the style sheets
+    await navigate({ url: "/style-edits.html#plain-card" });
+
+    expect(await computed("card", "margin-top")).toBe("8px");
+    expect((await cssRevertAll({})).revertedCount).toBe(0);
+  });
+
+  it("should forget edits when a script navigates the page", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/style-edits.html" });
+
+    await cssSetProperty({
+      target: { kind: "id", value: "card" },
+      rule: { selector: ".card" },
+      property: "margin-top",
+      value: "24px",
+    });
+    const session = sessionManager.getSession();
+
+    // A same-document navigation keeps the edit
+    await evaluateJavaScript({ code: "location.hash = 'plain-card';" });
+    await session.page.waitForTimeout(200);
+    expect(session.styleEdits).toHaveLength(1);
+
+    await evaluateJavaScript({
+      code: "location.assign('/style-edits.html?reloaded');",
+    });
+    await session.page.waitForLoadState("load");
+    await session.page.waitForTimeout(200);
+
+    expect(session.styleEdits).toHaveLength(0);
+    expect(await computed("card", "margin-top")).toBe("8px");
+  });
+
+  it("should report edits reverted when another page is selected", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/style-edits.html" });
+
+    const edit = await cssSetProperty({
+      target: { kind: "id", value: "card" },
+      rule: { selector: ".card" },
+      property: "margin-top",
+      value: "24px",
+    });
+    const first = sessionManager.getSession().activePageId;
+
+    const { page } = await pagesNew({
+      url: "/style-edits.html",
+      select: false,
+    });
+    const selected = await pagesSelect({ id: page.id });
+    expect(selected.revertedEdits).toEqual([edit.id]);
+
+    // Nothing to revert on the way back
+    const back = await pagesSelect({ id: first });
+    expect(back.revertedEdits).toBeUndefined();
+    expect(await computed("card", "margin-top")).toBe("8px");
+  });
+
+  it("should throw RULE_NOT_FOUND for rules not matching the element", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/style-edits.html" });
+
+    try {
+      await cssSetProperty({
+        target: { kind: "id", value: "plain-card" },
+        rule: { selector: ".card.featured" },
+        property: "color",
+        value: "red",
+      });
+      expect.fail("Should have thrown RULE_NOT_FOUND");
+    } catch (err: any) {
+      expect(err.error.code).toBe("RULE_NOT_FOUND");
+      expect(err.error.details.matchedSelectors).toContain(".card");
+    }
+  });
+
+  it("should reject values that end the declaration", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/style-edits.html" });
+
+    try {
+      await cssSetProperty({
+        target: { kind: "id", value: "card" },
+        property: "color",
+        value: "red; } body { display: none",
+      });
+      expect.fail("Should have thrown");
+    } catch (err: any) {
+      expect(err.error.code).toBe("UNEXPECTED_ERROR");
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { loadConfig } from "../../src/config.js";
+import { sessionStart } from "../../src/tools/session-start.js";
+import { sessionStop } from "../../src/tools/session-stop.js";
+import { navigate } from "../../src/tools/navigate.js";
+import { pageInteract } from "../../src/tools/page-interact.js";
+import { performanceStartTrace } from "../../src/tools/performance-start-trace.js";
+import { performanceStopTrace } from "../../src/tools/performance-stop-trace.js";
+import { pagesNew } from "../../src/tools/pages-new.js";
+import { pagesClose } from "../../src/tools/pages-close.js";
+import { TestServer } from "./fixtures/server.js";
+
+describe("Performance Traces", () => {
+  const server = new TestServer();
+  let loadedConfig: Awaited<ReturnType<typeof loadConfig>>;
+
+  beforeAll(async () => {
+    // Start test server
+    await server.start();
+
+    // Load test config
+    const configPath = resolve(import.meta.dirname, "config.json");
+    loadedConfig = await loadConfig({ configPath });
+  });
+
+  afterAll(async () => {
+    // Stop test server
+    await server.stop();
+  });
+
+  afterEach(async () => {
+    // Clean up session after each test
+    try {
+      await sessionStop();
+    } catch {
+      // Ignore if no session
+    }
+  });
+
+  async function clickCompute() {
+    await pageInteract({
+      actions: [
+        { type: "click", selector: "#compute" },
+        { type: "wait", delay: 100 },
+      ],
+    });
+  }
+
+  it("should record a performance trace", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/trace-test.html" });
+
+    const started = await performanceStartTrace({});
+    expect(started).toEqual({ ok: true, mode: "trace" });
+
+    await clickCompute();
+    const result = await performanceStopTrace({});
+
+    expect(result.mode).toBe("trace");
+    expect(result.tracePath).toMatch(/\.json$/);
+    expect(result.durationMs).toBeGreaterThan(0);
+
+    // The file is a trace the Performance panel can load
+    const trace = JSON.parse(readFileSync(result.tracePath, "utf-8"));
+    expect(trace.traceEvents.length).toBeGreaterThan(0);
+
+    // The click handler is the longest task
+    expect(result.longTasks[0].durationMs).toBeGreaterThanOrEqual(150);
+    expect(result.longTasks[0].breakdown.map((event) => event.name)).toContain(
+      "EventDispatch (click)",
+    );
+
+    expect(result.hotFunctions[0].functionName).toBe("computePrimes");
+    expect(result.hotFunctions[0].url).toBe(server.getUrl("/trace-test.html"));
+  });
+
+  it("should record a CPU profile", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/trace-test.html" });
+
+    await performanceStartTrace({ mode: "profile", samplingIntervalUs: 200 });
+    await clickCompute();
+    const result = await performanceStopTrace({ topN: 3 });
+
+    expect(result.mode).toBe("profile");
+    expect(result.tracePath).toMatch(/\.cpuprofile$/);
+
+    const profile = JSON.parse(readFileSync(result.tracePath, "utf-8"));
+    expect(profile.nodes.length).toBeGreaterThan(0);
+    expect(profile.samples.length).toBeGreaterThan(0);
+
+    const [hottest] = result.hotFunctions;
+    expect(hottest.functionName).toBe("computePrimes");
+    expect(hottest.selfMs).toBeGreaterThanOrEqual(100);
+    expect(hottest.totalMs).toBeGreaterThanOrEqual(hottest.selfMs);
+    expect(result.hotFunctions.length).toBeLessThanOrEqual(3);
+
+    expect(result.longTasks[0].durationMs).toBeGreaterThanOrEqual(150);
+    expect(result.longTasks[0].breakdown[0].name).toBe("computePrimes");
+  });
+
+  it("should write the recording to the given path", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/trace-test.html" });
+
+    const path = join(tmpdir(), `trace-test-${Date.now()}.cpuprofile`);
+    await performanceStartTrace({ mode: "profile" });
+    const result = await performanceStopTrace({ path });
+
+    expect(result.tracePath).toBe(path);
+    expect(JSON.parse(readFileSync(path, "utf-8")).nodes).toBeDefined();
+  });
+
+  it("should reject starting a second recording", async () => {
+    await sessionStart({}, loadedConfig);
+    await navigate({ url: "/trace-test.html" });
+    await performanceStartTrace({ mode: "profile" });
+
+    try {
+      await performanceStartTrace({});
+      expect.fail("Should have thrown TRACE_IN_PROGRESS");
+    } catch (err: any) {
+      expect(err.error.code).toBe("TRACE_IN_PROGRESS");
+    }
+
+    // The first recording is still running
+    const result = await performanceStopTrace({});
+    expect(result.mode).toBe("profile");
+  });
+
+  it("should fail instead of waiting when the recorded page is closed", async () => {
+    await sessionStart({}, loadedConfig);
+    await pagesNew({ url: "/trace-test.html" });
+    await performanceStartTrace({});
+    await pagesClose({ id: "page-2" });
+
+    await expect(performanceStopTrace({})).rejects.toBeDefined();
+
+    // The recording was discarded, so a new one can be started
+    await performanceStartTrace({ mode: "profile" });
+    const result = await performanceStopTrace({});
+    expect(result.mode).toBe("profile");
+  });
+
+  it("should throw TRACE_NOT_STARTED without a recording", async () => {
+    await sessionStart({}, loadedConfig);
+
+    try {
+      await performanceStopTrace({});
+      expect.fail("Should have thrown TRACE_NOT_STARTED");
+    } catch (err: any) {
+      expect(err.error.code).toBe("TRACE_NOT_STARTED");
+    }
+  });
+});